@@ -0,0 +1,39 @@
+CREATE TABLE "ingestion_job_sections" (
+	"section_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" uuid NOT NULL,
+	"section_index" integer NOT NULL,
+	"section_title" varchar(500) NOT NULL,
+	"page_start" integer NOT NULL,
+	"page_end" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"content" jsonb,
+	"embedding" vector(1536),
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "ingestion_jobs" (
+	"job_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"filename" varchar(255) NOT NULL,
+	"file_size" integer NOT NULL,
+	"pdf_data" text,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"current_phase" varchar(20) DEFAULT 'structure' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"structure" jsonb,
+	"company_id" uuid,
+	"document_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "ingestion_job_sections" ADD CONSTRAINT "ingestion_job_sections_job_id_ingestion_jobs_job_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."ingestion_jobs"("job_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_company_id_companies_company_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("company_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_document_id_documents_doc_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."documents"("doc_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_ingestion_sections_job" ON "ingestion_job_sections" USING btree ("job_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_ingestion_sections_job_index" ON "ingestion_job_sections" USING btree ("job_id","section_index");--> statement-breakpoint
+CREATE INDEX "idx_ingestion_jobs_status" ON "ingestion_jobs" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_ingestion_jobs_created" ON "ingestion_jobs" USING btree ("created_at");
\ No newline at end of file
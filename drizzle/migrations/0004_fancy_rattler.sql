@@ -0,0 +1,3 @@
+ALTER TABLE "ingestion_jobs" ADD COLUMN "content_hash" varchar(64) NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "storage_key" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" DROP COLUMN "pdf_data";
\ No newline at end of file
@@ -0,0 +1,9 @@
+ALTER TABLE "documents" ADD COLUMN "content_hash" varchar(64);--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "previous_version_id" uuid;--> statement-breakpoint
+ALTER TABLE "documents" ADD COLUMN "is_active" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "supersedes_doc_id" uuid;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "duplicate_action" varchar(20);--> statement-breakpoint
+ALTER TABLE "documents" ADD CONSTRAINT "documents_previous_version_id_documents_doc_id_fk" FOREIGN KEY ("previous_version_id") REFERENCES "public"."documents"("doc_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD CONSTRAINT "ingestion_jobs_supersedes_doc_id_documents_doc_id_fk" FOREIGN KEY ("supersedes_doc_id") REFERENCES "public"."documents"("doc_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_documents_content_hash" ON "documents" USING btree ("content_hash");
\ No newline at end of file
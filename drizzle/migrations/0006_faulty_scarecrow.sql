@@ -0,0 +1,2 @@
+ALTER TABLE "documents" ADD COLUMN "pipeline_version" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+CREATE INDEX "idx_documents_pipeline_version" ON "documents" USING btree ("pipeline_version");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE "document_pages" (
+	"page_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"doc_id" uuid NOT NULL,
+	"page_number" integer NOT NULL,
+	"text" text NOT NULL,
+	"needs_visual_parsing" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN "summary" text;--> statement-breakpoint
+ALTER TABLE "ingestion_jobs" ADD COLUMN "page_texts" jsonb;--> statement-breakpoint
+ALTER TABLE "document_pages" ADD CONSTRAINT "document_pages_doc_id_documents_doc_id_fk" FOREIGN KEY ("doc_id") REFERENCES "public"."documents"("doc_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_pages_doc" ON "document_pages" USING btree ("doc_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_pages_doc_page" ON "document_pages" USING btree ("doc_id","page_number");
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "document_sub_chunks" (
+	"sub_chunk_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"chunk_id" uuid NOT NULL,
+	"doc_id" uuid NOT NULL,
+	"sub_chunk_index" integer NOT NULL,
+	"text" text NOT NULL,
+	"page_number" integer NOT NULL,
+	"token_count" integer,
+	"embedding" vector(1536),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ingestion_job_sections" ADD COLUMN "sub_chunks" jsonb;--> statement-breakpoint
+ALTER TABLE "document_sub_chunks" ADD CONSTRAINT "document_sub_chunks_chunk_id_document_chunks_chunk_id_fk" FOREIGN KEY ("chunk_id") REFERENCES "public"."document_chunks"("chunk_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "document_sub_chunks" ADD CONSTRAINT "document_sub_chunks_doc_id_documents_doc_id_fk" FOREIGN KEY ("doc_id") REFERENCES "public"."documents"("doc_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_sub_chunks_chunk" ON "document_sub_chunks" USING btree ("chunk_id");--> statement-breakpoint
+CREATE INDEX "idx_sub_chunks_doc" ON "document_sub_chunks" USING btree ("doc_id");
\ No newline at end of file
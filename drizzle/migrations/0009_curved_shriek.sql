@@ -0,0 +1 @@
+ALTER TABLE "document_chunks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce(section_title, '')), 'A') || setweight(to_tsvector('english', chunk_text), 'B')) STORED;
\ No newline at end of file
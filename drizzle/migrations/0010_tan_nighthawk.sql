@@ -0,0 +1,26 @@
+CREATE TABLE "chat_messages" (
+	"chat_message_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid NOT NULL,
+	"message_id" varchar(100) NOT NULL,
+	"role" varchar(20) NOT NULL,
+	"position" integer NOT NULL,
+	"parts" jsonb NOT NULL,
+	"metadata" jsonb,
+	"sources" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "chat_sessions" (
+	"session_id" uuid PRIMARY KEY NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"title" varchar(255) NOT NULL,
+	"scope" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_session_id_chat_sessions_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."chat_sessions"("session_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_chat_messages_session_position" ON "chat_messages" USING btree ("session_id","position");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_chat_messages_session_message" ON "chat_messages" USING btree ("session_id","message_id");--> statement-breakpoint
+CREATE INDEX "idx_chat_sessions_user_updated" ON "chat_sessions" USING btree ("user_id","updated_at");
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE "chat_feedback" (
+	"feedback_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" uuid,
+	"message_id" varchar(100) NOT NULL,
+	"user_id" varchar(64) NOT NULL,
+	"rating" varchar(10),
+	"correction" text,
+	"question" text NOT NULL,
+	"retrieval_query" text NOT NULL,
+	"scope" jsonb NOT NULL,
+	"answer" text NOT NULL,
+	"retrieved_chunk_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"cited_chunk_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "chat_feedback" ADD CONSTRAINT "chat_feedback_session_id_chat_sessions_session_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."chat_sessions"("session_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_chat_feedback_user_message" ON "chat_feedback" USING btree ("user_id","message_id");--> statement-breakpoint
+CREATE INDEX "idx_chat_feedback_rating" ON "chat_feedback" USING btree ("rating");
\ No newline at end of file
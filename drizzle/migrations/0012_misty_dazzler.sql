@@ -0,0 +1,27 @@
+CREATE TABLE "embedding_migration_documents" (
+	"migration_document_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"migration_id" uuid NOT NULL,
+	"doc_id" uuid NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"chunks_embedded" integer DEFAULT 0 NOT NULL,
+	"sub_chunks_embedded" integer DEFAULT 0 NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "embedding_migrations" (
+	"migration_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"target_model" varchar(200) NOT NULL,
+	"previous_model" varchar(200) NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"completed_at" timestamp,
+	"activated_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "embedding_migration_documents" ADD CONSTRAINT "embedding_migration_documents_migration_id_embedding_migrations_migration_id_fk" FOREIGN KEY ("migration_id") REFERENCES "public"."embedding_migrations"("migration_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "embedding_migration_documents" ADD CONSTRAINT "embedding_migration_documents_doc_id_documents_doc_id_fk" FOREIGN KEY ("doc_id") REFERENCES "public"."documents"("doc_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_embedding_migration_documents_doc" ON "embedding_migration_documents" USING btree ("migration_id","doc_id");--> statement-breakpoint
+CREATE INDEX "idx_embedding_migrations_status" ON "embedding_migrations" USING btree ("status");
\ No newline at end of file
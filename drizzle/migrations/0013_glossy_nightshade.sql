@@ -0,0 +1,33 @@
+CREATE TABLE "metric_definitions" (
+	"metric_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"canonical_name" varchar(100) NOT NULL,
+	"display_name" varchar(200) NOT NULL,
+	"description" text,
+	"aliases" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"unit_family" varchar(20) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "metric_review_queue" (
+	"review_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"doc_id" uuid NOT NULL,
+	"chunk_id" uuid NOT NULL,
+	"fact_index" integer NOT NULL,
+	"reason" varchar(30) NOT NULL,
+	"status" varchar(20) DEFAULT 'open' NOT NULL,
+	"metric_key" varchar(200) NOT NULL,
+	"fact" jsonb NOT NULL,
+	"suggested_metric" varchar(100),
+	"resolved_metric_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"resolved_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "metric_review_queue" ADD CONSTRAINT "metric_review_queue_doc_id_documents_doc_id_fk" FOREIGN KEY ("doc_id") REFERENCES "public"."documents"("doc_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "metric_review_queue" ADD CONSTRAINT "metric_review_queue_chunk_id_document_chunks_chunk_id_fk" FOREIGN KEY ("chunk_id") REFERENCES "public"."document_chunks"("chunk_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "metric_review_queue" ADD CONSTRAINT "metric_review_queue_resolved_metric_id_metric_definitions_metric_id_fk" FOREIGN KEY ("resolved_metric_id") REFERENCES "public"."metric_definitions"("metric_id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_metric_definitions_name" ON "metric_definitions" USING btree ("canonical_name");--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_metric_review_chunk_fact" ON "metric_review_queue" USING btree ("chunk_id","fact_index");--> statement-breakpoint
+CREATE INDEX "idx_metric_review_status" ON "metric_review_queue" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_metric_review_metric_key" ON "metric_review_queue" USING btree ("metric_key");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "fx_rates" (
+	"rate_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"base_currency" varchar(3) NOT NULL,
+	"quote_currency" varchar(3) NOT NULL,
+	"rate_date" date NOT NULL,
+	"rate" double precision NOT NULL,
+	"source" varchar(100),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_fx_rates_pair_date" ON "fx_rates" USING btree ("base_currency","quote_currency","rate_date");--> statement-breakpoint
+CREATE INDEX "idx_fx_rates_date" ON "fx_rates" USING btree ("rate_date");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "fact_edits" (
+	"edit_id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"doc_id" uuid NOT NULL,
+	"chunk_id" uuid NOT NULL,
+	"layer" varchar(4) NOT NULL,
+	"fact_index" integer NOT NULL,
+	"action" varchar(20) NOT NULL,
+	"before" jsonb,
+	"after" jsonb,
+	"edited_by" varchar(64) NOT NULL,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "fact_edits" ADD CONSTRAINT "fact_edits_doc_id_documents_doc_id_fk" FOREIGN KEY ("doc_id") REFERENCES "public"."documents"("doc_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "fact_edits" ADD CONSTRAINT "fact_edits_chunk_id_document_chunks_chunk_id_fk" FOREIGN KEY ("chunk_id") REFERENCES "public"."document_chunks"("chunk_id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_fact_edits_doc" ON "fact_edits" USING btree ("doc_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_fact_edits_chunk_fact" ON "fact_edits" USING btree ("chunk_id","layer","fact_index");
\ No newline at end of file
@@ -0,0 +1,5 @@
+-- A database mid-way through an embedding migration already has these columns
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "embedding_next" vector(1536);--> statement-breakpoint
+ALTER TABLE "document_chunks" ADD COLUMN IF NOT EXISTS "embedding_previous" vector(1536);--> statement-breakpoint
+ALTER TABLE "document_sub_chunks" ADD COLUMN IF NOT EXISTS "embedding_next" vector(1536);--> statement-breakpoint
+ALTER TABLE "document_sub_chunks" ADD COLUMN IF NOT EXISTS "embedding_previous" vector(1536);
\ No newline at end of file
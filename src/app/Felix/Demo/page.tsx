@@ -6,6 +6,8 @@ import { Button } from '@heroui/react';
 import TimelineDashboard from '../components/TimelineDashboard';
 import InlineChatPanel from '../components/InlineChatPanel';
 import UploadDocumentModal from '../components/UploadDocumentModal';
+import IngestionJobsModal from '../components/IngestionJobsModal';
+import FactReviewModal from '../components/FactReviewModal';
 
 interface UploadResult {
   companyId?: string;
@@ -15,6 +17,8 @@ interface UploadResult {
 
 export default function DemoPage() {
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [isJobsModalOpen, setIsJobsModalOpen] = useState(false);
+  const [isReviewModalOpen, setIsReviewModalOpen] = useState(false);
   const [selectedCompanyId, setSelectedCompanyId] = useState<string>('');
 
   const handleUploadSuccess = (result: UploadResult) => {
@@ -45,29 +49,45 @@ export default function DemoPage() {
                 Timeline visualization and document chat interface
               </p>
             </div>
-            <Button
-              color="primary"
-              size="lg"
-              onPress={() => setIsUploadModalOpen(true)}
-              startContent={
-                <svg
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                  strokeWidth={2}
-                  stroke="currentColor"
-                  className="w-5 h-5"
-                >
-                  <path
-                    strokeLinecap="round"
-                    strokeLinejoin="round"
-                    d="M12 4.5v15m7.5-7.5h-15"
-                  />
-                </svg>
-              }
-            >
-              Upload Document
-            </Button>
+            <div className="flex items-center gap-3">
+              <Button
+                variant="flat"
+                size="lg"
+                onPress={() => setIsJobsModalOpen(true)}
+              >
+                Ingestion Jobs
+              </Button>
+              <Button
+                variant="flat"
+                size="lg"
+                onPress={() => setIsReviewModalOpen(true)}
+              >
+                Review Facts
+              </Button>
+              <Button
+                color="primary"
+                size="lg"
+                onPress={() => setIsUploadModalOpen(true)}
+                startContent={
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    strokeWidth={2}
+                    stroke="currentColor"
+                    className="w-5 h-5"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      d="M12 4.5v15m7.5-7.5h-15"
+                    />
+                  </svg>
+                }
+              >
+                Upload Document
+              </Button>
+            </div>
           </div>
 
           {/* Main Layout: Timeline + Chat */}
@@ -97,6 +117,23 @@ export default function DemoPage() {
         onClose={() => setIsUploadModalOpen(false)}
         onSuccess={handleUploadSuccess}
       />
+
+      {/* Ingestion Jobs Modal */}
+      <IngestionJobsModal
+        isOpen={isJobsModalOpen}
+        onClose={() => setIsJobsModalOpen(false)}
+        onJobCompleted={(result) => {
+          if (result.companyId) {
+            setSelectedCompanyId(result.companyId);
+          }
+        }}
+      />
+
+      {/* Fact Review Modal */}
+      <FactReviewModal
+        isOpen={isReviewModalOpen}
+        onClose={() => setIsReviewModalOpen(false)}
+      />
     </div>
   );
 }
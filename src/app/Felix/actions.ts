@@ -1,6 +1,7 @@
 "use server";
 
 import { cookies } from "next/headers";
+import { randomUUID } from "crypto";
 
 // Store the password in environment variable
 // Add FELIX_PASSWORD=your-secure-password to your .env.local file
@@ -27,6 +28,8 @@ export async function verifyPassword(password: string) {
       path: "/Felix",
     });
 
+    await getUserId();
+
     return {
       success: true,
       message: "Authentication successful",
@@ -46,6 +49,31 @@ export async function checkAuth() {
   return authCookie?.value === "authenticated";
 }
 
+/**
+ * Get the ID chat history is stored under
+ * There are no user accounts, so each browser gets a random ID that outlives
+ * the 24 hour auth cookie
+ */
+export async function getUserId() {
+  const cookieStore = await cookies();
+  const userCookie = cookieStore.get("felix-user");
+
+  if (userCookie?.value) {
+    return userCookie.value;
+  }
+
+  const userId = randomUUID();
+  cookieStore.set("felix-user", userId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax",
+    maxAge: 60 * 60 * 24 * 365, // 1 year
+    path: "/Felix",
+  });
+
+  return userId;
+}
+
 export async function logout() {
   const cookieStore = await cookies();
   cookieStore.delete("felix-auth");
@@ -0,0 +1,33 @@
+'use server';
+
+import { saveChatFeedback } from '../lib/ai/feedback';
+import type { ChatFeedbackInput } from '../types/feedback';
+import { checkAuth, getUserId } from '../actions';
+
+/**
+ * Rate an assistant answer and/or submit a correction for it
+ */
+export async function submitChatFeedback(input: ChatFeedbackInput) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const saved = await saveChatFeedback(input, await getUserId());
+
+    return saved
+      ? { success: true as const }
+      : { success: false as const, error: 'Answer not found - it may still be saving' };
+  } catch (error) {
+    console.error('Error submitting chat feedback:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to submit feedback',
+    };
+  }
+}
@@ -0,0 +1,157 @@
+'use server';
+
+import {
+  listChatSessions,
+  getChatSession,
+  renameChatSession as renameSession,
+  deleteChatSession as deleteSession,
+  isChatSessionId,
+} from '../lib/ai/chat-history';
+import { listChatFeedback } from '../lib/ai/feedback';
+import type { RetrievalScope } from '../types/retrieval';
+import { checkAuth, getUserId } from '../actions';
+
+/**
+ * Get the current user's past chats that overlap the given scope
+ */
+export async function fetchChatSessions(scope?: RetrievalScope) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const sessions = await listChatSessions(await getUserId(), scope);
+
+    return {
+      success: true as const,
+      sessions,
+    };
+  } catch (error) {
+    console.error('Error fetching chat sessions:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to fetch chat sessions',
+    };
+  }
+}
+
+/**
+ * Get a past chat with its messages and the feedback given on them, so it can be resumed
+ */
+export async function fetchChatSession(sessionId: string) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    // Not a session ID, so not a chat of this user's
+    if (!isChatSessionId(sessionId)) {
+      return {
+        success: false as const,
+        error: 'Chat not found',
+      };
+    }
+
+    const userId = await getUserId();
+    const session = await getChatSession(sessionId, userId);
+
+    if (!session) {
+      return {
+        success: false as const,
+        error: 'Chat not found',
+      };
+    }
+
+    return {
+      success: true as const,
+      session,
+      feedback: await listChatFeedback(sessionId, userId),
+    };
+  } catch (error) {
+    console.error('Error fetching chat session:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to fetch chat',
+    };
+  }
+}
+
+/**
+ * Rename one of the current user's chats
+ */
+export async function renameChatSession(sessionId: string, title: string) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    if (!isChatSessionId(sessionId)) {
+      return {
+        success: false as const,
+        error: 'Chat not found',
+      };
+    }
+
+    const renamed = await renameSession(sessionId, await getUserId(), title);
+
+    return renamed
+      ? { success: true as const }
+      : { success: false as const, error: 'Chat not found' };
+  } catch (error) {
+    console.error('Error renaming chat session:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to rename chat',
+    };
+  }
+}
+
+/**
+ * Delete one of the current user's chats
+ */
+export async function deleteChatSession(sessionId: string) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    if (!isChatSessionId(sessionId)) {
+      return {
+        success: false as const,
+        error: 'Chat not found',
+      };
+    }
+
+    const deleted = await deleteSession(sessionId, await getUserId());
+
+    return deleted
+      ? { success: true as const }
+      : { success: false as const, error: 'Chat not found' };
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to delete chat',
+    };
+  }
+}
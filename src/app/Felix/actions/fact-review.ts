@@ -0,0 +1,94 @@
+'use server';
+
+import {
+  applyFactEdit,
+  getDocumentFactReview,
+  listFactReviewDocuments,
+} from '../lib/ai/fact-review';
+import { FACT_LAYERS, type FactEditInput } from '../types/fact-review';
+import { checkAuth, getUserId } from '../actions';
+
+/**
+ * Get the documents available for fact review, with their review progress
+ */
+export async function fetchFactReviewDocuments() {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const documents = await listFactReviewDocuments();
+    return { success: true as const, documents };
+  } catch (error) {
+    console.error('Error fetching documents for review:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to fetch documents',
+    };
+  }
+}
+
+/**
+ * Get a document's extracted facts next to their section text, with its edit history
+ */
+export async function fetchDocumentFactReview(docId: string) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const review = await getDocumentFactReview(docId);
+
+    return review
+      ? { success: true as const, review }
+      : { success: false as const, error: 'Document not found' };
+  } catch (error) {
+    console.error('Error fetching document facts:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to fetch document facts',
+    };
+  }
+}
+
+/**
+ * Approve, edit, reject, restore or add a fact, recorded under the current user
+ */
+export async function submitFactEdit(input: FactEditInput) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    if (!FACT_LAYERS.includes(input.layer)) {
+      return {
+        success: false as const,
+        error: `Unknown fact layer "${input.layer}"`,
+      };
+    }
+
+    const { factIndex, fact } = await applyFactEdit(input, await getUserId());
+    return { success: true as const, factIndex, fact };
+  } catch (error) {
+    console.error('Error editing fact:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to edit fact',
+    };
+  }
+}
@@ -0,0 +1,52 @@
+'use server';
+
+import { getChunkDetails } from '../lib/ai/rag';
+import { isActiveFact } from '../lib/ai/schemas';
+import type { ChatSourceDetails } from '../types/chat';
+import { checkAuth } from '../actions';
+
+/**
+ * Fetch the text and extracted facts of a chunk cited in a chat answer
+ */
+export async function fetchChunkDetails(chunkId: string) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const chunk = await getChunkDetails(chunkId);
+
+    if (!chunk) {
+      return {
+        success: false as const,
+        error: 'Source not found',
+      };
+    }
+
+    const details: ChatSourceDetails = {
+      chunkId: chunk.chunkId,
+      chunkText: chunk.chunkText,
+      summary: chunk.summary,
+      // Facts rejected in review aren't shown as sources
+      timeBasedInfo: chunk.timeBasedInfo?.filter(isActiveFact) ?? null,
+      qualitativeInfo: chunk.qualitativeInfo?.filter(isActiveFact) ?? null,
+      quantitativeData: chunk.quantitativeData?.filter(isActiveFact) ?? null,
+    };
+
+    return {
+      success: true as const,
+      details,
+    };
+  } catch (error) {
+    console.error('Error fetching chunk details:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to fetch source',
+    };
+  }
+}
@@ -0,0 +1,70 @@
+'use server';
+
+import {
+  listIngestionJobs,
+  runIngestionJob,
+  retryIngestionSection,
+} from '@/app/Felix/lib/ai/ingestion';
+import type { IngestionResult } from '../types/ingestion';
+import { checkAuth } from '../actions';
+
+/**
+ * Get recent ingestion jobs with their per-section state
+ */
+export async function fetchIngestionJobs() {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const jobs = await listIngestionJobs();
+
+    return {
+      success: true as const,
+      jobs,
+    };
+  } catch (error) {
+    console.error('Error fetching ingestion jobs:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to fetch ingestion jobs',
+    };
+  }
+}
+
+/**
+ * Resume a failed or interrupted ingestion job from its last completed phase
+ */
+export async function resumeIngestionJob(jobId: string): Promise<IngestionResult> {
+  const isAuthenticated = await checkAuth();
+
+  if (!isAuthenticated) {
+    return {
+      success: false,
+      error: 'Unauthorized: Please log in to access this feature',
+    };
+  }
+
+  return runIngestionJob(jobId);
+}
+
+/**
+ * Re-run extraction for a single failed section of a job
+ */
+export async function retryIngestionJobSection(jobId: string, sectionIndex: number) {
+  const isAuthenticated = await checkAuth();
+
+  if (!isAuthenticated) {
+    return {
+      success: false,
+      error: 'Unauthorized: Please log in to access this feature',
+    };
+  }
+
+  return retryIngestionSection(jobId, sectionIndex);
+}
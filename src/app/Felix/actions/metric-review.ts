@@ -0,0 +1,121 @@
+'use server';
+
+import {
+  listMetricReviews,
+  listMetricDefinitions,
+  createMetricDefinition as createDefinition,
+  resolveMetricReview as resolveReview,
+  dismissMetricReview as dismissReview,
+} from '../lib/ai/metric-dictionary';
+import { METRIC_UNIT_FAMILIES, type MetricDefinitionInput } from '../types/metrics';
+import { checkAuth } from '../actions';
+
+/**
+ * Get the open metric review queue and the dictionary to map items onto
+ */
+export async function fetchMetricReviews() {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const [reviews, definitions] = await Promise.all([listMetricReviews(), listMetricDefinitions()]);
+    return { success: true as const, reviews, definitions };
+  } catch (error) {
+    console.error('Error fetching metric reviews:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to fetch metric reviews',
+    };
+  }
+}
+
+/**
+ * Map a queued fact (and every other with the same name) to a canonical metric
+ */
+export async function resolveMetricReview(reviewId: string, metricId: string) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const resolved = await resolveReview(reviewId, metricId);
+
+    return resolved !== null
+      ? { success: true as const, resolved }
+      : { success: false as const, error: 'Review item or metric not found' };
+  } catch (error) {
+    console.error('Error resolving metric review:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to resolve review item',
+    };
+  }
+}
+
+/**
+ * Leave a queued fact as it is
+ */
+export async function dismissMetricReview(reviewId: string) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    const dismissed = await dismissReview(reviewId);
+
+    return dismissed
+      ? { success: true as const }
+      : { success: false as const, error: 'Review item not found' };
+  } catch (error) {
+    console.error('Error dismissing metric review:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to dismiss review item',
+    };
+  }
+}
+
+/**
+ * Add a canonical metric to the dictionary, e.g. for a queued fact that has none yet
+ */
+export async function createMetricDefinition(input: MetricDefinitionInput) {
+  try {
+    const isAuthenticated = await checkAuth();
+
+    if (!isAuthenticated) {
+      return {
+        success: false as const,
+        error: 'Unauthorized: Please log in',
+      };
+    }
+
+    if (!METRIC_UNIT_FAMILIES.includes(input.unitFamily)) {
+      return { success: false as const, error: `Unknown unit family: ${input.unitFamily}` };
+    }
+
+    const definition = await createDefinition(input);
+    return { success: true as const, definition };
+  } catch (error) {
+    console.error('Error creating metric definition:', error);
+    return {
+      success: false as const,
+      error: error instanceof Error ? error.message : 'Failed to create metric',
+    };
+  }
+}
@@ -1,10 +1,30 @@
-import { streamText, UIMessage, convertToModelMessages } from 'ai';
-import { openai } from '@ai-sdk/openai';
-import { retrieveContext } from '@/app/Felix/lib/ai/rag';
+import {
+  streamText,
+  UIMessage,
+  convertToModelMessages,
+  stepCountIs,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  generateId,
+} from 'ai';
+import { getLanguageModel } from '@/app/Felix/lib/ai/models';
+import { retrieveContext, type RetrievedChunk } from '@/app/Felix/lib/ai/rag';
+import { createChatTools, type RegisterSources } from '@/app/Felix/lib/ai/chat-tools';
+import { condenseQuery, type ConversationTurn } from '@/app/Felix/lib/ai/query-rewriter';
+import { getConfiguredReranker } from '@/app/Felix/lib/rerank';
+import { ensureChatSession, isChatSessionId, saveChatMessages } from '@/app/Felix/lib/ai/chat-history';
+import { getUserId } from '@/app/Felix/actions';
+import type { ChatMessageMetadata, ChatSource, FelixUIMessage } from '@/app/Felix/types/chat';
+import { isEmptyScope, type RetrievalScope } from '@/app/Felix/types/retrieval';
 import { cookies } from 'next/headers';
 
 export const runtime = 'nodejs';
-export const maxDuration = 30;
+export const maxDuration = 60;
+
+/**
+ * Model steps per answer: chained tool calls plus the final response
+ */
+const MAX_CHAT_STEPS = 8;
 
 /**
  * Check if user is authenticated for Felix route
@@ -15,6 +35,28 @@ async function checkFelixAuth(): Promise<boolean> {
   return authCookie?.value === 'authenticated';
 }
 
+function getMessageText(message: UIMessage): string {
+  return message.parts
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join(' ')
+    .trim();
+}
+
+function toChatSource(chunk: RetrievedChunk, sourceNumber: number): ChatSource {
+  return {
+    sourceNumber,
+    chunkId: chunk.chunkId,
+    docId: chunk.docId,
+    documentTitle: chunk.documentTitle,
+    sectionTitle: chunk.sectionTitle,
+    pageStart: chunk.pageStart,
+    pageEnd: chunk.pageEnd,
+    similarity: chunk.source === 'vector' ? chunk.similarity : 0,
+    companyName: chunk.companyName,
+    scores: chunk.scores,
+  };
+}
+
 export async function POST(req: Request) {
   try {
     // Check authentication
@@ -24,14 +66,29 @@ export async function POST(req: Request) {
       return new Response('Unauthorized', { status: 401 });
     }
 
-    const { messages, companyId }: { messages: UIMessage[]; companyId: string } = await req.json();
+    // `id` is the useChat id, which doubles as the chat session ID
+    const { id: sessionId, messages, scope: requestedScope, companyId, rerank }: {
+      id?: string;
+      messages: FelixUIMessage[];
+      scope?: RetrievalScope;
+      companyId?: string;
+      rerank?: boolean; // Overrides CHAT_RERANKER for this request
+    } = await req.json();
 
     if (!messages || !Array.isArray(messages)) {
       return new Response('Messages are required', { status: 400 });
     }
 
-    if (!companyId) {
-      return new Response('Company ID is required', { status: 400 });
+    if (sessionId !== undefined && !isChatSessionId(sessionId)) {
+      return new Response('Invalid chat id', { status: 400 });
+    }
+
+    // A single companyId is still accepted for older clients
+    const scope: RetrievalScope | null = requestedScope
+      ?? (companyId ? { type: 'companies', companyIds: [companyId] } : null);
+
+    if (!scope || isEmptyScope(scope)) {
+      return new Response('At least one company or a sector is required', { status: 400 });
     }
 
     // Convert UIMessages to ModelMessages
@@ -61,39 +118,139 @@ export async function POST(req: Request) {
       return new Response('Empty message content', { status: 400 });
     }
 
+    if (sessionId) {
+      const ownsSession = await ensureChatSession({
+        sessionId,
+        userId: await getUserId(),
+        scope,
+        firstMessage: queryText,
+      });
+
+      if (!ownsSession) {
+        return new Response('Chat session not found', { status: 404 });
+      }
+    }
+
+    // Follow-ups ("and the year before?") need the earlier turns to be searchable
+    const lastUserIndex = messages.map(message => message.role).lastIndexOf('user');
+    const history: ConversationTurn[] = messages
+      .slice(0, lastUserIndex)
+      .filter(message => message.role === 'user' || message.role === 'assistant')
+      .map(message => ({ role: message.role as ConversationTurn['role'], text: getMessageText(message) }))
+      .filter(turn => turn.text.length > 0);
+
+    const condensedQuery = await condenseQuery(queryText, history, messages[lastUserIndex]?.id);
+    console.log(`🔁 Retrieval query${condensedQuery.cached ? ' (cached)' : ''}: ${JSON.stringify(condensedQuery.originalQuery)}${condensedQuery.rewritten ? ` -> ${JSON.stringify(condensedQuery.query)}` : ' (unchanged)'}`);
+
+    // CHAT_RERANKER picks the reranker; `rerank: true` falls back to the LLM judge
+    const reranker = rerank === false ? null : getConfiguredReranker('CHAT_RERANKER') ?? (rerank ? 'llm' : null);
+
     // Retrieve relevant context using RAG
-    const { context, numResults } = await retrieveContext(queryText, companyId, {
+    const { context, chunks, numResults, hasRelevantSources, companies } = await retrieveContext(condensedQuery.query, scope, {
       limit: 5,
       similarityThreshold: 0.6,
+      level: 'subChunk',
+      mode: 'hybrid',
+      reranker,
     });
     console.log(context)
+
+    // Comparative questions need every figure attributed to its company
+    const companiesWithoutSources = companies.filter(company => !company.hasSources);
+    const comparisonRules = companies.length > 1 ? `
+9. Sources cover several companies (${companies.map(company => company.name).join(', ')}). Attribute every figure to its company and compare them only on what the sources state
+10. Point out when the companies' reporting periods, currencies or units differ${companiesWithoutSources.length > 0 ? `
+11. No relevant sources were found for: ${companiesWithoutSources.map(company => company.name).join(', ')}. Say so instead of guessing about them` : ''}` : '';
+
     // Build system message with context
-    const systemMessage = `You are an AI assistant helping users understand company documents and financial information.
+    // Without sufficiently relevant sources, don't let the model answer from general knowledge
+    const systemMessage = hasRelevantSources ? `You are an AI assistant helping users understand company documents and financial information.
 
 You have access to relevant information from company documents. Use this context to answer the user's question accurately and concisely.
 
 IMPORTANT RULES:
-1. ONLY use information from the provided context
-2. If the context doesn't contain relevant information, say "I don't have information about that in the available documents"
+1. ONLY use information from the provided context and your tool results
+2. If neither contains relevant information, say "I don't have information about that in the available documents"
 3. Always cite which document/section your information comes from
 4. Be precise with numbers, dates, and metrics
 5. If you're not certain about something, acknowledge the uncertainty
-6. Always cite your sources in the following format
+6. Cite sources inline by their source number in square brackets, right after the statement they support, e.g. "Revenue grew 12% [2]" or "[1][3]". searchDocuments results carry source numbers too
+7. For questions about figures (revenue, occupancy, counts...), call the queryMetrics tool and answer from its rows, shown as a table, rather than from the prose context. Facts marked reviewed were checked by a person - prefer them when they disagree with unreviewed ones
+8. If the context is not enough, look further with the tools - chain as many lookups as you need:
+   - searchDocuments: search again with different wording or other companies
+   - getTimeline: dated events, developments and figures within a date range
+   - getDocumentSections: a document's outline, or the full text of one section
+   - listCompanies: company names, sectors and tickers${comparisonRules}
 
 Context from documents (${numResults} relevant sources found):
 ${context}
 
-Now answer the user's question based ONLY on the above context.`;
+Now answer the user's question based ONLY on the above context and your tool results.` : `You are an AI assistant helping users understand company documents and financial information.
+
+No sufficiently relevant sources were found in the company's documents for the user's latest question.
+
+Before giving up, look further with your tools: searchDocuments with different wording, queryMetrics for figures, getTimeline for dated events.
+Answer ONLY from what the tools return, citing searchDocuments results by their source number, e.g. [1]. If they find nothing either, tell the user briefly that the available documents don't appear to cover this, and suggest rephrasing the question or asking about a topic the documents are likely to contain (e.g. financial results, operations, outlook).
+Do NOT answer the question from general knowledge and do NOT invent figures.`;
+
+    // Sources go out as data parts: first the retrieved context, then whatever
+    // searchDocuments finds while the model works, numbered in that order
+    const stream = createUIMessageStream<FelixUIMessage>({
+      originalMessages: messages,
+      generateId,
+      execute: ({ writer }) => {
+        const sourceNumbers = new Map<string, number>();
+
+        const registerSources: RegisterSources = (sourceChunks) =>
+          sourceChunks.map(chunk => {
+            const existing = sourceNumbers.get(chunk.chunkId);
+            if (existing) {
+              return existing;
+            }
+
+            const sourceNumber = sourceNumbers.size + 1;
+            sourceNumbers.set(chunk.chunkId, sourceNumber);
+            writer.write({
+              type: 'data-source',
+              id: chunk.chunkId,
+              data: toChatSource(chunk, sourceNumber),
+            });
+            return sourceNumber;
+          });
+
+        // Matches the [Source N] numbering of the context
+        registerSources(chunks);
+
+        const result = streamText({
+          model: getLanguageModel('chat'),
+          system: systemMessage,
+          messages: modelMessages,
+          temperature: 0.1,
+          tools: createChatTools(companies, registerSources),
+          stopWhen: stepCountIs(MAX_CHAT_STEPS),
+        });
+
+        const metadata: ChatMessageMetadata = { retrievalQuery: condensedQuery };
+
+        writer.merge(result.toUIMessageStream({
+          messageMetadata: ({ part }) => (part.type === 'start' ? metadata : undefined),
+        }));
+      },
+      onFinish: async ({ messages: sessionMessages }) => {
+        if (!sessionId) {
+          return;
+        }
 
-    // Stream the response using Vercel's pattern
-    const result = streamText({
-      model: openai('gpt-4o-mini'),
-      system: systemMessage,
-      messages: modelMessages,
-      temperature: 0.1,
+        // The answer has already been streamed, so a failed save only loses history
+        try {
+          await saveChatMessages(sessionId, sessionMessages);
+        } catch (error) {
+          console.error('Error persisting chat:', error);
+        }
+      },
     });
 
-    return result.toUIMessageStreamResponse();
+    return createUIMessageStreamResponse({ stream });
   } catch (error) {
     console.error('Error in chat API:', error);
     return new Response(
@@ -0,0 +1,72 @@
+import { cookies } from 'next/headers';
+import { eq } from 'drizzle-orm';
+import { db, documents } from '@/db';
+import { getObjectStorage } from '@/app/Felix/lib/storage';
+import { isDocumentId } from '@/app/Felix/lib/utils/document-links';
+
+export const runtime = 'nodejs';
+
+/**
+ * Check if user is authenticated for Felix route
+ */
+async function checkFelixAuth(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const authCookie = cookieStore.get('felix-auth');
+  return authCookie?.value === 'authenticated';
+}
+
+/**
+ * Serve the original PDF of a document inline
+ * Link with a #page=N fragment to open the browser's viewer at a specific page
+ */
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ docId: string }> }
+) {
+  try {
+    const isAuthenticated = await checkFelixAuth();
+
+    if (!isAuthenticated) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const { docId } = await params;
+
+    if (!isDocumentId(docId)) {
+      return new Response('Invalid document id', { status: 400 });
+    }
+
+    const [document] = await db
+      .select({
+        filename: documents.filename,
+        storagePath: documents.storagePath,
+      })
+      .from(documents)
+      .where(eq(documents.docId, docId))
+      .limit(1);
+
+    if (!document) {
+      return new Response('Document not found', { status: 404 });
+    }
+
+    const bytes = await getObjectStorage().get(document.storagePath);
+
+    if (!bytes) {
+      return new Response('Original file is not available for this document', { status: 404 });
+    }
+
+    const filename = document.filename.replace(/[^\w.\- ]/g, '_');
+
+    return new Response(Buffer.from(bytes), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(bytes.byteLength),
+        'Content-Disposition': `inline; filename="${filename}.pdf"`,
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving document file:', error);
+    return new Response('Failed to load document file', { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { cookies } from 'next/headers';
+import { exportEvaluationSet } from '@/app/Felix/lib/ai/evaluation';
+
+export const runtime = 'nodejs';
+
+/**
+ * Check if user is authenticated for Felix route
+ */
+async function checkFelixAuth(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const authCookie = cookieStore.get('felix-auth');
+  return authCookie?.value === 'authenticated';
+}
+
+/**
+ * Download all answer feedback as a JSONL evaluation set
+ * Replay it with `npm run eval:retrieval -- --file <path>`
+ */
+export async function GET() {
+  try {
+    const isAuthenticated = await checkFelixAuth();
+
+    if (!isAuthenticated) {
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    const examples = await exportEvaluationSet();
+    const body = examples.map(example => JSON.stringify(example)).join('\n');
+    const date = new Date().toISOString().split('T')[0];
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="felix-eval-${date}.jsonl"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting evaluation set:', error);
+    return new Response('Failed to export evaluation set', { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+import { cookies } from 'next/headers';
+import { validatePdfSize, validatePdfType } from '@/app/Felix/lib/ai/pdf-processor';
+import { createIngestionJob, duplicateResult, runIngestionJob } from '@/app/Felix/lib/ai/ingestion';
+import { DUPLICATE_ACTIONS, type DuplicateAction, type IngestionProgressEvent } from '@/app/Felix/types/ingestion';
+
+export const runtime = 'nodejs';
+export const maxDuration = 300;
+
+/**
+ * Check if user is authenticated for Felix route
+ */
+async function checkFelixAuth(): Promise<boolean> {
+  const cookieStore = await cookies();
+  const authCookie = cookieStore.get('felix-auth');
+  return authCookie?.value === 'authenticated';
+}
+
+/**
+ * Start (form field `pdf`) or resume (form field `jobId`) an ingestion job
+ * and stream its progress events as newline-delimited JSON
+ * An upload matching an existing document emits `duplicate-found` and stops,
+ * unless form field `duplicateAction` says how to handle it
+ */
+export async function POST(req: Request) {
+  const isAuthenticated = await checkFelixAuth();
+
+  if (!isAuthenticated) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const formData = await req.formData();
+  const file = formData.get('pdf') as File | null;
+  let jobId = formData.get('jobId') as string | null;
+  const duplicateAction = (formData.get('duplicateAction') as DuplicateAction | null) ?? undefined;
+
+  if (!file && !jobId) {
+    return new Response('A PDF file or job ID is required', { status: 400 });
+  }
+
+  if (duplicateAction !== undefined && !DUPLICATE_ACTIONS.includes(duplicateAction)) {
+    return new Response(`Invalid duplicate action. Valid actions: ${DUPLICATE_ACTIONS.join(', ')}`, { status: 400 });
+  }
+
+  if (file) {
+    try {
+      validatePdfType(file);
+      validatePdfSize(file.size);
+    } catch (error) {
+      return new Response(error instanceof Error ? error.message : 'Invalid file', { status: 400 });
+    }
+  }
+
+  const encoder = new TextEncoder();
+
+  // Set once the client goes away; the job keeps running without it
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: IngestionProgressEvent) => {
+        if (closed) {
+          return;
+        }
+        try {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        if (file) {
+          const job = await createIngestionJob(file, duplicateAction);
+
+          if (job.status === 'duplicate') {
+            send({ type: 'duplicate-found', duplicate: job.duplicate });
+            send({ type: 'result', result: duplicateResult(job.duplicate, duplicateAction === 'skip') });
+            return;
+          }
+
+          jobId = job.jobId;
+        }
+        send({ type: 'job-created', jobId: jobId! });
+
+        const result = await runIngestionJob(jobId!, send);
+        send({ type: 'result', result });
+      } catch (error) {
+        console.error('Error in ingest API:', error);
+        send({
+          type: 'result',
+          result: {
+            success: false,
+            jobId: jobId ?? undefined,
+            error: error instanceof Error ? error.message : 'Failed to process document',
+          },
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState } from 'react';
+import { Button, Textarea } from '@heroui/react';
+import { submitChatFeedback } from '../actions/chat-feedback';
+import type { FeedbackRating, MessageFeedback } from '../types/feedback';
+
+interface ChatMessageFeedbackProps {
+  sessionId: string;
+  messageId: string;
+  initialFeedback?: MessageFeedback;
+}
+
+/**
+ * Thumbs up/down and an optional correction for an assistant answer
+ * Feedback is stored with the answer's query and sources for retrieval evaluation
+ */
+export default function ChatMessageFeedback({ sessionId, messageId, initialFeedback }: ChatMessageFeedbackProps) {
+  const [rating, setRating] = useState<FeedbackRating | null>(initialFeedback?.rating ?? null);
+  const [correction, setCorrection] = useState(initialFeedback?.correction ?? '');
+  const [showCorrection, setShowCorrection] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function saveFeedback(newRating: FeedbackRating | null, newCorrection: string) {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const result = await submitChatFeedback({
+        sessionId,
+        messageId,
+        rating: newRating,
+        correction: newCorrection || null,
+      });
+      if (result.success) {
+        setRating(newRating);
+        return true;
+      }
+      setError(result.error);
+      return false;
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to save feedback');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const handleRate = async (newRating: FeedbackRating) => {
+    // Clicking the active thumb again clears it
+    const saved = await saveFeedback(rating === newRating ? null : newRating, correction);
+    if (saved && newRating === 'down' && rating !== 'down') {
+      setShowCorrection(true);
+    }
+  };
+
+  const handleSubmitCorrection = async () => {
+    const saved = await saveFeedback(rating, correction.trim());
+    if (saved) {
+      setShowCorrection(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 space-y-1">
+      <div className="flex items-center gap-1">
+        <Button
+          size="sm"
+          variant={rating === 'up' ? 'flat' : 'light'}
+          color={rating === 'up' ? 'success' : 'default'}
+          isIconOnly
+          aria-label="Good answer"
+          isDisabled={isSaving}
+          onPress={() => handleRate('up')}
+        >
+          👍
+        </Button>
+        <Button
+          size="sm"
+          variant={rating === 'down' ? 'flat' : 'light'}
+          color={rating === 'down' ? 'danger' : 'default'}
+          isIconOnly
+          aria-label="Bad answer"
+          isDisabled={isSaving}
+          onPress={() => handleRate('down')}
+        >
+          👎
+        </Button>
+        <Button
+          size="sm"
+          variant="light"
+          isDisabled={isSaving}
+          onPress={() => setShowCorrection(!showCorrection)}
+        >
+          {correction ? 'Edit correction' : 'Correct'}
+        </Button>
+        {error && <span className="text-xs text-danger">{error}</span>}
+      </div>
+
+      {showCorrection && (
+        <div className="space-y-1">
+          <Textarea
+            size="sm"
+            minRows={2}
+            placeholder="What should the answer have said?"
+            value={correction}
+            onValueChange={setCorrection}
+          />
+          <div className="flex justify-end gap-1">
+            <Button size="sm" variant="light" onPress={() => setShowCorrection(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" color="primary" isLoading={isSaving} onPress={handleSubmitCorrection}>
+              Save
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import { Select, SelectItem, Tabs, Tab } from '@heroui/react';
+import type { RetrievalScope } from '../types/retrieval';
+
+type Company = {
+  companyId: string;
+  name: string;
+  sector: string | null;
+  ticker: string | null;
+};
+
+interface ChatScopeSelectorProps {
+  companies: Company[];
+  scope: RetrievalScope;
+  onChange: (scope: RetrievalScope) => void;
+}
+
+/**
+ * Pick which documents the chat answers from: one or more companies
+ * (to compare them) or every company in a sector
+ */
+export default function ChatScopeSelector({ companies, scope, onChange }: ChatScopeSelectorProps) {
+  const sectors = Array.from(
+    new Set(companies.map(company => company.sector).filter((sector): sector is string => Boolean(sector)))
+  ).sort();
+
+  const handleScopeTypeChange = (key: React.Key) => {
+    if (key === scope.type) return;
+    onChange(
+      key === 'sector'
+        ? { type: 'sector', sector: sectors[0] ?? '' }
+        : { type: 'companies', companyIds: companies.slice(0, 1).map(company => company.companyId) }
+    );
+  };
+
+  const handleCompaniesChange = (keys: 'all' | Set<React.Key>) => {
+    if (keys === 'all') return;
+    onChange({ type: 'companies', companyIds: Array.from(keys) as string[] });
+  };
+
+  const handleSectorChange = (keys: 'all' | Set<React.Key>) => {
+    if (keys === 'all') return;
+    const selectedKey = Array.from(keys)[0] as string | undefined;
+    if (selectedKey) {
+      onChange({ type: 'sector', sector: selectedKey });
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Tabs
+        size="sm"
+        aria-label="Chat scope"
+        selectedKey={scope.type}
+        onSelectionChange={handleScopeTypeChange}
+        disabledKeys={sectors.length === 0 ? ['sector'] : []}
+      >
+        <Tab key="companies" title="Companies" />
+        <Tab key="sector" title="Sector" />
+      </Tabs>
+
+      {scope.type === 'companies' ? (
+        <Select
+          label="Companies"
+          size="sm"
+          selectionMode="multiple"
+          selectedKeys={new Set(scope.companyIds)}
+          onSelectionChange={handleCompaniesChange}
+          placeholder="Select one or more companies"
+        >
+          {companies.map((company) => (
+            <SelectItem key={company.companyId} textValue={company.name}>
+              {company.name}{company.ticker ? ` (${company.ticker})` : ''}
+            </SelectItem>
+          ))}
+        </Select>
+      ) : (
+        <Select
+          label="Sector"
+          size="sm"
+          selectedKeys={new Set([scope.sector])}
+          onSelectionChange={handleSectorChange}
+          placeholder="Select a sector"
+        >
+          {sectors.map((sector) => (
+            <SelectItem key={sector} textValue={sector}>
+              {sector} ({companies.filter(company => company.sector === sector).length})
+            </SelectItem>
+          ))}
+        </Select>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button, Input, Spinner } from '@heroui/react';
+import {
+  fetchChatSessions,
+  fetchChatSession,
+  renameChatSession,
+  deleteChatSession,
+} from '../actions/chat-sessions';
+import type { FelixUIMessage } from '../types/chat';
+import type { MessageFeedback } from '../types/feedback';
+import type { RetrievalScope } from '../types/retrieval';
+
+type ChatSessionSummary = {
+  sessionId: string;
+  title: string;
+  scope: RetrievalScope;
+  updatedAt: Date;
+};
+
+export type ResumedChatSession = {
+  sessionId: string;
+  scope: RetrievalScope;
+  messages: FelixUIMessage[];
+  feedback: Record<string, MessageFeedback>; // By assistant message ID
+};
+
+interface ChatSessionListProps {
+  scope: RetrievalScope;
+  activeSessionId: string;
+  refreshKey?: number; // Bump to reload, e.g. after an answer was saved
+  onResume: (session: ResumedChatSession) => void;
+  onActiveDeleted: () => void;
+}
+
+/**
+ * Past conversations for the chat's current companies or sector
+ * Sessions can be resumed, renamed and deleted
+ */
+export default function ChatSessionList({
+  scope,
+  activeSessionId,
+  refreshKey,
+  onResume,
+  onActiveDeleted,
+}: ChatSessionListProps) {
+  const [sessions, setSessions] = useState<ChatSessionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busySessionId, setBusySessionId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ sessionId: string; title: string } | null>(null);
+
+  useEffect(() => {
+    loadSessions();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [scope, refreshKey]);
+
+  async function loadSessions() {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await fetchChatSessions(scope);
+      if (result.success) {
+        setSessions(result.sessions);
+      } else {
+        setError(result.error);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load chats');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const handleResume = async (sessionId: string) => {
+    setBusySessionId(sessionId);
+    try {
+      const result = await fetchChatSession(sessionId);
+      if (result.success) {
+        onResume({
+          sessionId: result.session.sessionId,
+          scope: result.session.scope,
+          messages: result.session.messages,
+          feedback: result.feedback,
+        });
+      } else {
+        setError(result.error);
+      }
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+
+    const { sessionId, title } = editing;
+    setEditing(null);
+    if (!title.trim()) return;
+
+    setBusySessionId(sessionId);
+    try {
+      const result = await renameChatSession(sessionId, title);
+      if (!result.success) {
+        setError(result.error);
+      }
+    } finally {
+      setBusySessionId(null);
+      loadSessions();
+    }
+  };
+
+  const handleDelete = async (sessionId: string) => {
+    setBusySessionId(sessionId);
+    try {
+      const result = await deleteChatSession(sessionId);
+      if (result.success) {
+        setSessions(current => current.filter(session => session.sessionId !== sessionId));
+        if (sessionId === activeSessionId) {
+          onActiveDeleted();
+        }
+      } else {
+        setError(result.error);
+      }
+    } finally {
+      setBusySessionId(null);
+    }
+  };
+
+  if (isLoading && sessions.length === 0) {
+    return (
+      <div className="flex justify-center py-8">
+        <Spinner size="sm" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-1">
+      {error && <p className="text-xs text-danger">{error}</p>}
+
+      {sessions.length === 0 ? (
+        <p className="text-xs text-default-400 text-center py-8">No past chats for this selection</p>
+      ) : (
+        sessions.map((session) => (
+          <div
+            key={session.sessionId}
+            className={`flex items-center gap-1 rounded-lg px-2 py-1 ${
+              session.sessionId === activeSessionId ? 'bg-primary-50' : 'hover:bg-default-100'
+            }`}
+          >
+            {editing?.sessionId === session.sessionId ? (
+              <Input
+                size="sm"
+                autoFocus
+                value={editing.title}
+                onChange={(e) => setEditing({ sessionId: session.sessionId, title: e.target.value })}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                onBlur={handleRename}
+                className="flex-1"
+              />
+            ) : (
+              <button
+                type="button"
+                className="flex-1 min-w-0 text-left"
+                disabled={busySessionId !== null}
+                onClick={() => handleResume(session.sessionId)}
+              >
+                <p className="text-sm truncate">{session.title}</p>
+                <p className="text-xs text-default-400">{new Date(session.updatedAt).toLocaleString()}</p>
+              </button>
+            )}
+
+            {busySessionId === session.sessionId ? (
+              <Spinner size="sm" />
+            ) : (
+              <>
+                <Button
+                  size="sm"
+                  variant="light"
+                  isIconOnly
+                  aria-label="Rename chat"
+                  isDisabled={busySessionId !== null}
+                  onPress={() => setEditing({ sessionId: session.sessionId, title: session.title })}
+                >
+                  ✏️
+                </Button>
+                <Button
+                  size="sm"
+                  variant="light"
+                  color="danger"
+                  isIconOnly
+                  aria-label="Delete chat"
+                  isDisabled={busySessionId !== null}
+                  onPress={() => handleDelete(session.sessionId)}
+                >
+                  🗑️
+                </Button>
+              </>
+            )}
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
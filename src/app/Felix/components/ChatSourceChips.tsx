@@ -0,0 +1,82 @@
+'use client';
+
+import { useState } from 'react';
+import { Chip, Tooltip } from '@heroui/react';
+import ChatSourcePanel from './ChatSourcePanel';
+import type { ChatMessageMetadata, ChatSource, FelixUIMessage } from '../types/chat';
+import { formatRetrievalScores } from '../lib/utils/retrieval-scores';
+
+interface ChatSourceChipsProps {
+  parts: FelixUIMessage['parts'];
+  metadata?: ChatMessageMetadata;
+}
+
+function formatPages(source: ChatSource): string {
+  if (!source.pageStart) return '';
+  return source.pageEnd && source.pageEnd !== source.pageStart
+    ? `p. ${source.pageStart}-${source.pageEnd}`
+    : `p. ${source.pageStart}`;
+}
+
+/**
+ * Numbered source chips under an assistant message, matching its [N] citations
+ * Clicking a chip opens the cited section's text and extracted facts
+ * A follow-up's rewritten retrieval query is shown above them
+ */
+export default function ChatSourceChips({ parts, metadata }: ChatSourceChipsProps) {
+  const [selectedSource, setSelectedSource] = useState<ChatSource | null>(null);
+
+  const sources = parts
+    .flatMap(part => (part.type === 'data-source' ? [part.data] : []))
+    .sort((a, b) => a.sourceNumber - b.sourceNumber);
+
+  const retrievalQuery = metadata?.retrievalQuery?.rewritten ? metadata.retrievalQuery.query : null;
+
+  if (sources.length === 0 && !retrievalQuery) return null;
+
+  // Only worth labelling when the answer compares several companies
+  const showCompany = new Set(sources.map(source => source.companyName)).size > 1;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-default-200">
+      {retrievalQuery && (
+        <p className="text-xs text-default-400 italic mb-1">Searched for: {retrievalQuery}</p>
+      )}
+      {sources.length > 0 && (
+        <p className="text-xs font-semibold text-default-500 mb-1">Sources</p>
+      )}
+      <div className="flex flex-wrap gap-1">
+        {sources.map((source) => (
+          <Tooltip
+            key={source.chunkId}
+            content={
+              <div className="text-xs max-w-xs">
+                <p className="font-semibold">
+                  {source.documentTitle || 'Untitled'}
+                  {source.sectionTitle ? ` - ${source.sectionTitle}` : ''}
+                </p>
+                {source.scores && (
+                  <p className="text-default-500">Retrieved by: {formatRetrievalScores(source.scores)}</p>
+                )}
+              </div>
+            }
+          >
+            <Chip
+              size="sm"
+              variant="flat"
+              color="primary"
+              className="cursor-pointer max-w-full"
+              onClick={() => setSelectedSource(source)}
+            >
+              [{source.sourceNumber}] {showCompany && source.companyName ? `${source.companyName}: ` : ''}
+              {source.sectionTitle || source.documentTitle || 'Untitled'}
+              {source.pageStart ? ` (${formatPages(source)})` : ''}
+            </Chip>
+          </Tooltip>
+        ))}
+      </div>
+
+      <ChatSourcePanel source={selectedSource} onClose={() => setSelectedSource(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, Chip, Spinner } from '@heroui/react';
+import { fetchChunkDetails } from '../actions/fetch-chunk-details';
+import type { ChatSource, ChatSourceDetails } from '../types/chat';
+import { getDocumentFileUrl } from '../lib/utils/document-links';
+import { formatRetrievalScores } from '../lib/utils/retrieval-scores';
+
+interface ChatSourcePanelProps {
+  source: ChatSource | null;
+  onClose: () => void;
+}
+
+/**
+ * Panel showing a cited section's text and the facts extracted from it
+ */
+export default function ChatSourcePanel({ source, onClose }: ChatSourcePanelProps) {
+  const [details, setDetails] = useState<ChatSourceDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the section whenever a different source is opened
+  useEffect(() => {
+    if (source) {
+      loadDetails(source.chunkId);
+    }
+  }, [source]);
+
+  async function loadDetails(chunkId: string) {
+    setIsLoading(true);
+    setError(null);
+    setDetails(null);
+    try {
+      const result = await fetchChunkDetails(chunkId);
+      if (result.success) {
+        setDetails(result.details);
+      } else {
+        setError(result.error);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load source');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const timeBasedInfo = details?.timeBasedInfo ?? [];
+  const qualitativeInfo = details?.qualitativeInfo ?? [];
+  const quantitativeData = details?.quantitativeData ?? [];
+  const hasFacts = timeBasedInfo.length + qualitativeInfo.length + quantitativeData.length > 0;
+
+  return (
+    <Modal
+      isOpen={source !== null}
+      onClose={onClose}
+      size="3xl"
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        {() => source && (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              <h2 className="text-xl font-semibold">
+                [{source.sourceNumber}] {source.sectionTitle || source.documentTitle || 'Untitled'}
+              </h2>
+              <p className="text-sm text-default-500 font-normal">
+                {source.companyName ? `${source.companyName} · ` : ''}
+                {source.documentTitle || 'Untitled'}
+                {source.pageStart ? ` · p. ${source.pageStart}${source.pageEnd && source.pageEnd !== source.pageStart ? `-${source.pageEnd}` : ''}` : ''}
+                {source.scores ? ` · ${formatRetrievalScores(source.scores)}` : ''}
+              </p>
+            </ModalHeader>
+            <ModalBody>
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Spinner size="lg" />
+                </div>
+              ) : error ? (
+                <p className="text-sm text-danger">{error}</p>
+              ) : details ? (
+                <div className="space-y-4">
+                  {details.summary && (
+                    <p className="text-sm italic text-default-600">{details.summary}</p>
+                  )}
+
+                  {hasFacts && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-semibold text-default-500">Extracted facts</p>
+                      <ul className="space-y-1 text-sm">
+                        {timeBasedInfo.map((info, index) => (
+                          <li key={`tb-${index}`} className="flex gap-2">
+                            <Chip size="sm" variant="flat" color="primary">TB</Chip>
+                            <span>{info.description} <span className="text-default-400">({info.expectedDate || 'TBD'})</span></span>
+                          </li>
+                        ))}
+                        {qualitativeInfo.map((info, index) => (
+                          <li key={`paql-${index}`} className="flex gap-2">
+                            <Chip size="sm" variant="flat" color="secondary">PAQL</Chip>
+                            <span><span className="font-medium">{info.topic}:</span> {info.context}</span>
+                          </li>
+                        ))}
+                        {quantitativeData.map((data, index) => (
+                          <li key={`paqn-${index}`} className="flex gap-2">
+                            <Chip size="sm" variant="flat" color="success">PAQN</Chip>
+                            <span>
+                              <span className="font-medium">{data.metricName}:</span> {data.value} {data.unit}
+                              {data.period ? <span className="text-default-400"> ({data.period})</span> : null}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div className="space-y-1">
+                    <p className="text-xs font-semibold text-default-500">Section text</p>
+                    <p className="text-sm whitespace-pre-wrap">{details.chunkText}</p>
+                  </div>
+                </div>
+              ) : null}
+            </ModalBody>
+            <ModalFooter>
+              <Button
+                as="a"
+                href={getDocumentFileUrl(source.docId, source.pageStart)}
+                target="_blank"
+                rel="noopener noreferrer"
+                variant="light"
+                color="primary"
+              >
+                Open PDF
+              </Button>
+              <Button variant="flat" onPress={onClose}>
+                Close
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { Chip, Tooltip } from '@heroui/react';
+import { getToolOrDynamicToolName, isToolOrDynamicToolUIPart } from 'ai';
+import type { FelixUIMessage } from '../types/chat';
+
+interface ChatToolCallsProps {
+  parts: FelixUIMessage['parts'];
+}
+
+const TOOL_LABELS: Record<string, string> = {
+  searchDocuments: 'Searched documents',
+  getTimeline: 'Read timeline',
+  listCompanies: 'Listed companies',
+  getDocumentSections: 'Read document sections',
+  queryMetrics: 'Queried metrics',
+};
+
+/**
+ * Chips listing the tools the assistant called for a message, in call order
+ * Hovering a chip shows the arguments it was called with
+ */
+export default function ChatToolCalls({ parts }: ChatToolCallsProps) {
+  const toolParts = parts.filter(isToolOrDynamicToolUIPart);
+  if (toolParts.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-1 mb-2">
+      {toolParts.map((part) => {
+        const toolName = getToolOrDynamicToolName(part);
+        const isRunning = part.state === 'input-streaming' || part.state === 'input-available';
+        const isError = part.state === 'output-error';
+
+        return (
+          <Tooltip
+            key={part.toolCallId}
+            content={
+              <pre className="text-xs max-w-xs whitespace-pre-wrap">
+                {isError ? part.errorText : JSON.stringify(part.input ?? {}, null, 2)}
+              </pre>
+            }
+          >
+            <Chip
+              size="sm"
+              variant="flat"
+              color={isError ? 'danger' : isRunning ? 'warning' : 'default'}
+            >
+              {isRunning ? '⏳' : isError ? '⚠️' : '🔧'} {TOOL_LABELS[toolName] ?? toolName}
+            </Chip>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
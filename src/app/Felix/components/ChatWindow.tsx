@@ -2,10 +2,17 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Card, CardHeader, CardBody, Button, Input, Select, SelectItem, Spinner } from '@heroui/react';
+import { Card, CardHeader, CardBody, Button, Input, Spinner } from '@heroui/react';
 import { fetchAvailableCompanies } from '../actions/fetch-companies';
 import { useChat } from '@ai-sdk/react';
 import { DefaultChatTransport } from 'ai';
+import ChatScopeSelector from './ChatScopeSelector';
+import ChatSessionList, { type ResumedChatSession } from './ChatSessionList';
+import ChatSourceChips from './ChatSourceChips';
+import ChatMessageFeedback from './ChatMessageFeedback';
+import ChatToolCalls from './ChatToolCalls';
+import type { FelixUIMessage } from '../types/chat';
+import { isEmptyScope, type RetrievalScope } from '../types/retrieval';
 
 type Company = {
   companyId: string;
@@ -17,16 +24,28 @@ type Company = {
 export default function ChatWindow() {
   const [isOpen, setIsOpen] = useState(false);
   const [companies, setCompanies] = useState<Company[]>([]);
-  const [selectedCompanyId, setSelectedCompanyId] = useState<string>('');
+  const [scope, setScope] = useState<RetrievalScope>({ type: 'companies', companyIds: [] });
   const [isLoadingCompanies, setIsLoadingCompanies] = useState(false);
   const [input, setInput] = useState('');
+  // The session ID doubles as the useChat id, so changing it starts or resumes a conversation
+  const [session, setSession] = useState<Omit<ResumedChatSession, 'scope'>>(() => ({
+    sessionId: crypto.randomUUID(),
+    messages: [],
+    feedback: {},
+  }));
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Simple useChat setup following Vercel's pattern
-  const { messages, sendMessage, status, setMessages } = useChat({
+  const { messages, sendMessage, status } = useChat<FelixUIMessage>({
+    id: session.sessionId,
+    messages: session.messages,
     transport: new DefaultChatTransport({
       api: '/Felix/api/chat',
     }),
+    // The route saves the conversation once the answer finishes
+    onFinish: () => setHistoryVersion(version => version + 1),
   });
 
   const isDisabled = status !== 'ready';
@@ -46,7 +65,7 @@ export default function ChatWindow() {
       if (result.success) {
         setCompanies(result.companies);
         if (result.companies.length > 0) {
-          setSelectedCompanyId(result.companies[0].companyId);
+          setScope({ type: 'companies', companyIds: [result.companies[0].companyId] });
         }
       } else {
         console.error('Failed to load companies:', result.error);
@@ -63,11 +82,19 @@ export default function ChatWindow() {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const handleCompanyChange = (keys: 'all' | Set<React.Key>) => {
-    if (keys === 'all') return;
-    const selectedKey = Array.from(keys)[0] as string;
-    setSelectedCompanyId(selectedKey);
-    setMessages([]);
+  const startNewChat = () => {
+    setSession({ sessionId: crypto.randomUUID(), messages: [], feedback: {} });
+  };
+
+  const handleScopeChange = (newScope: RetrievalScope) => {
+    setScope(newScope);
+    startNewChat();
+  };
+
+  const handleResume = (resumed: ResumedChatSession) => {
+    setScope(resumed.scope);
+    setSession({ sessionId: resumed.sessionId, messages: resumed.messages, feedback: resumed.feedback });
+    setShowHistory(false);
   };
 
   return (
@@ -128,29 +155,28 @@ export default function ChatWindow() {
             <Card className="h-full flex flex-col shadow-2xl">
               <CardHeader className="flex-shrink-0 border-b border-default-200">
                 <div className="w-full space-y-3">
-                  <div>
-                    <h3 className="text-lg font-semibold">Document Chat</h3>
-                    <p className="text-xs text-default-500">Ask questions about company documents</p>
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <h3 className="text-lg font-semibold">Document Chat</h3>
+                      <p className="text-xs text-default-500">Ask questions about company documents</p>
+                    </div>
+                    <div className="flex gap-1 flex-shrink-0">
+                      <Button size="sm" variant="light" onPress={() => { startNewChat(); setShowHistory(false); }} isDisabled={isDisabled}>
+                        New
+                      </Button>
+                      <Button size="sm" variant={showHistory ? 'flat' : 'light'} onPress={() => setShowHistory(!showHistory)}>
+                        History
+                      </Button>
+                    </div>
                   </div>
 
-                  {/* Company Selector */}
+                  {/* Scope Selector */}
                   {isLoadingCompanies ? (
                     <div className="flex justify-center py-2">
                       <Spinner size="sm" />
                     </div>
                   ) : companies.length > 0 ? (
-                    <Select
-                      label="Company"
-                      size="sm"
-                      selectedKeys={new Set([selectedCompanyId])}
-                      onSelectionChange={handleCompanyChange}
-                    >
-                      {companies.map((company) => (
-                        <SelectItem key={company.companyId} textValue={company.name}>
-                          {company.name}{company.ticker ? ` (${company.ticker})` : ''}
-                        </SelectItem>
-                      ))}
-                    </Select>
+                    <ChatScopeSelector companies={companies} scope={scope} onChange={handleScopeChange} />
                   ) : (
                     <p className="text-xs text-warning">
                       No companies available. Upload documents first.
@@ -160,7 +186,15 @@ export default function ChatWindow() {
               </CardHeader>
 
               <CardBody className="flex-1 overflow-y-auto p-4">
-                {messages.length === 0 ? (
+                {showHistory ? (
+                  <ChatSessionList
+                    scope={scope}
+                    activeSessionId={session.sessionId}
+                    refreshKey={historyVersion}
+                    onResume={handleResume}
+                    onActiveDeleted={startNewChat}
+                  />
+                ) : messages.length === 0 ? (
                   <div className="h-full flex items-center justify-center">
                     <div className="text-center text-default-400 space-y-1 px-4">
                       <p className="text-sm font-medium">No messages yet</p>
@@ -186,6 +220,7 @@ export default function ChatWindow() {
                               : 'bg-default-100 text-foreground'
                           }`}
                         >
+                          {message.role === 'assistant' && <ChatToolCalls parts={message.parts} />}
                           {message.parts.map((part, index) =>
                             part.type === 'text' ? (
                               <p key={index} className="whitespace-pre-wrap break-words">
@@ -193,6 +228,14 @@ export default function ChatWindow() {
                               </p>
                             ) : null
                           )}
+                          {message.role === 'assistant' && <ChatSourceChips parts={message.parts} metadata={message.metadata} />}
+                          {message.role === 'assistant' && (status === 'ready' || message.id !== messages[messages.length - 1]?.id) && (
+                            <ChatMessageFeedback
+                              sessionId={session.sessionId}
+                              messageId={message.id}
+                              initialFeedback={session.feedback[message.id]}
+                            />
+                          )}
                         </div>
                       </motion.div>
                     ))}
@@ -206,12 +249,12 @@ export default function ChatWindow() {
                 <form
                   onSubmit={(e) => {
                     e.preventDefault();
-                    if (input.trim() && selectedCompanyId) {
+                    if (input.trim() && !isEmptyScope(scope)) {
                       sendMessage(
                         { text: input },
                         {
                           body: {
-                            companyId: selectedCompanyId,
+                            scope,
                           },
                         }
                       );
@@ -224,7 +267,7 @@ export default function ChatWindow() {
                     placeholder="Type a message..."
                     value={input}
                     onChange={(e) => setInput(e.target.value)}
-                    disabled={isDisabled || !selectedCompanyId || companies.length === 0}
+                    disabled={isDisabled || isEmptyScope(scope) || companies.length === 0}
                     size="sm"
                     className="flex-1"
                   />
@@ -232,7 +275,7 @@ export default function ChatWindow() {
                     color="primary"
                     size="sm"
                     type="submit"
-                    disabled={isDisabled || !input.trim() || !selectedCompanyId}
+                    disabled={isDisabled || !input.trim() || isEmptyScope(scope)}
                     isLoading={isDisabled}
                     isIconOnly
                   >
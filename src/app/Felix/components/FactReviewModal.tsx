@@ -0,0 +1,446 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, Chip, Spinner, Accordion, AccordionItem, Select, SelectItem, Input, Textarea } from '@heroui/react';
+import {
+  fetchDocumentFactReview,
+  fetchFactReviewDocuments,
+  submitFactEdit,
+} from '../actions/fact-review';
+import type { FactReviewStatus, StoredFact } from '../lib/ai/schemas';
+import type {
+  DocumentFactReview,
+  FactEditAction,
+  FactInput,
+  FactLayer,
+  FactReviewDocument,
+  FactReviewSection,
+} from '../types/fact-review';
+
+interface FactReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+type AnyFact = StoredFact<Record<string, unknown>>;
+
+/**
+ * Fact being edited, or added when factIndex is null
+ */
+interface EditTarget {
+  chunkId: string;
+  layer: FactLayer;
+  factIndex: number | null;
+}
+
+const LAYER_COLORS: Record<FactLayer, 'primary' | 'secondary' | 'success'> = {
+  TB: 'primary',
+  PAQL: 'secondary',
+  PAQN: 'success',
+};
+
+const STATUS_COLORS: Record<FactReviewStatus, 'success' | 'primary' | 'secondary' | 'danger'> = {
+  approved: 'success',
+  edited: 'primary',
+  added: 'secondary',
+  rejected: 'danger',
+};
+
+const ACTION_LABELS: Record<FactEditAction, string> = {
+  approve: 'Approved',
+  edit: 'Edited',
+  reject: 'Rejected',
+  restore: 'Restored',
+  add: 'Added',
+};
+
+/**
+ * Form fields per layer, matching the extraction schemas
+ */
+const FACT_FIELDS: Record<FactLayer, Array<{ key: string; label: string; multiline?: boolean; optional?: boolean; placeholder?: string }>> = {
+  TB: [
+    { key: 'eventType', label: 'Event type', placeholder: 'product_launch' },
+    { key: 'expectedDate', label: 'Expected date', optional: true, placeholder: '2025-06-30' },
+    { key: 'description', label: 'Description', multiline: true },
+    { key: 'text', label: 'Source text', multiline: true },
+  ],
+  PAQL: [
+    { key: 'topic', label: 'Topic', placeholder: 'expansion' },
+    { key: 'sentiment', label: 'Sentiment', optional: true, placeholder: 'positive, neutral or negative' },
+    { key: 'context', label: 'Context', multiline: true },
+    { key: 'text', label: 'Source text', multiline: true },
+  ],
+  PAQN: [
+    { key: 'metricName', label: 'Metric', placeholder: 'revenue' },
+    { key: 'value', label: 'Value', placeholder: '12500000' },
+    { key: 'unit', label: 'Unit', placeholder: 'EUR' },
+    { key: 'period', label: 'Period', optional: true, placeholder: 'Q4 2024' },
+    { key: 'context', label: 'Context', multiline: true, optional: true },
+    { key: 'text', label: 'Source text', multiline: true },
+  ],
+};
+
+const SECTION_FACTS: Record<FactLayer, 'timeBasedInfo' | 'qualitativeInfo' | 'quantitativeData'> = {
+  TB: 'timeBasedInfo',
+  PAQL: 'qualitativeInfo',
+  PAQN: 'quantitativeData',
+};
+
+function describeFact(layer: FactLayer, fact: AnyFact) {
+  switch (layer) {
+    case 'TB':
+      return <><span className="font-medium">{String(fact.eventType)}:</span> {String(fact.description)} <span className="text-default-400">({String(fact.expectedDate || 'TBD')})</span></>;
+    case 'PAQL':
+      return <><span className="font-medium">{String(fact.topic)}:</span> {String(fact.context)}{fact.sentiment ? <span className="text-default-400"> ({String(fact.sentiment)})</span> : null}</>;
+    case 'PAQN':
+      return <><span className="font-medium">{String(fact.metricName)}:</span> {String(fact.value)} {String(fact.unit)}{fact.period ? <span className="text-default-400"> ({String(fact.period)})</span> : null}</>;
+  }
+}
+
+function toDraft(layer: FactLayer, fact?: AnyFact): Record<string, string> {
+  return Object.fromEntries(
+    FACT_FIELDS[layer].map(({ key }) => [key, fact?.[key] === null || fact?.[key] === undefined ? '' : String(fact[key])])
+  );
+}
+
+function fromDraft(layer: FactLayer, draft: Record<string, string>): FactInput {
+  const values = Object.fromEntries(
+    FACT_FIELDS[layer].map(({ key, optional }) => {
+      const value = draft[key]?.trim() ?? '';
+      return [key, optional && !value ? null : value];
+    })
+  );
+
+  return (layer === 'PAQN' ? { ...values, value: Number(values.value) } : values) as FactInput;
+}
+
+export default function FactReviewModal({ isOpen, onClose }: FactReviewModalProps) {
+  const [documents, setDocuments] = useState<FactReviewDocument[]>([]);
+  const [selectedDocId, setSelectedDocId] = useState<string>('');
+  const [review, setReview] = useState<DocumentFactReview | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
+  const [draft, setDraft] = useState<Record<string, string>>({});
+  const [note, setNote] = useState('');
+
+  // Load the documents whenever the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      loadDocuments();
+    }
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (selectedDocId) {
+      loadReview(selectedDocId);
+    } else {
+      setReview(null);
+    }
+  }, [selectedDocId]);
+
+  async function loadDocuments() {
+    const result = await fetchFactReviewDocuments();
+    if (result.success) {
+      setDocuments(result.documents);
+    } else {
+      setError(result.error);
+    }
+  }
+
+  async function loadReview(docId: string) {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await fetchDocumentFactReview(docId);
+      if (result.success) {
+        setReview(result.review);
+      } else {
+        setError(result.error);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load document facts');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const handleDocumentChange = (keys: 'all' | Set<React.Key>) => {
+    if (keys === 'all') return;
+    setSelectedDocId((Array.from(keys)[0] as string) ?? '');
+    setEditTarget(null);
+  };
+
+  const startEdit = (target: EditTarget, fact?: AnyFact) => {
+    setEditTarget(target);
+    setDraft(toDraft(target.layer, fact));
+    setNote('');
+    setError(null);
+  };
+
+  const submit = async (key: string, run: () => ReturnType<typeof submitFactEdit>) => {
+    setBusyKey(key);
+    setError(null);
+    try {
+      const result = await run();
+      if (result.success) {
+        setEditTarget(null);
+        await Promise.all([loadReview(selectedDocId), loadDocuments()]);
+      } else {
+        setError(result.error);
+      }
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  const handleStatusChange = (section: FactReviewSection, layer: FactLayer, factIndex: number, action: 'approve' | 'reject' | 'restore') => {
+    submit(`${section.chunkId}-${layer}-${factIndex}`, () =>
+      submitFactEdit({ action, chunkId: section.chunkId, layer, factIndex })
+    );
+  };
+
+  const handleSaveEdit = () => {
+    if (!editTarget) return;
+
+    const { chunkId, layer, factIndex } = editTarget;
+    const fact = fromDraft(layer, draft);
+    submit('edit', () =>
+      factIndex === null
+        ? submitFactEdit({ action: 'add', chunkId, layer, fact, note })
+        : submitFactEdit({ action: 'edit', chunkId, layer, factIndex, fact, note })
+    );
+  };
+
+  const renderEditForm = () => editTarget && (
+    <div className="space-y-2 p-3 rounded-lg border border-default-200 bg-default-50">
+      <div className="grid grid-cols-2 gap-2">
+        {FACT_FIELDS[editTarget.layer].map(field => field.multiline ? (
+          <Textarea
+            key={field.key}
+            label={field.label}
+            size="sm"
+            minRows={2}
+            className="col-span-2"
+            value={draft[field.key] ?? ''}
+            placeholder={field.placeholder}
+            onValueChange={value => setDraft(prev => ({ ...prev, [field.key]: value }))}
+          />
+        ) : (
+          <Input
+            key={field.key}
+            label={field.label}
+            size="sm"
+            value={draft[field.key] ?? ''}
+            placeholder={field.placeholder}
+            onValueChange={value => setDraft(prev => ({ ...prev, [field.key]: value }))}
+          />
+        ))}
+      </div>
+      <Input
+        label="Note (optional)"
+        size="sm"
+        value={note}
+        placeholder="Why the fact was changed"
+        onValueChange={setNote}
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="light" onPress={() => setEditTarget(null)} isDisabled={busyKey !== null}>
+          Cancel
+        </Button>
+        <Button size="sm" color="primary" onPress={handleSaveEdit} isLoading={busyKey === 'edit'} isDisabled={busyKey !== null && busyKey !== 'edit'}>
+          {editTarget.factIndex === null ? 'Add fact' : 'Save'}
+        </Button>
+      </div>
+    </div>
+  );
+
+  const renderFact = (section: FactReviewSection, layer: FactLayer, fact: AnyFact, factIndex: number) => {
+    const key = `${section.chunkId}-${layer}-${factIndex}`;
+    const status = fact.review?.status;
+    const isEditing = editTarget?.chunkId === section.chunkId && editTarget.layer === layer && editTarget.factIndex === factIndex;
+
+    if (isEditing) {
+      return <li key={key}>{renderEditForm()}</li>;
+    }
+
+    return (
+      <li key={key} className="flex items-start justify-between gap-2 text-sm">
+        <div className={`min-w-0 flex gap-2 ${status === 'rejected' ? 'line-through opacity-50' : ''}`}>
+          <Chip size="sm" variant="flat" color={LAYER_COLORS[layer]}>{layer}</Chip>
+          <div className="min-w-0">
+            <p>{describeFact(layer, fact)}</p>
+            {typeof fact.text === 'string' && fact.text && (
+              <p className="text-xs italic text-default-500">&ldquo;{fact.text}&rdquo;</p>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          {fact.grounding && !fact.grounding.grounded && (
+            <Chip size="sm" variant="flat" color="warning">unverified</Chip>
+          )}
+          {fact.grounding?.grounded && fact.grounding.page && (
+            <span className="text-xs text-default-400">p. {fact.grounding.page}</span>
+          )}
+          {status && (
+            <Chip size="sm" variant="dot" color={STATUS_COLORS[status]}>{status}</Chip>
+          )}
+          {status === 'rejected' ? (
+            <Button size="sm" variant="light" isLoading={busyKey === key} isDisabled={busyKey !== null} onPress={() => handleStatusChange(section, layer, factIndex, 'restore')}>
+              Restore
+            </Button>
+          ) : (
+            <>
+              {!status && (
+                <Button size="sm" variant="flat" color="success" isLoading={busyKey === key} isDisabled={busyKey !== null} onPress={() => handleStatusChange(section, layer, factIndex, 'approve')}>
+                  Approve
+                </Button>
+              )}
+              <Button size="sm" variant="light" isDisabled={busyKey !== null} onPress={() => startEdit({ chunkId: section.chunkId, layer, factIndex }, fact)}>
+                Edit
+              </Button>
+              <Button size="sm" variant="light" color="danger" isDisabled={busyKey !== null} onPress={() => handleStatusChange(section, layer, factIndex, 'reject')}>
+                Reject
+              </Button>
+            </>
+          )}
+        </div>
+      </li>
+    );
+  };
+
+  const renderSection = (section: FactReviewSection) => {
+    const layers: FactLayer[] = ['TB', 'PAQL', 'PAQN'];
+    const isAdding = editTarget?.chunkId === section.chunkId && editTarget.factIndex === null;
+
+    return (
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <p className="text-xs font-semibold text-default-500">Section text</p>
+          <p className="text-xs whitespace-pre-wrap max-h-96 overflow-y-auto bg-default-50 p-2 rounded">{section.chunkText}</p>
+        </div>
+        <div className="space-y-3">
+          <p className="text-xs font-semibold text-default-500">Extracted facts</p>
+          <ul className="space-y-2">
+            {layers.flatMap(layer =>
+              (section[SECTION_FACTS[layer]] as AnyFact[]).map((fact, factIndex) => renderFact(section, layer, fact, factIndex))
+            )}
+          </ul>
+          {isAdding ? renderEditForm() : (
+            <div className="flex gap-2">
+              {layers.map(layer => (
+                <Button key={layer} size="sm" variant="flat" isDisabled={busyKey !== null} onPress={() => startEdit({ chunkId: section.chunkId, layer, factIndex: null })}>
+                  Add {layer}
+                </Button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      size="5xl"
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        {() => (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              <h2 className="text-2xl font-semibold">Review Extracted Facts</h2>
+              <p className="text-sm text-default-500 font-normal">
+                Check each fact against its section text. Rejected facts are hidden from the timeline and chat; approved and edited facts are marked as reviewed
+              </p>
+            </ModalHeader>
+            <ModalBody>
+              <Select
+                label="Document"
+                size="sm"
+                selectedKeys={selectedDocId ? new Set([selectedDocId]) : new Set<string>()}
+                onSelectionChange={handleDocumentChange}
+                placeholder="Select a document to review"
+                isDisabled={documents.length === 0}
+              >
+                {documents.map(document => (
+                  <SelectItem key={document.docId} textValue={document.documentTitle || 'Untitled'}>
+                    {document.companyName} · {document.documentTitle || 'Untitled'}
+                    <span className="text-default-400"> ({document.reviewedCount}/{document.factCount} reviewed)</span>
+                  </SelectItem>
+                ))}
+              </Select>
+
+              {error && (
+                <p className="text-sm text-danger">{error}</p>
+              )}
+
+              {isLoading && !review ? (
+                <div className="flex justify-center py-8">
+                  <Spinner size="lg" />
+                </div>
+              ) : review ? (
+                <Accordion variant="splitted" selectionMode="multiple">
+                  {[
+                    ...review.sections.map(section => {
+                      const factCount = section.timeBasedInfo.length + section.qualitativeInfo.length + section.quantitativeData.length;
+                      const reviewedCount = [...section.timeBasedInfo, ...section.qualitativeInfo, ...section.quantitativeData]
+                        .filter(fact => fact.review).length;
+
+                      return (
+                        <AccordionItem
+                          key={section.chunkId}
+                          title={<span className="font-medium">{section.chunkIndex}. {section.sectionTitle || 'Untitled section'}</span>}
+                          subtitle={
+                            <span className="text-xs text-default-500">
+                              {section.pageStart ? `p. ${section.pageStart}-${section.pageEnd} · ` : ''}
+                              {reviewedCount}/{factCount} facts reviewed
+                            </span>
+                          }
+                        >
+                          {renderSection(section)}
+                        </AccordionItem>
+                      );
+                    }),
+                    <AccordionItem
+                      key="history"
+                      title={<span className="font-medium">Edit history</span>}
+                      subtitle={<span className="text-xs text-default-500">{review.edits.length} change(s)</span>}
+                    >
+                      {review.edits.length === 0 ? (
+                        <p className="text-sm text-default-500">No changes yet</p>
+                      ) : (
+                        <ul className="space-y-1 text-sm">
+                          {review.edits.map(edit => (
+                            <li key={edit.editId}>
+                              <span className="font-medium">{ACTION_LABELS[edit.action]}</span> {edit.layer} fact {edit.factIndex + 1}
+                              {edit.sectionTitle ? ` in ${edit.sectionTitle}` : ''}
+                              <span className="text-default-400"> · {edit.editedBy.slice(0, 8)} · {new Date(edit.createdAt).toLocaleString()}</span>
+                              {edit.note && <span className="text-default-500 italic"> · {edit.note}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </AccordionItem>,
+                  ]}
+                </Accordion>
+              ) : (
+                <p className="text-sm text-default-500 text-center py-8">
+                  {documents.length === 0 ? 'No documents yet' : 'Select a document to review its facts'}
+                </p>
+              )}
+            </ModalBody>
+            <ModalFooter>
+              <Button color="primary" onPress={onClose}>
+                Close
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, Chip, Spinner, Accordion, AccordionItem } from '@heroui/react';
+import {
+  fetchIngestionJobs,
+  resumeIngestionJob,
+  retryIngestionJobSection,
+} from '../actions/ingestion-jobs';
+import type { IngestionJobStatus, IngestionJobSummary, IngestionResult } from '../types/ingestion';
+
+interface IngestionJobsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onJobCompleted?: (result: IngestionResult) => void;
+}
+
+const STATUS_COLORS: Record<IngestionJobStatus, 'default' | 'primary' | 'danger' | 'success'> = {
+  pending: 'default',
+  running: 'primary',
+  failed: 'danger',
+  completed: 'success',
+};
+
+const PHASE_LABELS = {
+  structure: 'Structure',
+  extraction: 'Section extraction',
+  embeddings: 'Embeddings',
+  save: 'Save',
+};
+
+export default function IngestionJobsModal({ isOpen, onClose, onJobCompleted }: IngestionJobsModalProps) {
+  const [jobs, setJobs] = useState<IngestionJobSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  // Load jobs whenever the modal is opened
+  useEffect(() => {
+    if (isOpen) {
+      loadJobs();
+    }
+  }, [isOpen]);
+
+  async function loadJobs() {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await fetchIngestionJobs();
+      if (result.success) {
+        setJobs(result.jobs);
+      } else {
+        setError(result.error);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to load jobs');
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const handleResume = async (jobId: string) => {
+    setBusyKey(jobId);
+    try {
+      const result = await resumeIngestionJob(jobId);
+      if (result.success && onJobCompleted) {
+        onJobCompleted(result);
+      }
+    } finally {
+      setBusyKey(null);
+      loadJobs();
+    }
+  };
+
+  const handleRetrySection = async (jobId: string, sectionIndex: number) => {
+    setBusyKey(`${jobId}-${sectionIndex}`);
+    try {
+      await retryIngestionJobSection(jobId, sectionIndex);
+    } finally {
+      setBusyKey(null);
+      loadJobs();
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      size="3xl"
+      scrollBehavior="inside"
+    >
+      <ModalContent>
+        {() => (
+          <>
+            <ModalHeader className="flex flex-col gap-1">
+              <h2 className="text-2xl font-semibold">Ingestion Jobs</h2>
+              <p className="text-sm text-default-500 font-normal">
+                Resume failed uploads from their last completed phase or retry individual sections
+              </p>
+            </ModalHeader>
+            <ModalBody>
+              {isLoading && jobs.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <Spinner size="lg" />
+                </div>
+              ) : error ? (
+                <p className="text-sm text-danger">{error}</p>
+              ) : jobs.length === 0 ? (
+                <p className="text-sm text-default-500 text-center py-8">No ingestion jobs yet</p>
+              ) : (
+                <Accordion variant="splitted" selectionMode="multiple">
+                  {jobs.map((job) => {
+                    const completedSections = job.sections.filter(s => s.status === 'completed').length;
+                    const canResume = job.status === 'failed' || job.status === 'pending';
+
+                    return (
+                      <AccordionItem
+                        key={job.jobId}
+                        title={
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium truncate">{job.documentTitle || job.filename}</span>
+                            <Chip size="sm" color={STATUS_COLORS[job.status]} variant="flat">
+                              {job.status}
+                            </Chip>
+                          </div>
+                        }
+                        subtitle={
+                          <span className="text-xs text-default-500">
+                            {job.company ? `${job.company} · ` : ''}
+                            {job.status === 'completed' ? 'Done' : PHASE_LABELS[job.currentPhase]}
+                            {job.sections.length > 0 && ` · ${completedSections}/${job.sections.length} sections`}
+                            {` · ${new Date(job.createdAt).toLocaleString()}`}
+                          </span>
+                        }
+                      >
+                        <div className="space-y-3">
+                          {job.error && (
+                            <p className="text-sm text-danger-700 dark:text-danger-300 font-mono bg-danger-50 dark:bg-danger-900/20 p-2 rounded">
+                              {job.error}
+                            </p>
+                          )}
+
+                          {job.sections.length > 0 && (
+                            <ul className="space-y-1">
+                              {job.sections.map((section) => (
+                                <li key={section.sectionIndex} className="flex items-center justify-between gap-2 text-sm">
+                                  <div className="min-w-0">
+                                    <p className="truncate">
+                                      {section.sectionIndex + 1}. {section.sectionTitle}
+                                      <span className="text-default-400"> (p. {section.pageStart}-{section.pageEnd})</span>
+                                    </p>
+                                    {section.error && (
+                                      <p className="text-xs text-danger truncate">{section.error}</p>
+                                    )}
+                                  </div>
+                                  {section.status === 'failed' && job.currentPhase === 'extraction' ? (
+                                    <Button
+                                      size="sm"
+                                      variant="flat"
+                                      color="warning"
+                                      isLoading={busyKey === `${job.jobId}-${section.sectionIndex}`}
+                                      isDisabled={busyKey !== null}
+                                      onPress={() => handleRetrySection(job.jobId, section.sectionIndex)}
+                                    >
+                                      Retry
+                                    </Button>
+                                  ) : (
+                                    <Chip size="sm" variant="dot" color={section.status === 'completed' ? 'success' : 'default'}>
+                                      {section.status}
+                                    </Chip>
+                                  )}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+
+                          {canResume && (
+                            <div className="flex justify-end">
+                              <Button
+                                size="sm"
+                                color="primary"
+                                isLoading={busyKey === job.jobId}
+                                isDisabled={busyKey !== null}
+                                onPress={() => handleResume(job.jobId)}
+                              >
+                                Resume from {PHASE_LABELS[job.currentPhase]}
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                      </AccordionItem>
+                    );
+                  })}
+                </Accordion>
+              )}
+            </ModalBody>
+            <ModalFooter>
+              <Button variant="light" onPress={loadJobs} isDisabled={isLoading || busyKey !== null}>
+                Refresh
+              </Button>
+              <Button color="primary" onPress={onClose}>
+                Close
+              </Button>
+            </ModalFooter>
+          </>
+        )}
+      </ModalContent>
+    </Modal>
+  );
+}
@@ -2,10 +2,17 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { motion } from 'framer-motion';
-import { Card, CardHeader, CardBody, Button, Input, Select, SelectItem, Spinner, Divider } from '@heroui/react';
+import { Card, CardHeader, CardBody, Button, Input, Spinner, Divider } from '@heroui/react';
 import { fetchAvailableCompanies } from '../actions/fetch-companies';
 import { useChat } from '@ai-sdk/react';
 import { DefaultChatTransport } from 'ai';
+import ChatScopeSelector from './ChatScopeSelector';
+import ChatSessionList, { type ResumedChatSession } from './ChatSessionList';
+import ChatSourceChips from './ChatSourceChips';
+import ChatMessageFeedback from './ChatMessageFeedback';
+import ChatToolCalls from './ChatToolCalls';
+import type { FelixUIMessage } from '../types/chat';
+import { isEmptyScope, type RetrievalScope } from '../types/retrieval';
 
 type Company = {
   companyId: string;
@@ -21,16 +28,31 @@ interface InlineChatPanelProps {
 
 export default function InlineChatPanel({ defaultCompanyId, className }: InlineChatPanelProps) {
   const [companies, setCompanies] = useState<Company[]>([]);
-  const [selectedCompanyId, setSelectedCompanyId] = useState<string>(defaultCompanyId || '');
+  const [scope, setScope] = useState<RetrievalScope>({
+    type: 'companies',
+    companyIds: defaultCompanyId ? [defaultCompanyId] : [],
+  });
   const [isLoadingCompanies, setIsLoadingCompanies] = useState(false);
   const [input, setInput] = useState('');
+  // The session ID doubles as the useChat id, so changing it starts or resumes a conversation
+  const [session, setSession] = useState<Omit<ResumedChatSession, 'scope'>>(() => ({
+    sessionId: crypto.randomUUID(),
+    messages: [],
+    feedback: {},
+  }));
+  const [showHistory, setShowHistory] = useState(false);
+  const [historyVersion, setHistoryVersion] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   // Simple useChat setup following Vercel's pattern
-  const { messages, sendMessage, status, setMessages } = useChat({
+  const { messages, sendMessage, status } = useChat<FelixUIMessage>({
+    id: session.sessionId,
+    messages: session.messages,
     transport: new DefaultChatTransport({
       api: '/Felix/api/chat',
     }),
+    // The route saves the conversation once the answer finishes
+    onFinish: () => setHistoryVersion(version => version + 1),
   });
 
   const isDisabled = status !== 'ready';
@@ -43,11 +65,10 @@ export default function InlineChatPanel({ defaultCompanyId, className }: InlineC
 
   // Update selected company if prop changes
   useEffect(() => {
-    if (defaultCompanyId && defaultCompanyId !== selectedCompanyId) {
-      setSelectedCompanyId(defaultCompanyId);
-      setMessages([]);
+    if (defaultCompanyId) {
+      setScope({ type: 'companies', companyIds: [defaultCompanyId] });
+      startNewChat();
     }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [defaultCompanyId]);
 
   async function loadCompanies() {
@@ -56,8 +77,8 @@ export default function InlineChatPanel({ defaultCompanyId, className }: InlineC
       const result = await fetchAvailableCompanies();
       if (result.success) {
         setCompanies(result.companies);
-        if (!selectedCompanyId && result.companies.length > 0) {
-          setSelectedCompanyId(result.companies[0].companyId);
+        if (isEmptyScope(scope) && result.companies.length > 0) {
+          setScope({ type: 'companies', companyIds: [result.companies[0].companyId] });
         }
       } else {
         console.error('Failed to load companies:', result.error);
@@ -74,21 +95,29 @@ export default function InlineChatPanel({ defaultCompanyId, className }: InlineC
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
-  const handleCompanyChange = (keys: 'all' | Set<React.Key>) => {
-    if (keys === 'all') return;
-    const selectedKey = Array.from(keys)[0] as string;
-    setSelectedCompanyId(selectedKey);
-    setMessages([]);
+  const startNewChat = () => {
+    setSession({ sessionId: crypto.randomUUID(), messages: [], feedback: {} });
+  };
+
+  const handleScopeChange = (newScope: RetrievalScope) => {
+    setScope(newScope);
+    startNewChat();
+  };
+
+  const handleResume = (resumed: ResumedChatSession) => {
+    setScope(resumed.scope);
+    setSession({ sessionId: resumed.sessionId, messages: resumed.messages, feedback: resumed.feedback });
+    setShowHistory(false);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (input.trim() && selectedCompanyId) {
+    if (input.trim() && !isEmptyScope(scope)) {
       sendMessage(
         { text: input },
         {
           body: {
-            companyId: selectedCompanyId,
+            scope,
           },
         }
       );
@@ -100,30 +129,28 @@ export default function InlineChatPanel({ defaultCompanyId, className }: InlineC
     <Card className={`flex flex-col ${className}`}>
       <CardHeader className="flex-shrink-0">
         <div className="w-full space-y-3">
-          <div>
-            <h3 className="text-xl font-semibold">Document Chat</h3>
-            <p className="text-sm text-default-500">Ask questions about company documents</p>
+          <div className="flex items-start justify-between gap-2">
+            <div>
+              <h3 className="text-xl font-semibold">Document Chat</h3>
+              <p className="text-sm text-default-500">Ask questions about company documents</p>
+            </div>
+            <div className="flex gap-1 flex-shrink-0">
+              <Button size="sm" variant="light" onPress={() => { startNewChat(); setShowHistory(false); }} isDisabled={isDisabled}>
+                New
+              </Button>
+              <Button size="sm" variant={showHistory ? 'flat' : 'light'} onPress={() => setShowHistory(!showHistory)}>
+                History
+              </Button>
+            </div>
           </div>
 
-          {/* Company Selector */}
+          {/* Scope Selector */}
           {isLoadingCompanies ? (
             <div className="flex justify-center py-2">
               <Spinner size="sm" />
             </div>
           ) : companies.length > 0 ? (
-            <Select
-              label="Company"
-              size="sm"
-              selectedKeys={new Set([selectedCompanyId])}
-              onSelectionChange={handleCompanyChange}
-              placeholder="Select a company"
-            >
-              {companies.map((company) => (
-                <SelectItem key={company.companyId} textValue={company.name}>
-                  {company.name}{company.ticker ? ` (${company.ticker})` : ''}
-                </SelectItem>
-              ))}
-            </Select>
+            <ChatScopeSelector companies={companies} scope={scope} onChange={handleScopeChange} />
           ) : (
             <div className="bg-warning-50 border border-warning-200 rounded-lg p-3">
               <p className="text-sm text-warning-700">
@@ -137,7 +164,15 @@ export default function InlineChatPanel({ defaultCompanyId, className }: InlineC
       <Divider />
 
       <CardBody className="flex-1 overflow-y-auto p-4 min-h-[300px] max-h-[500px]">
-        {messages.length === 0 ? (
+        {showHistory ? (
+          <ChatSessionList
+            scope={scope}
+            activeSessionId={session.sessionId}
+            refreshKey={historyVersion}
+            onResume={handleResume}
+            onActiveDeleted={startNewChat}
+          />
+        ) : messages.length === 0 ? (
           <div className="h-full flex items-center justify-center">
             <div className="text-center text-default-400 space-y-2 px-4">
               <svg
@@ -177,6 +212,7 @@ export default function InlineChatPanel({ defaultCompanyId, className }: InlineC
                       : 'bg-default-100 text-foreground'
                   }`}
                 >
+                  {message.role === 'assistant' && <ChatToolCalls parts={message.parts} />}
                   {message.parts.map((part, index) =>
                     part.type === 'text' ? (
                       <p key={index} className="text-sm whitespace-pre-wrap break-words">
@@ -184,6 +220,14 @@ export default function InlineChatPanel({ defaultCompanyId, className }: InlineC
                       </p>
                     ) : null
                   )}
+                  {message.role === 'assistant' && <ChatSourceChips parts={message.parts} metadata={message.metadata} />}
+                  {message.role === 'assistant' && (status === 'ready' || message.id !== messages[messages.length - 1]?.id) && (
+                    <ChatMessageFeedback
+                      sessionId={session.sessionId}
+                      messageId={message.id}
+                      initialFeedback={session.feedback[message.id]}
+                    />
+                  )}
                 </div>
               </motion.div>
             ))}
@@ -201,14 +245,14 @@ export default function InlineChatPanel({ defaultCompanyId, className }: InlineC
             placeholder="Type a message..."
             value={input}
             onChange={(e) => setInput(e.target.value)}
-            disabled={isDisabled || !selectedCompanyId || companies.length === 0}
+            disabled={isDisabled || isEmptyScope(scope) || companies.length === 0}
             size="md"
             className="flex-1"
           />
           <Button
             color="primary"
             type="submit"
-            disabled={isDisabled || !input.trim() || !selectedCompanyId}
+            disabled={isDisabled || !input.trim() || isEmptyScope(scope)}
             isLoading={isDisabled}
             isIconOnly
           >
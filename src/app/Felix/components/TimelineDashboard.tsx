@@ -7,6 +7,7 @@ import { fetchTimelineData } from '../actions/fetch-timeline-data';
 import { fetchAvailableCompanies } from '../actions/fetch-companies';
 import type { TimelineData, TimelineDataPoint, DataLayer } from '../types/timeline';
 import { formatDate, formatDateRange } from '../lib/utils/date-parser';
+import { getDocumentFileUrl } from '../lib/utils/document-links';
 import { useTheme } from '@/contexts/ThemeContext';
 
 type Company = {
@@ -16,6 +17,8 @@ type Company = {
   ticker: string | null;
 };
 
+type GroundingFilter = 'all' | 'grounded' | 'ungrounded';
+
 interface TimelineDashboardProps {
   defaultCompanyId?: string;
   onCompanyChange?: (companyId: string) => void;
@@ -60,6 +63,7 @@ export default function TimelineDashboard({ defaultCompanyId, onCompanyChange, c
   const [selectedCompanyId, setSelectedCompanyId] = useState<string>(defaultCompanyId || '');
   const [timelineData, setTimelineData] = useState<TimelineData | null>(null);
   const [activeLayers, setActiveLayers] = useState<Set<DataLayer>>(new Set(['TB', 'PAQL', 'PAQN', 'DOCUMENT']));
+  const [groundingFilter, setGroundingFilter] = useState<GroundingFilter>('all');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedPoint, setSelectedPoint] = useState<TimelineDataPoint | null>(null);
@@ -79,13 +83,13 @@ export default function TimelineDashboard({ defaultCompanyId, onCompanyChange, c
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [defaultCompanyId]);
 
-  // Load timeline data when company or layers change
+  // Load timeline data when company, layers or grounding filter change
   useEffect(() => {
     if (selectedCompanyId) {
       loadTimelineData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedCompanyId, activeLayers]);
+  }, [selectedCompanyId, activeLayers, groundingFilter]);
 
   async function loadCompanies() {
     try {
@@ -109,6 +113,7 @@ export default function TimelineDashboard({ defaultCompanyId, onCompanyChange, c
       const result = await fetchTimelineData({
         companyId: selectedCompanyId,
         layers: Array.from(activeLayers),
+        grounding: groundingFilter === 'all' ? undefined : groundingFilter,
       });
 
       if (result.success && result.data) {
@@ -132,6 +137,14 @@ export default function TimelineDashboard({ defaultCompanyId, onCompanyChange, c
     }
   };
 
+  const handleGroundingFilterChange = (keys: 'all' | Set<React.Key>) => {
+    if (keys === 'all') return;
+    const selectedKey = Array.from(keys)[0] as GroundingFilter | undefined;
+    if (selectedKey) {
+      setGroundingFilter(selectedKey);
+    }
+  };
+
   const toggleLayer = (layer: DataLayer) => {
     setActiveLayers(prev => {
       const next = new Set(prev);
@@ -153,6 +166,9 @@ export default function TimelineDashboard({ defaultCompanyId, onCompanyChange, c
     if (!selectedPoint) return null;
 
     const layerConfig = LAYER_CONFIG[selectedPoint.layer];
+    const { grounding, confidence } = selectedPoint;
+    // Open the PDF where the source text was found, if it was
+    const sourcePage = grounding?.grounded && grounding.page ? grounding.page : selectedPoint.pageStart;
 
     return (
       <Modal
@@ -203,6 +219,26 @@ export default function TimelineDashboard({ defaultCompanyId, onCompanyChange, c
                     )}
                   </div>
 
+                  {(grounding || confidence !== undefined) && (
+                    <div className="flex flex-wrap items-center gap-2">
+                      {grounding && (
+                        <Chip size="sm" variant="flat" color={grounding.grounded ? 'success' : 'danger'}>
+                          {grounding.grounded
+                            ? `Source text found${grounding.page ? ` on p. ${grounding.page}` : ''}`
+                            : 'Source text not found in document'}
+                        </Chip>
+                      )}
+                      {grounding?.grounded && !grounding.onSectionPages && (
+                        <Chip size="sm" variant="flat" color="warning">Outside its section</Chip>
+                      )}
+                      {confidence !== undefined && (
+                        <Chip size="sm" variant="flat">
+                          {Math.round(confidence * 100)}% confidence
+                        </Chip>
+                      )}
+                    </div>
+                  )}
+
                   {/* Layer-specific details */}
                   {selectedPoint.timeBasedData && (
                     <div className="bg-primary-50 dark:bg-primary-900/20 p-3 rounded-lg border border-primary-200 dark:border-primary-800">
@@ -246,6 +282,15 @@ export default function TimelineDashboard({ defaultCompanyId, onCompanyChange, c
                 </div>
               </ModalBody>
               <ModalFooter>
+                <Button
+                  as="a"
+                  href={getDocumentFileUrl(selectedPoint.documentId, sourcePage)}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  variant="flat"
+                >
+                  Open Source PDF{sourcePage ? ` (p. ${sourcePage})` : ''}
+                </Button>
                 <Button color="primary" onPress={onClose}>
                   Close
                 </Button>
@@ -295,6 +340,18 @@ export default function TimelineDashboard({ defaultCompanyId, onCompanyChange, c
                 ))}
               </Select>
 
+              <Select
+                label="Source text"
+                size="sm"
+                className="max-w-[12rem]"
+                selectedKeys={new Set([groundingFilter])}
+                onSelectionChange={handleGroundingFilterChange}
+              >
+                <SelectItem key="all">All facts</SelectItem>
+                <SelectItem key="grounded">Found in document</SelectItem>
+                <SelectItem key="ungrounded">Not found / unchecked</SelectItem>
+              </Select>
+
               {timelineData && timelineData.dateRange.min && timelineData.dateRange.max && (
                 <Chip color="default" variant="flat" size="sm">
                   {formatDateRange(timelineData.dateRange.min, timelineData.dateRange.max)}
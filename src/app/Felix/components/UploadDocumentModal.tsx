@@ -2,13 +2,21 @@
 
 import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, Progress } from '@heroui/react';
-import { processDocument } from '../process-document';
+import { Modal, ModalContent, ModalHeader, ModalBody, ModalFooter, Button, Progress, Spinner } from '@heroui/react';
+import { streamIngestion } from '../lib/utils/ingestion-stream';
+import type {
+  DuplicateAction,
+  DuplicateDocument,
+  IngestionPhase,
+  IngestionProgressEvent,
+  IngestionSectionProgress,
+} from '../types/ingestion';
 
-type ProcessingStatus = 'idle' | 'uploading' | 'processing' | 'success' | 'error';
+type ProcessingStatus = 'idle' | 'uploading' | 'processing' | 'duplicate' | 'success' | 'error';
 
 interface ProcessingResult {
   success: boolean;
+  jobId?: string;
   companyId?: string;
   documentId?: string;
   documentTitle?: string;
@@ -17,8 +25,16 @@ interface ProcessingResult {
   error?: string;
   sections?: number;
   totalChunks?: number;
+  skipped?: boolean;
 }
 
+const PHASE_MESSAGES: Record<IngestionPhase, string> = {
+  structure: 'Analyzing document structure...',
+  extraction: 'Extracting section content...',
+  embeddings: 'Generating embeddings...',
+  save: 'Saving to database...',
+};
+
 interface UploadDocumentModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -30,6 +46,9 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
   const [status, setStatus] = useState<ProcessingStatus>('idle');
   const [result, setResult] = useState<ProcessingResult | null>(null);
   const [progress, setProgress] = useState(0);
+  const [phase, setPhase] = useState<IngestionPhase | null>(null);
+  const [sections, setSections] = useState<IngestionSectionProgress[]>([]);
+  const [duplicate, setDuplicate] = useState<DuplicateDocument | null>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
@@ -38,25 +57,68 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
       setStatus('idle');
       setResult(null);
       setProgress(0);
+      setPhase(null);
+      setSections([]);
+      setDuplicate(null);
+    }
+  };
+
+  const updateSection = (sectionIndex: number, update: Partial<IngestionSectionProgress>) => {
+    setSections(prev => prev.map(section =>
+      section.sectionIndex === sectionIndex ? { ...section, ...update } : section
+    ));
+  };
+
+  // Translate pipeline events into progress bar and checklist state
+  const handleProgressEvent = (event: IngestionProgressEvent) => {
+    switch (event.type) {
+      case 'job-created':
+        setStatus('processing');
+        setProgress(5);
+        break;
+      case 'phase-started':
+        setPhase(event.phase);
+        if (event.phase === 'embeddings') setProgress(85);
+        if (event.phase === 'save') setProgress(95);
+        break;
+      case 'structure-found': {
+        setSections(event.sections);
+        const completed = event.sections.filter(s => s.status === 'completed').length;
+        setProgress(15 + Math.round((completed / Math.max(event.totalSections, 1)) * 70));
+        break;
+      }
+      case 'section-started':
+        updateSection(event.sectionIndex, { status: 'running', error: null });
+        break;
+      case 'section-completed':
+        updateSection(event.sectionIndex, { status: 'completed' });
+        setProgress(15 + Math.round((event.completedSections / Math.max(event.totalSections, 1)) * 70));
+        break;
+      case 'section-failed':
+        updateSection(event.sectionIndex, { status: 'failed', error: event.error });
+        break;
     }
   };
 
-  const handleUpload = async () => {
+  const handleUpload = async (duplicateAction?: DuplicateAction) => {
     if (!file) return;
 
     setStatus('uploading');
-    setProgress(10);
+    setProgress(0);
+    setPhase(null);
+    setSections([]);
+    setResult(null);
 
     try {
       // Create FormData with the file
       const formData = new FormData();
       formData.append('pdf', file);
+      if (duplicateAction) {
+        formData.append('duplicateAction', duplicateAction);
+      }
 
-      setStatus('processing');
-      setProgress(30);
-
-      // Call the server action
-      const response = await processDocument(formData);
+      // Stream pipeline progress as the document is processed
+      const response = await streamIngestion(formData, handleProgressEvent);
 
       if (response.success) {
         setStatus('success');
@@ -70,17 +132,25 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
           documentDate: response.documentDate,
           sections: response.sections,
           totalChunks: response.totalChunks,
+          skipped: response.skipped,
         };
         setResult(successResult);
+        setDuplicate(null);
 
         // Notify parent component
         if (onSuccess) {
           onSuccess(successResult);
         }
+      } else if (response.duplicate) {
+        // Same file already uploaded - let the user decide before spending LLM calls
+        setStatus('duplicate');
+        setProgress(0);
+        setDuplicate(response.duplicate);
       } else {
         setStatus('error');
         setResult({
           success: false,
+          jobId: response.jobId,
           error: response.error || 'Unknown error occurred',
         });
       }
@@ -99,6 +169,9 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
     setStatus('idle');
     setResult(null);
     setProgress(0);
+    setPhase(null);
+    setSections([]);
+    setDuplicate(null);
     onClose();
   };
 
@@ -159,11 +232,70 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
                     />
                     <p className="text-sm text-center text-default-500">
                       {status === 'uploading' && 'Uploading file...'}
-                      {status === 'processing' && 'Extracting structure and generating embeddings...'}
+                      {status === 'processing' && (phase ? PHASE_MESSAGES[phase] : 'Starting...')}
                     </p>
                   </div>
                 )}
 
+                {/* Per-section checklist */}
+                {sections.length > 0 && (
+                  <div className="border border-default-200 rounded-lg p-3 max-h-64 overflow-y-auto">
+                    <p className="text-sm font-semibold mb-2">
+                      Sections ({sections.filter(s => s.status === 'completed').length}/{sections.length})
+                    </p>
+                    <ul className="space-y-1.5">
+                      {sections.map((section) => (
+                        <li key={section.sectionIndex} className="flex items-start gap-2 text-sm">
+                          <span className="w-4 flex-shrink-0 flex justify-center pt-0.5">
+                            {section.status === 'running' ? (
+                              <Spinner size="sm" className="scale-75" />
+                            ) : section.status === 'completed' ? (
+                              <span className="text-success">✓</span>
+                            ) : section.status === 'failed' ? (
+                              <span className="text-danger">✕</span>
+                            ) : (
+                              <span className="text-default-300">○</span>
+                            )}
+                          </span>
+                          <div className="min-w-0">
+                            <p className={section.status === 'pending' ? 'text-default-400' : 'text-foreground'}>
+                              {section.sectionTitle}
+                              <span className="text-default-400"> (p. {section.pageStart}-{section.pageEnd})</span>
+                            </p>
+                            {section.error && (
+                              <p className="text-xs text-danger break-words">{section.error}</p>
+                            )}
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {/* Duplicate upload */}
+                {status === 'duplicate' && duplicate && (
+                  <div className="border-2 border-warning rounded-lg p-4 bg-warning-50 dark:bg-warning-900/20 space-y-3">
+                    <div>
+                      <h3 className="text-lg font-semibold text-warning-900 dark:text-warning-100">Already uploaded</h3>
+                      <p className="text-sm text-warning-800 dark:text-warning-200 mt-1">
+                        This file matches &ldquo;{duplicate.documentTitle || 'Untitled'}&rdquo; ({duplicate.companyName}, version {duplicate.version}),
+                        uploaded {new Date(duplicate.uploadedAt).toLocaleDateString()}.
+                      </p>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="flat" onPress={() => handleUpload('skip')}>
+                        Skip
+                      </Button>
+                      <Button size="sm" color="warning" variant="flat" onPress={() => handleUpload('replace')}>
+                        Replace existing
+                      </Button>
+                      <Button size="sm" color="primary" variant="flat" onPress={() => handleUpload('version')}>
+                        Add as new version
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Results */}
                 {result && (
                   <motion.div
@@ -185,7 +317,9 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
                     </h3>
                     {result.success ? (
                       <div className="space-y-3">
-                        <p className="text-success-800 dark:text-success-200">Document processed successfully!</p>
+                        <p className="text-success-800 dark:text-success-200">
+                          {result.skipped ? 'Kept the existing document, nothing was reprocessed.' : 'Document processed successfully!'}
+                        </p>
                         <div className="grid grid-cols-2 gap-3">
                           {result.company && (
                             <div className="bg-white dark:bg-default-100 p-3 rounded-lg">
@@ -199,14 +333,18 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
                               <p className="font-semibold mt-1 text-sm text-foreground">{result.documentTitle}</p>
                             </div>
                           )}
-                          <div className="bg-white dark:bg-default-100 p-3 rounded-lg">
-                            <p className="text-xs text-default-500">Sections Found</p>
-                            <p className="text-xl font-bold mt-1 text-foreground">{result.sections}</p>
-                          </div>
-                          <div className="bg-white dark:bg-default-100 p-3 rounded-lg">
-                            <p className="text-xs text-default-500">Total Chunks</p>
-                            <p className="text-xl font-bold mt-1 text-foreground">{result.totalChunks}</p>
-                          </div>
+                          {!result.skipped && (
+                            <>
+                            <div className="bg-white dark:bg-default-100 p-3 rounded-lg">
+                              <p className="text-xs text-default-500">Sections Found</p>
+                              <p className="text-xl font-bold mt-1 text-foreground">{result.sections}</p>
+                            </div>
+                            <div className="bg-white dark:bg-default-100 p-3 rounded-lg">
+                              <p className="text-xs text-default-500">Total Chunks</p>
+                              <p className="text-xl font-bold mt-1 text-foreground">{result.totalChunks}</p>
+                            </div>
+                            </>
+                          )}
                         </div>
                       </div>
                     ) : (
@@ -215,6 +353,11 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
                         <p className="text-sm text-danger-900 dark:text-danger-100 font-mono bg-white dark:bg-default-100 p-3 rounded border border-danger-200 dark:border-danger-800">
                           {result.error}
                         </p>
+                        {result.jobId && (
+                          <p className="text-xs text-default-500">
+                            Completed phases were saved. Resume this upload from Ingestion Jobs instead of uploading it again.
+                          </p>
+                        )}
                       </div>
                     )}
                   </motion.div>
@@ -246,8 +389,8 @@ export default function UploadDocumentModal({ isOpen, onClose, onSuccess }: Uplo
               {status !== 'success' && (
                 <Button
                   color="primary"
-                  onPress={handleUpload}
-                  disabled={!file || status === 'processing' || status === 'uploading'}
+                  onPress={() => handleUpload()}
+                  disabled={!file || status === 'processing' || status === 'uploading' || status === 'duplicate'}
                   isLoading={status === 'processing' || status === 'uploading'}
                 >
                   Process Document
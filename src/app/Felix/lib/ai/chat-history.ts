@@ -0,0 +1,262 @@
+import { db } from '@/db';
+import { chatMessages, chatSessions } from '@/db/schema';
+import { and, asc, desc, eq, notInArray, or, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import type { ChatSource, FelixUIMessage } from '../../types/chat';
+import type { RetrievalScope } from '../../types/retrieval';
+
+/**
+ * Session titles are cut to this many characters of the first question
+ */
+const MAX_TITLE_CHARS = 80;
+
+const MAX_LISTED_SESSIONS = 50;
+
+/**
+ * Session IDs are generated by the client, and stored in a uuid column
+ */
+const sessionIdSchema = z.string().uuid();
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Match sessions sharing a company with the scope, or scoped to the same sector
+ */
+function scopeFilter(scope: RetrievalScope) {
+  if (scope.type === 'sector') {
+    return sql`${chatSessions.scope} @> ${JSON.stringify({ type: 'sector', sector: scope.sector })}::jsonb`;
+  }
+
+  return or(
+    ...scope.companyIds.map(companyId =>
+      sql`${chatSessions.scope} -> 'companyIds' @> ${JSON.stringify([companyId])}::jsonb`
+    )
+  );
+}
+
+function getMessageSources(message: FelixUIMessage): ChatSource[] {
+  return message.parts.flatMap(part => (part.type === 'data-source' ? [part.data] : []));
+}
+
+function toTitle(text: string): string {
+  const title = text.replace(/\s+/g, ' ').trim();
+  return title.length > MAX_TITLE_CHARS ? `${title.slice(0, MAX_TITLE_CHARS - 1)}…` : title || 'New chat';
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Whether a client-supplied chat ID is a valid session ID
+ * Anything else would fail the uuid cast in Postgres, so check before querying
+ */
+export function isChatSessionId(value: unknown): value is string {
+  return sessionIdSchema.safeParse(value).success;
+}
+
+/**
+ * List a user's chat sessions, most recently active first
+ *
+ * @param userId - Owner of the sessions
+ * @param scope - Only list sessions overlapping this scope
+ */
+export async function listChatSessions(userId: string, scope?: RetrievalScope) {
+  try {
+    return await db
+      .select({
+        sessionId: chatSessions.sessionId,
+        title: chatSessions.title,
+        scope: chatSessions.scope,
+        createdAt: chatSessions.createdAt,
+        updatedAt: chatSessions.updatedAt,
+      })
+      .from(chatSessions)
+      .where(and(eq(chatSessions.userId, userId), scope ? scopeFilter(scope) : undefined))
+      .orderBy(desc(chatSessions.updatedAt))
+      .limit(MAX_LISTED_SESSIONS);
+  } catch (error) {
+    console.error('Error listing chat sessions:', error);
+    throw new Error(
+      `Failed to list chat sessions: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Load a chat session with its messages, ready to hand back to useChat
+ *
+ * @returns The session, or null if it doesn't exist or belongs to another user
+ */
+export async function getChatSession(sessionId: string, userId: string) {
+  try {
+    const [session] = await db
+      .select()
+      .from(chatSessions)
+      .where(and(eq(chatSessions.sessionId, sessionId), eq(chatSessions.userId, userId)))
+      .limit(1);
+
+    if (!session) {
+      return null;
+    }
+
+    const rows = await db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.sessionId, sessionId))
+      .orderBy(asc(chatMessages.position));
+
+    const messages: FelixUIMessage[] = rows.map(row => ({
+      id: row.messageId,
+      role: row.role,
+      parts: row.parts,
+      metadata: row.metadata ?? undefined,
+    }));
+
+    return { ...session, messages };
+  } catch (error) {
+    console.error('Error fetching chat session:', error);
+    throw new Error(
+      `Failed to fetch chat session: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Create a chat session on its first message
+ *
+ * @param firstMessage - Text the session is titled after
+ * @returns False if the ID is already taken by another user's session
+ */
+export async function ensureChatSession(options: {
+  sessionId: string;
+  userId: string;
+  scope: RetrievalScope;
+  firstMessage: string;
+}): Promise<boolean> {
+  try {
+    const { sessionId, userId, scope, firstMessage } = options;
+
+    await db
+      .insert(chatSessions)
+      .values({ sessionId, userId, scope, title: toTitle(firstMessage) })
+      .onConflictDoNothing({ target: chatSessions.sessionId });
+
+    const [session] = await db
+      .select({ userId: chatSessions.userId })
+      .from(chatSessions)
+      .where(eq(chatSessions.sessionId, sessionId))
+      .limit(1);
+
+    return session?.userId === userId;
+  } catch (error) {
+    console.error('Error creating chat session:', error);
+    throw new Error(
+      `Failed to create chat session: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Store a session's messages as the client now has them
+ * Messages are upserted by ID; ones no longer in the list (e.g. a regenerated
+ * answer) are removed
+ *
+ * @param sessionId - The session to save to
+ * @param messages - Every message of the session, in order
+ */
+export async function saveChatMessages(sessionId: string, messages: FelixUIMessage[]) {
+  try {
+    if (messages.length === 0) {
+      return;
+    }
+
+    const now = new Date();
+
+    await db
+      .insert(chatMessages)
+      .values(
+        messages.map((message, position) => ({
+          sessionId,
+          messageId: message.id,
+          role: message.role,
+          position,
+          parts: message.parts,
+          metadata: message.metadata ?? null,
+          sources: getMessageSources(message),
+        }))
+      )
+      .onConflictDoUpdate({
+        target: [chatMessages.sessionId, chatMessages.messageId],
+        set: {
+          position: sql`excluded.position`,
+          parts: sql`excluded.parts`,
+          metadata: sql`excluded.metadata`,
+          sources: sql`excluded.sources`,
+          updatedAt: now,
+        },
+      });
+
+    await db
+      .delete(chatMessages)
+      .where(and(
+        eq(chatMessages.sessionId, sessionId),
+        notInArray(chatMessages.messageId, messages.map(message => message.id))
+      ));
+
+    await db
+      .update(chatSessions)
+      .set({ updatedAt: now })
+      .where(eq(chatSessions.sessionId, sessionId));
+  } catch (error) {
+    console.error('Error saving chat messages:', error);
+    throw new Error(
+      `Failed to save chat messages: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Rename a chat session
+ *
+ * @returns False if the session doesn't exist or belongs to another user
+ */
+export async function renameChatSession(sessionId: string, userId: string, title: string): Promise<boolean> {
+  try {
+    const updated = await db
+      .update(chatSessions)
+      .set({ title: toTitle(title) })
+      .where(and(eq(chatSessions.sessionId, sessionId), eq(chatSessions.userId, userId)))
+      .returning({ sessionId: chatSessions.sessionId });
+
+    return updated.length > 0;
+  } catch (error) {
+    console.error('Error renaming chat session:', error);
+    throw new Error(
+      `Failed to rename chat session: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Delete a chat session and its messages
+ *
+ * @returns False if the session doesn't exist or belongs to another user
+ */
+export async function deleteChatSession(sessionId: string, userId: string): Promise<boolean> {
+  try {
+    const deleted = await db
+      .delete(chatSessions)
+      .where(and(eq(chatSessions.sessionId, sessionId), eq(chatSessions.userId, userId)))
+      .returning({ sessionId: chatSessions.sessionId });
+
+    return deleted.length > 0;
+  } catch (error) {
+    console.error('Error deleting chat session:', error);
+    throw new Error(
+      `Failed to delete chat session: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -0,0 +1,251 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+import { listMetricNames, queryMetricFacts } from './metrics';
+import { getFactCurrency } from './fx-rates';
+import { getAvailableCompanies, getDocumentSections, retrieveContext, type RetrievedChunk } from './rag';
+import { getTimelineData } from './timeline';
+import { parseFlexibleDate } from '../utils/date-parser';
+
+/**
+ * Section text returned to the model per tool result, keeping later
+ * steps' prompts bounded
+ */
+const MAX_TOOL_TEXT_CHARS = 3000;
+
+/**
+ * Data points returned by one timeline lookup
+ */
+const MAX_TIMELINE_POINTS = 100;
+
+/**
+ * A company the current chat is scoped to
+ */
+export interface ChatToolCompany {
+  companyId: string;
+  name: string;
+}
+
+/**
+ * Record retrieved sections as citable sources of the answer
+ * Returns each section's source number, reusing the number of a section already cited
+ */
+export type RegisterSources = (chunks: RetrievedChunk[]) => number[];
+
+function truncate(text: string, maxChars: number = MAX_TOOL_TEXT_CHARS): string {
+  return text.length > maxChars ? `${text.slice(0, maxChars)}\n[...truncated]` : text;
+}
+
+/**
+ * Build the tools available to the chat model
+ * Every tool except listCompanies is limited to the companies in the chat's
+ * retrieval scope, and the model may chain several calls per question
+ *
+ * @param scopeCompanies - Companies resolved from the chat's scope
+ * @param registerSources - Numbers the sections found by searchDocuments so the model can cite them
+ */
+export function createChatTools(scopeCompanies: ChatToolCompany[], registerSources?: RegisterSources) {
+  // Narrow the scope to the named companies, or keep all of it
+  const resolveCompanyIds = (names?: string[]) => {
+    if (!names || names.length === 0) {
+      return scopeCompanies.map(company => company.companyId);
+    }
+
+    const wanted = names.map(name => name.toLowerCase());
+    return scopeCompanies
+      .filter(company => wanted.some(name => company.name.toLowerCase().includes(name)))
+      .map(company => company.companyId);
+  };
+
+  const scopeCompanyIds = new Set(scopeCompanies.map(company => company.companyId));
+
+  return {
+    searchDocuments: tool({
+      description: `Search the documents for passages relevant to a query (semantic and keyword search).
+Use this to look up anything not covered by the context you were given, or to search with different wording.
+Returns the best matching sections with their summaries, matching passages, document IDs and source numbers to cite as [N].`,
+      inputSchema: z.object({
+        query: z.string().describe('What to search for'),
+        companies: z.array(z.string()).optional().describe(`Company names to limit to. Omit for all of: ${scopeCompanies.map(company => company.name).join(', ')}`),
+      }),
+      execute: async ({ query, companies }) => {
+        const companyIds = resolveCompanyIds(companies);
+        const { chunks } = await retrieveContext(query, { type: 'companies', companyIds }, {
+          limit: 5,
+          similarityThreshold: 0.5,
+          level: 'subChunk',
+          mode: 'hybrid',
+        });
+
+        console.log(`🔎 searchDocuments ${JSON.stringify({ query, companies })}: ${chunks.length} sections`);
+
+        const sourceNumbers = registerSources?.(chunks) ?? [];
+
+        return {
+          resultCount: chunks.length,
+          results: chunks.map((chunk, index) => ({
+            source: sourceNumbers[index],
+            company: chunk.companyName,
+            docId: chunk.docId,
+            documentTitle: chunk.documentTitle,
+            documentDate: chunk.documentDate,
+            sectionTitle: chunk.sectionTitle,
+            pages: `${chunk.pageStart}-${chunk.pageEnd}`,
+            summary: chunk.summary,
+            passages: chunk.matches.map(match => ({ page: match.pageNumber, text: match.text })),
+            text: chunk.matches.length > 0 ? undefined : truncate(chunk.chunkText),
+          })),
+        };
+      },
+    }),
+
+    getTimeline: tool({
+      description: `Get dated events and facts from the timeline: TB (future events and expected dates),
+PAQL (qualitative developments, dated by their document) and PAQN (figures, dated by their period).
+Use this for "what happened / is planned between X and Y" questions.`,
+      inputSchema: z.object({
+        companies: z.array(z.string()).optional().describe(`Company names to limit to. Omit for all of: ${scopeCompanies.map(company => company.name).join(', ')}`),
+        layers: z.array(z.enum(['TB', 'PAQL', 'PAQN'])).optional().describe('Layers to include. Omit for all'),
+        startDate: z.string().optional().describe('Earliest date to include, e.g. "2024-01-01", "Q1 2024"'),
+        endDate: z.string().optional().describe('Latest date to include, e.g. "2024-12-31", "Q4 2024"'),
+      }),
+      execute: async ({ companies, layers, startDate, endDate }) => {
+        const companyIds = resolveCompanyIds(companies);
+        const timelines = await Promise.all(
+          companyIds.map(companyId =>
+            getTimelineData({
+              companyId,
+              layers: layers && layers.length > 0 ? layers : ['TB', 'PAQL', 'PAQN'],
+              startDate: parseFlexibleDate(startDate) ?? undefined,
+              endDate: parseFlexibleDate(endDate) ?? undefined,
+            })
+          )
+        );
+
+        const dataPoints = timelines
+          .flatMap(timeline => timeline.dataPoints)
+          .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+        console.log(`🗓️ getTimeline ${JSON.stringify({ companies, layers, startDate, endDate })}: ${dataPoints.length} points`);
+
+        return {
+          pointCount: dataPoints.length,
+          truncated: dataPoints.length > MAX_TIMELINE_POINTS,
+          points: dataPoints.slice(0, MAX_TIMELINE_POINTS).map(point => ({
+            date: point.date.toISOString().split('T')[0],
+            layer: point.layer,
+            company: point.companyName,
+            title: point.title,
+            description: point.description,
+            docId: point.documentId,
+            documentTitle: point.documentTitle,
+            page: point.pageStart,
+            reviewed: point.reviewStatus,
+          })),
+        };
+      },
+    }),
+
+    listCompanies: tool({
+      description: 'List every company with documents, with its sector and ticker, and whether it is in this chat\'s scope.',
+      inputSchema: z.object({}),
+      execute: async () => {
+        const companies = await getAvailableCompanies();
+        return {
+          companies: companies.map(company => ({
+            name: company.name,
+            sector: company.sector,
+            ticker: company.ticker,
+            inScope: scopeCompanyIds.has(company.companyId),
+          })),
+        };
+      },
+    }),
+
+    getDocumentSections: tool({
+      description: `List a document's sections with their page ranges and summaries.
+Pass a section title to also get that section's text. Get document IDs from searchDocuments or getTimeline.`,
+      inputSchema: z.object({
+        docId: z.string().describe('The document ID'),
+        sectionTitle: z.string().optional().describe('Section to return the text of'),
+      }),
+      execute: async ({ docId, sectionTitle }) => {
+        const document = await getDocumentSections(docId);
+
+        if (!document || !scopeCompanyIds.has(document.companyId)) {
+          return { error: `Document ${docId} not found in this chat's companies` };
+        }
+
+        const wanted = sectionTitle?.toLowerCase();
+        return {
+          company: document.companyName,
+          documentTitle: document.documentTitle,
+          documentType: document.documentType,
+          documentDate: document.documentDate,
+          reportingPeriod: document.reportingPeriod,
+          totalPages: document.totalPages,
+          sections: document.sections.map(section => ({
+            sectionTitle: section.sectionTitle,
+            pages: `${section.pageStart}-${section.pageEnd}`,
+            summary: section.summary,
+            text: wanted && section.sectionTitle?.toLowerCase().includes(wanted)
+              ? truncate(section.chunkText)
+              : undefined,
+          })),
+        };
+      },
+    }),
+
+    queryMetrics: tool({
+      description: `Look up exact figures (PAQN facts) extracted from the documents: revenue, occupancy, headcount, etc.
+Use this for any question asking for numbers, and present the results as a table.
+Returns one row per reported value with its unit, period and source document.
+Pass a currency to compare amounts reported in different currencies; converted rows keep the reported value and the FX rate used.`,
+      inputSchema: z.object({
+        metrics: z.array(z.string()).describe('Metric names or terms to match, e.g. ["rental revenue", "occupancy"]. Empty for all metrics'),
+        companies: z.array(z.string()).optional().describe(`Company names to limit to. Omit for all of: ${scopeCompanies.map(company => company.name).join(', ')}`),
+        periodFrom: z.string().optional().describe('Earliest period to include, e.g. "Q1 2023", "2023-01-01"'),
+        periodTo: z.string().optional().describe('Latest period to include, e.g. "Q4 2023", "2023-12-31"'),
+        currency: z.string().optional().describe('ISO 4217 code to convert currency amounts into, e.g. "USD". Omit to keep reported currencies'),
+      }),
+      execute: async ({ metrics, companies, periodFrom, periodTo, currency }) => {
+        const companyIds = resolveCompanyIds(companies);
+        const facts = await queryMetricFacts({
+          companyIds,
+          metricNames: metrics,
+          periodFrom,
+          periodTo,
+          reportingCurrency: currency,
+        });
+
+        console.log(`📐 queryMetrics ${JSON.stringify({ metrics, companies, periodFrom, periodTo, currency })}: ${facts.length} facts`);
+
+        if (facts.length === 0) {
+          // Let the model retry with the names that actually exist
+          return {
+            rowCount: 0,
+            rows: [],
+            availableMetrics: await listMetricNames(companyIds),
+          };
+        }
+
+        return {
+          rowCount: facts.length,
+          rows: facts.map(fact => ({
+            company: fact.companyName,
+            metric: fact.metricName,
+            value: fact.conversion?.value ?? fact.value,
+            unit: fact.conversion?.currency ?? fact.unit,
+            reported: fact.conversion ? `${fact.conversion.originalValue} ${fact.conversion.originalCurrency}` : undefined,
+            fxRate: fact.conversion
+              ? `${fact.conversion.rate} (${fact.conversion.rateDate})`
+              : currency && getFactCurrency(fact) ? 'no rate available, not converted' : undefined,
+            period: fact.period,
+            context: fact.context,
+            reviewed: fact.reviewStatus ?? undefined,
+            source: `${fact.documentTitle ?? 'Untitled'}${fact.sectionTitle ? ` - ${fact.sectionTitle}` : ''}${fact.pageStart ? ` (p. ${fact.pageStart})` : ''}`,
+          })),
+        };
+      },
+    }),
+  };
+}
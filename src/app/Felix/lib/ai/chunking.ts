@@ -0,0 +1,89 @@
+import type { PageText } from './text-extraction';
+
+/**
+ * Rough tokens-per-character ratio for English text with OpenAI tokenizers
+ * Good enough to keep sub-chunks well under the embedding model's limit
+ */
+const CHARS_PER_TOKEN = 4;
+
+const DEFAULT_MAX_TOKENS = 300;
+const DEFAULT_OVERLAP_TOKENS = 50;
+
+/**
+ * A token-bounded slice of a section's verbatim text
+ */
+export interface SubChunk {
+  subChunkIndex: number; // 0-based position within the parent section
+  text: string;
+  pageNumber: number; // Page the sub-chunk starts on
+  tokenCount: number; // Estimated, see estimateTokenCount
+}
+
+export interface EmbeddedSubChunk extends SubChunk {
+  embedding: number[];
+}
+
+/**
+ * Estimate the number of tokens in a piece of text
+ */
+export function estimateTokenCount(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Split a section's pages into overlapping, token-bounded sub-chunks
+ * Sub-chunks may run across a page break; each records the page it starts on
+ *
+ * @param pages - The section's pages, in order
+ * @param options - Maximum tokens per sub-chunk and tokens shared with the previous one
+ * @returns Sub-chunks in reading order
+ */
+export function splitIntoSubChunks(
+  pages: PageText[],
+  options: { maxTokens?: number; overlapTokens?: number } = {}
+): SubChunk[] {
+  const { maxTokens = DEFAULT_MAX_TOKENS, overlapTokens = DEFAULT_OVERLAP_TOKENS } = options;
+
+  const words = pages.flatMap(page =>
+    page.text
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(word => ({ word, pageNumber: page.pageNumber, tokens: estimateTokenCount(`${word} `) }))
+  );
+
+  const subChunks: SubChunk[] = [];
+  let start = 0;
+
+  while (start < words.length) {
+    // Grow the window until the next word would exceed the budget
+    let end = start;
+    let tokenCount = 0;
+    while (end < words.length && (end === start || tokenCount + words[end].tokens <= maxTokens)) {
+      tokenCount += words[end].tokens;
+      end++;
+    }
+
+    subChunks.push({
+      subChunkIndex: subChunks.length,
+      text: words.slice(start, end).map(({ word }) => word).join(' '),
+      pageNumber: words[start].pageNumber,
+      tokenCount,
+    });
+
+    if (end >= words.length) {
+      break;
+    }
+
+    // Step back far enough to share ~overlapTokens with the next sub-chunk,
+    // but always move forward
+    let nextStart = end;
+    let overlap = 0;
+    while (nextStart > start + 1 && overlap + words[nextStart - 1].tokens <= overlapTokens) {
+      nextStart--;
+      overlap += words[nextStart].tokens;
+    }
+    start = nextStart;
+  }
+
+  return subChunks;
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, documents, factEdits } from '@/db';
+import { EMBEDDING_DIMENSIONS } from '../embedding';
+import { saveDocumentToDatabase } from './database';
+import type { DocumentStructure, SectionBoundary, SectionContent } from './schemas';
+
+vi.mock('@/db', async () => {
+  const { createTestDatabase } = await import('@/db/test-database');
+  return { ...(await import('@/db/schema')), db: await createTestDatabase() };
+});
+
+const section: SectionBoundary = { sectionTitle: 'Outlook', sectionType: 'outlook', pageStart: 1, pageEnd: 1 };
+
+const structure: DocumentStructure = {
+  documentTitle: 'Annual Report',
+  documentType: 'annual_report',
+  company: 'Fixture Co',
+  sector: 'Testing',
+  reportingPeriod: 'FY 2024',
+  documentDate: '2024-12-31',
+  totalPages: 1,
+  sections: [section],
+};
+
+const content: SectionContent = {
+  content: 'The new plant opens in 2026.',
+  summary: 'The new plant opens in 2026.',
+  timeBasedInfo: [{
+    category: 'TB',
+    text: 'The new plant opens in 2026.',
+    eventType: 'Plant opening',
+    expectedDate: '2026-01-01',
+    description: 'The new plant opens in 2026',
+    confidence: 0.9,
+  }],
+  qualitativeInfo: [],
+  quantitativeData: [],
+  topics: ['Outlook'],
+};
+
+/**
+ * Save the fixture document, superseding the given one if any
+ */
+async function saveFixtureDocument(supersedes?: { docId: string; mode: 'replace' | 'version' }) {
+  return saveDocumentToDatabase(
+    structure,
+    [section],
+    [content],
+    [new Array<number>(EMBEDDING_DIMENSIONS).fill(0.01)],
+    'fixtures/annual-report.pdf',
+    { supersedes }
+  );
+}
+
+async function findDocument(docId: string) {
+  const [document] = await db.select().from(documents).where(eq(documents.docId, docId));
+  return document;
+}
+
+describe('saveDocumentToDatabase', () => {
+  it('deletes a replaced document without reviews', async () => {
+    const original = await saveFixtureDocument();
+    const replacement = await saveFixtureDocument({ docId: original.documentId, mode: 'replace' });
+
+    expect(await findDocument(original.documentId)).toBeUndefined();
+    expect(await findDocument(replacement.documentId)).toMatchObject({ isActive: true, version: 1 });
+  });
+
+  it('keeps a replaced document with reviewed facts as the previous version', async () => {
+    const original = await saveFixtureDocument();
+    await db.insert(factEdits).values({
+      docId: original.documentId,
+      chunkId: original.chunkIds[0],
+      layer: 'TB',
+      factIndex: 0,
+      action: 'approve',
+      editedBy: 'reviewer',
+    });
+
+    const replacement = await saveFixtureDocument({ docId: original.documentId, mode: 'replace' });
+
+    expect(await findDocument(original.documentId)).toMatchObject({ isActive: false });
+    expect(await findDocument(replacement.documentId)).toMatchObject({
+      isActive: true,
+      version: 2,
+      previousVersionId: original.documentId,
+    });
+    expect(await db.select().from(factEdits).where(eq(factEdits.docId, original.documentId))).toHaveLength(1);
+  });
+});
@@ -1,15 +1,100 @@
-import { db, companies, documents, documentChunks } from '@/db';
+import { db, companies, documents, documentChunks, documentPages, documentSubChunks, factEdits } from '@/db';
 import type {
   NewCompany,
   NewDocument,
   NewDocumentChunk,
+  NewDocumentPage,
+  NewDocumentSubChunk,
 } from '@/db';
 import type {
   DocumentStructure,
   SectionBoundary,
   SectionContent,
 } from './schemas';
-import { sql } from 'drizzle-orm';
+import { and, eq, exists, inArray, lt, not, sql } from 'drizzle-orm';
+import { EXTRACTION_PIPELINE_VERSION } from './pdf-processor';
+import { getSectionPages, joinPageTexts, type PageText } from './text-extraction';
+import { estimateTokenCount, type EmbeddedSubChunk } from './chunking';
+import { loadMetricDictionary, normalizeQuantitativeFact, queueMetricReviews } from './metric-dictionary';
+import { createGrounder, groundSectionFacts } from './grounding';
+
+/**
+ * Rows per sub-chunk insert, keeping each request well under the
+ * database driver's payload limit (every row carries a 1536-d vector)
+ */
+const SUB_CHUNK_INSERT_BATCH_SIZE = 200;
+
+/**
+ * Options for saving a document that supersedes an existing one
+ */
+export interface SaveDocumentOptions {
+  /** SHA-256 of the original file, used for duplicate detection */
+  contentHash?: string;
+  /** Locally extracted page text, stored per page and used as each chunk's text */
+  pages?: PageText[];
+  /** Embedded sub-chunks of each section (must match sections order) */
+  subChunks?: EmbeddedSubChunk[][];
+  /**
+   * Existing document to replace (deleted) or version (kept, deactivated)
+   * A document with reviewer edits is always versioned, so its reviewed
+   * facts and their audit log aren't deleted with it
+   */
+  supersedes?: {
+    docId: string;
+    mode: 'replace' | 'version';
+  };
+}
+
+/**
+ * Find the active document with the given content hash, if any
+ *
+ * @param contentHash - SHA-256 of the uploaded file
+ * @returns The existing document with its company, or null
+ */
+export async function findDocumentByContentHash(contentHash: string) {
+  const [existing] = await db
+    .select({
+      docId: documents.docId,
+      documentTitle: documents.documentTitle,
+      companyId: companies.companyId,
+      companyName: companies.name,
+      version: documents.version,
+      uploadedAt: documents.uploadedAt,
+    })
+    .from(documents)
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(and(eq(documents.contentHash, contentHash), eq(documents.isActive, true)))
+    .limit(1);
+
+  return existing ?? null;
+}
+
+/**
+ * List active documents produced by an extraction pipeline older than the given version
+ *
+ * @param belowVersion - Return documents with pipelineVersion < belowVersion
+ */
+export async function findDocumentsBelowPipelineVersion(belowVersion: number) {
+  return db
+    .select({
+      docId: documents.docId,
+      documentTitle: documents.documentTitle,
+      storagePath: documents.storagePath,
+      pipelineVersion: documents.pipelineVersion,
+      companyName: companies.name,
+    })
+    .from(documents)
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(and(lt(documents.pipelineVersion, belowVersion), eq(documents.isActive, true)))
+    .orderBy(documents.uploadedAt);
+}
+
+/**
+ * Facts of a document a reviewer has approved, edited, rejected or added
+ */
+function factEditsOf(docId: string) {
+  return db.select({ editId: factEdits.editId }).from(factEdits).where(eq(factEdits.docId, docId));
+}
 
 /**
  * Save processed document and all its chunks to the database
@@ -18,7 +103,8 @@ import { sql } from 'drizzle-orm';
  * @param sections - Section boundaries from Phase 1
  * @param contents - Section contents from Phase 2
  * @param embeddings - Generated embeddings for each section
- * @param storagePath - S3 or file storage path for the original PDF
+ * @param storagePath - Object storage key of the original PDF
+ * @param options - Content hash, page text, sub-chunks, and the document this one supersedes, if any
  * @returns Object containing created company, document, and chunk IDs
  */
 export async function saveDocumentToDatabase(
@@ -26,7 +112,8 @@ export async function saveDocumentToDatabase(
   sections: SectionBoundary[],
   contents: SectionContent[],
   embeddings: number[][],
-  storagePath: string
+  storagePath: string,
+  options: SaveDocumentOptions = {}
 ) {
   try {
     if (sections.length !== contents.length || sections.length !== embeddings.length) {
@@ -58,6 +145,27 @@ export async function saveDocumentToDatabase(
     }
 
     // Step 2: Create document
+    // A superseding document stays inactive until all its chunks are saved
+    const { contentHash, pages = [], subChunks = [] } = options;
+    let { supersedes } = options;
+    let version = 1;
+
+    if (supersedes?.mode === 'replace' && (await factEditsOf(supersedes.docId).limit(1)).length > 0) {
+      console.warn(`⚠️ Document ${supersedes.docId} has reviewed facts - keeping it as the previous version instead of replacing it`);
+      supersedes = { ...supersedes, mode: 'version' };
+    }
+
+    if (supersedes) {
+      const [previous] = await db
+        .select({ version: documents.version })
+        .from(documents)
+        .where(eq(documents.docId, supersedes.docId))
+        .limit(1);
+      if (previous) {
+        version = supersedes.mode === 'version' ? previous.version + 1 : previous.version;
+      }
+    }
+
     const newDocument: NewDocument = {
       companyId,
       filename: structure.documentTitle,
@@ -69,38 +177,116 @@ export async function saveDocumentToDatabase(
       reportingPeriod: structure.reportingPeriod,
       totalPages: structure.totalPages,
       totalChunks: sections.length,
+      contentHash,
+      version,
+      previousVersionId: supersedes?.mode === 'version' ? supersedes.docId : null,
+      isActive: !supersedes,
+      pipelineVersion: EXTRACTION_PIPELINE_VERSION,
     };
 
     const [createdDocument] = await db.insert(documents).values(newDocument).returning();
 
     // Step 3: Create all document chunks with categorized information
+    // Facts are grounded against the page text, then PAQN facts are mapped
+    // onto the metric dictionary and unscaled
+    const ground = createGrounder(pages);
+    const groundedContents = contents.map((content, index) => groundSectionFacts(content, ground, sections[index]));
+    const metricDictionary = await loadMetricDictionary();
+    const normalizedFacts = groundedContents.map(content =>
+      (content.quantitativeData || []).map(fact => normalizeQuantitativeFact(fact, metricDictionary))
+    );
+
+    // Chunk text is the verbatim text layer, falling back to the LLM's
+    // content for sections without one (e.g. scanned pages)
     const chunks: NewDocumentChunk[] = sections.map((section, index) => {
-      const content = contents[index];
+      const content = groundedContents[index];
       const embedding = embeddings[index];
+      const chunkText = joinPageTexts(getSectionPages(pages, section.pageStart, section.pageEnd)) || content.content;
 
       return {
         docId: createdDocument.docId,
         chunkIndex: index + 1,
-        chunkText: content.content,
+        chunkText,
+        summary: content.summary,
         pageStart: section.pageStart,
         pageEnd: section.pageEnd,
         sectionTitle: section.sectionTitle,
-        tokenCount: null, // Could calculate this if needed
+        tokenCount: estimateTokenCount(chunkText),
         embedding,
         // Categorized extracted information (TB, PAQL, PAQN)
         timeBasedInfo: content.timeBasedInfo || [],
         qualitativeInfo: content.qualitativeInfo || [],
-        quantitativeData: content.quantitativeData || [],
+        quantitativeData: normalizedFacts[index].map(normalized => normalized.fact),
       };
     });
 
-    const createdChunks = await db.insert(documentChunks).values(chunks).returning();
+    const pageRows: NewDocumentPage[] = pages.map(page => ({
+      docId: createdDocument.docId,
+      pageNumber: page.pageNumber,
+      text: page.text,
+      needsVisualParsing: page.needsVisualParsing,
+    }));
+
+    let createdChunks;
+    try {
+      createdChunks = await db.insert(documentChunks).values(chunks).returning();
+      if (pageRows.length > 0) {
+        await db.insert(documentPages).values(pageRows);
+      }
+
+      // Link each section's sub-chunks to the chunk created for it
+      const chunkIdByIndex = new Map(createdChunks.map(chunk => [chunk.chunkIndex, chunk.chunkId]));
+      const subChunkRows: NewDocumentSubChunk[] = subChunks.flatMap((sectionSubChunks, index) =>
+        sectionSubChunks.map(subChunk => ({
+          chunkId: chunkIdByIndex.get(index + 1)!,
+          docId: createdDocument.docId,
+          subChunkIndex: subChunk.subChunkIndex,
+          text: subChunk.text,
+          pageNumber: subChunk.pageNumber,
+          tokenCount: subChunk.tokenCount,
+          embedding: subChunk.embedding,
+        }))
+      );
+
+      for (let i = 0; i < subChunkRows.length; i += SUB_CHUNK_INSERT_BATCH_SIZE) {
+        await db.insert(documentSubChunks).values(subChunkRows.slice(i, i + SUB_CHUNK_INSERT_BATCH_SIZE));
+      }
+
+      const queuedReviews = await queueMetricReviews(createdDocument.docId, createdChunks.map(chunk => ({
+        chunkId: chunk.chunkId,
+        facts: normalizedFacts[chunk.chunkIndex - 1],
+      })));
+      if (queuedReviews > 0) {
+        console.log(`📋 ${queuedReviews} metric fact(s) queued for review`);
+      }
+    } catch (error) {
+      // Don't leave a half-saved document behind
+      await db.delete(documents).where(eq(documents.docId, createdDocument.docId));
+      throw error;
+    }
+
+    // Step 4: Swap the superseded document out
+    if (supersedes) {
+      // Single statement, so retrieval never sees both or neither as active
+      await db
+        .update(documents)
+        .set({ isActive: sql`${documents.docId} = ${createdDocument.docId}` })
+        .where(inArray(documents.docId, [supersedes.docId, createdDocument.docId]));
+
+      // Unless a review started while this one was saving
+      if (supersedes.mode === 'replace') {
+        await db
+          .delete(documents)
+          .where(and(eq(documents.docId, supersedes.docId), not(exists(factEditsOf(supersedes.docId)))));
+      }
+    }
 
     return {
       companyId,
       documentId: createdDocument.docId,
       chunkIds: createdChunks.map(chunk => chunk.chunkId),
       totalChunks: createdChunks.length,
+      totalSubChunks: subChunks.reduce((total, sectionSubChunks) => total + sectionSubChunks.length, 0),
     };
   } catch (error) {
     console.error('Error saving document to database:', error);
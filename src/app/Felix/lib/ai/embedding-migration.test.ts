@@ -0,0 +1,138 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { companies, db, documentChunks, documents, ingestionJobSections, ingestionJobs } from '@/db';
+import { EMBEDDING_DIMENSIONS, setEmbeddingProvider, type EmbeddingProvider } from '../embedding';
+import { createHashEmbeddingProvider } from '../embedding/hash';
+import { prepareSectionForEmbedding } from './embeddings';
+import { runEmbeddingMigration, startEmbeddingMigration } from './embedding-migration';
+import type { SectionContent } from './schemas';
+
+vi.mock('@/db', async () => {
+  const { createTestDatabase } = await import('@/db/test-database');
+  return { ...(await import('@/db/schema')), db: await createTestDatabase() };
+});
+
+const hash = createHashEmbeddingProvider(EMBEDDING_DIMENSIONS);
+
+// Every text the migration sends to be embedded
+const embeddedTexts: string[] = [];
+
+// Stands in for both the live model and the migration's target model
+const provider: EmbeddingProvider = {
+  name: 'model',
+  model: 'openai:text-embedding-3-small',
+  dimensions: EMBEDDING_DIMENSIONS,
+  embed: text => hash.embed(text),
+  embedMany: async texts => {
+    embeddedTexts.push(...texts);
+    return hash.embedMany(texts);
+  },
+};
+
+const sectionContent: SectionContent = {
+  content: 'Rental income rose on new leases.',
+  summary: 'Rental income rose.',
+  timeBasedInfo: [],
+  qualitativeInfo: [],
+  quantitativeData: [],
+  topics: ['leasing', 'income'],
+};
+
+// A section's verbatim text layer, far longer than a model accepts
+const longText = 'Rental income by property. '.repeat(20000);
+
+let ingestedChunkId: string;
+let legacyChunkId: string;
+
+async function nextEmbedding(chunkId: string): Promise<number[]> {
+  const result = await db.execute<{ embedding: string }>(
+    sql`select embedding_next::text as embedding from document_chunks where chunk_id = ${chunkId}`
+  );
+  return JSON.parse(result.rows[0].embedding);
+}
+
+beforeAll(async () => {
+  setEmbeddingProvider(provider);
+
+  const [company] = await db
+    .insert(companies)
+    .values({ name: 'Fixture Co', sector: 'Testing' })
+    .returning();
+
+  const [ingested, legacy] = await db
+    .insert(documents)
+    .values(['ingested', 'legacy'].map(name => ({
+      companyId: company.companyId,
+      filename: `${name}.pdf`,
+      documentTitle: `${name} report`,
+      fileType: 'pdf',
+      storagePath: `fixtures/${name}.pdf`,
+    })))
+    .returning();
+
+  const chunks = await db
+    .insert(documentChunks)
+    .values([ingested, legacy].map(document => ({
+      docId: document.docId,
+      chunkIndex: 1,
+      chunkText: longText,
+      summary: sectionContent.summary,
+      sectionTitle: 'Rental income',
+      embedding: new Array<number>(EMBEDDING_DIMENSIONS).fill(0.01),
+    })))
+    .returning();
+  [ingestedChunkId, legacyChunkId] = chunks.map(chunk => chunk.chunkId);
+
+  // Only the ingested document still has the job that saved it
+  const [job] = await db
+    .insert(ingestionJobs)
+    .values({
+      filename: 'ingested.pdf',
+      fileSize: 1,
+      contentHash: 'fixture',
+      storageKey: 'fixtures/ingested.pdf',
+      status: 'completed',
+      currentPhase: 'save',
+      documentId: ingested.docId,
+    })
+    .returning();
+  await db.insert(ingestionJobSections).values({
+    jobId: job.jobId,
+    sectionIndex: 0,
+    sectionTitle: 'Rental income',
+    pageStart: 1,
+    pageEnd: 1,
+    status: 'completed',
+    content: sectionContent,
+  });
+});
+
+afterAll(() => {
+  setEmbeddingProvider(null);
+});
+
+describe('runEmbeddingMigration', () => {
+  it('re-embeds every section and becomes ready', async () => {
+    const migration = await startEmbeddingMigration('openai:text-embedding-3-large');
+    const report = await runEmbeddingMigration(migration.migrationId);
+
+    expect(report.status).toBe('ready');
+    expect(report.failed).toBe(0);
+  });
+
+  it('embeds a section from the same text as ingestion', async () => {
+    const ingestionText = prepareSectionForEmbedding('Rental income', sectionContent);
+
+    expect(embeddedTexts).toContain(ingestionText);
+    expect(await nextEmbedding(ingestedChunkId)).toEqual(
+      (await hash.embed(ingestionText)).map(value => expect.closeTo(value, 5))
+    );
+  });
+
+  it('keeps a section without its job within the input limit', async () => {
+    const legacyText = embeddedTexts.find(text => text.includes('Rental income by property'));
+
+    expect(legacyText?.length).toBeLessThanOrEqual(24000);
+    expect((await nextEmbedding(legacyChunkId)).length).toBe(EMBEDDING_DIMENSIONS);
+  });
+});
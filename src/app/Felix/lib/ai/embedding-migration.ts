@@ -0,0 +1,519 @@
+import {
+  db,
+  companies,
+  documentChunks,
+  documentSubChunks,
+  documents,
+  embeddingMigrationDocuments,
+  embeddingMigrations,
+  ingestionJobSections,
+  ingestionJobs,
+} from '@/db';
+import type { EmbeddingMigration } from '@/db';
+import { and, asc, desc, eq, inArray, ne, sql, type SQL, type SQLWrapper } from 'drizzle-orm';
+import { prepareSectionForEmbedding, prepareTextForEmbedding } from './embeddings';
+import { formatModelSpec, parseModelSpec } from './models';
+import {
+  EMBEDDING_DIMENSIONS,
+  clearActiveEmbeddingModel,
+  getActiveEmbeddingProvider,
+  getEmbeddingProvider,
+  type EmbeddingProvider,
+} from '../embedding';
+import type {
+  EmbeddingMigrationDocumentProgress,
+  EmbeddingMigrationReport,
+} from '../../types/embedding-migration';
+
+/**
+ * Columns holding the embeddings being built, the live ones, and the ones an
+ * activation replaced (kept for rollback until dropped)
+ * All three are declared in the Drizzle schema, so db:push leaves them be -
+ * every statement here must leave each of them in place, as vector(1536)
+ */
+const NEXT_COLUMN = 'embedding_next';
+const LIVE_COLUMN = 'embedding';
+const PREVIOUS_COLUMN = 'embedding_previous';
+
+/**
+ * Tables with an embedding column, and the name of its HNSW index
+ * (see bootstrap-indexes.sql)
+ */
+const EMBEDDING_TABLES = [
+  { table: 'document_chunks', idColumn: 'chunk_id', index: 'idx_chunks_embedding_hnsw' },
+  { table: 'document_sub_chunks', idColumn: 'sub_chunk_id', index: 'idx_sub_chunks_embedding_hnsw' },
+];
+
+const DEFAULT_BATCH_SIZE = 100;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface EmbeddingMigrationOptions {
+  batchSize?: number;
+  onDocument?: (progress: EmbeddingMigrationDocumentProgress) => void;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Run DDL, which can't take bind parameters
+ */
+async function executeStatements(statements: string[]) {
+  for (const statement of statements) {
+    await db.execute(sql.raw(statement));
+  }
+}
+
+function isNextEmbeddingMissing(table: SQLWrapper): SQL {
+  return sql`${table}.${sql.identifier(NEXT_COLUMN)} is null`;
+}
+
+/**
+ * Write a batch of vectors to the new embedding column in one statement
+ */
+async function writeNextEmbeddings(
+  table: (typeof EMBEDDING_TABLES)[number],
+  rows: Array<{ id: string; embedding: number[] }>
+) {
+  const values = sql.join(
+    rows.map(row => sql`(${row.id}::uuid, ${JSON.stringify(row.embedding)})`),
+    sql`, `
+  );
+
+  await db.execute(sql`
+    update ${sql.identifier(table.table)} as target
+    set ${sql.identifier(NEXT_COLUMN)} = batch.embedding::vector
+    from (values ${values}) as batch (id, embedding)
+    where target.${sql.identifier(table.idColumn)} = batch.id
+  `);
+}
+
+/**
+ * Re-embed a document's sections and sub-chunks that don't have a new
+ * embedding yet, from the same text ingestion embedded them from
+ * A section's extracted content and topics are only kept by the ingestion
+ * job that saved it; sections without one (e.g. saved before jobs existed)
+ * are embedded from their title, summary and text instead
+ */
+async function migrateDocument(
+  migrationId: string,
+  docId: string,
+  provider: EmbeddingProvider,
+  batchSize: number
+) {
+  const [chunkTable, subChunkTable] = EMBEDDING_TABLES;
+  const progressRow = and(
+    eq(embeddingMigrationDocuments.migrationId, migrationId),
+    eq(embeddingMigrationDocuments.docId, docId)
+  );
+
+  const sections = await db
+    .select({
+      id: documentChunks.chunkId,
+      sectionTitle: documentChunks.sectionTitle,
+      summary: documentChunks.summary,
+      chunkText: documentChunks.chunkText,
+      content: ingestionJobSections.content,
+    })
+    .from(documentChunks)
+    .leftJoin(ingestionJobs, and(
+      eq(ingestionJobs.documentId, documentChunks.docId),
+      eq(ingestionJobs.status, 'completed')
+    ))
+    .leftJoin(ingestionJobSections, and(
+      eq(ingestionJobSections.jobId, ingestionJobs.jobId),
+      eq(ingestionJobSections.sectionIndex, sql`${documentChunks.chunkIndex} - 1`)
+    ))
+    .where(and(eq(documentChunks.docId, docId), isNextEmbeddingMissing(documentChunks)))
+    .orderBy(asc(documentChunks.chunkIndex));
+
+  for (let start = 0; start < sections.length; start += batchSize) {
+    const batch = sections.slice(start, start + batchSize);
+    const embeddings = await provider.embedMany(batch.map(section =>
+      section.content
+        ? prepareSectionForEmbedding(section.sectionTitle ?? '', section.content)
+        : prepareTextForEmbedding(section.chunkText, {
+            title: section.sectionTitle ?? undefined,
+            summary: section.summary ?? undefined,
+          })
+    ));
+
+    await writeNextEmbeddings(chunkTable, batch.map((section, index) => ({
+      id: section.id,
+      embedding: embeddings[index],
+    })));
+    await db
+      .update(embeddingMigrationDocuments)
+      .set({
+        chunksEmbedded: sql`${embeddingMigrationDocuments.chunksEmbedded} + ${batch.length}`,
+        updatedAt: new Date(),
+      })
+      .where(progressRow);
+  }
+
+  const subChunks = await db
+    .select({
+      id: documentSubChunks.subChunkId,
+      text: documentSubChunks.text,
+      sectionTitle: documentChunks.sectionTitle,
+    })
+    .from(documentSubChunks)
+    .innerJoin(documentChunks, eq(documentSubChunks.chunkId, documentChunks.chunkId))
+    .where(and(eq(documentSubChunks.docId, docId), isNextEmbeddingMissing(documentSubChunks)))
+    .orderBy(asc(documentChunks.chunkIndex), asc(documentSubChunks.subChunkIndex));
+
+  for (let start = 0; start < subChunks.length; start += batchSize) {
+    const batch = subChunks.slice(start, start + batchSize);
+    const embeddings = await provider.embedMany(batch.map(subChunk =>
+      prepareTextForEmbedding(subChunk.text, { title: subChunk.sectionTitle ?? undefined })
+    ));
+
+    await writeNextEmbeddings(subChunkTable, batch.map((subChunk, index) => ({
+      id: subChunk.id,
+      embedding: embeddings[index],
+    })));
+    await db
+      .update(embeddingMigrationDocuments)
+      .set({
+        subChunksEmbedded: sql`${embeddingMigrationDocuments.subChunksEmbedded} + ${batch.length}`,
+        updatedAt: new Date(),
+      })
+      .where(progressRow);
+  }
+}
+
+/**
+ * Number of rows that have a live embedding but no new one
+ */
+async function countMissingEmbeddings(): Promise<number> {
+  let missing = 0;
+
+  for (const { table } of EMBEDDING_TABLES) {
+    const result = await db.execute<{ missing: number }>(sql`
+      select count(*)::int as missing from ${sql.identifier(table)}
+      where ${sql.identifier(LIVE_COLUMN)} is not null and ${isNextEmbeddingMissing(sql.identifier(table))}
+    `);
+    missing += Number(result.rows[0]?.missing ?? 0);
+  }
+
+  return missing;
+}
+
+/**
+ * Add every document that isn't tracked yet, including ones uploaded while
+ * the migration was running
+ */
+async function registerDocuments(migrationId: string) {
+  const docs = await db.select({ docId: documents.docId }).from(documents);
+  if (docs.length === 0) {
+    return;
+  }
+
+  await db
+    .insert(embeddingMigrationDocuments)
+    .values(docs.map(doc => ({ migrationId, docId: doc.docId })))
+    .onConflictDoNothing();
+}
+
+async function findDocumentsToMigrate(migrationId: string, includeFailed: boolean) {
+  return db
+    .select({
+      docId: embeddingMigrationDocuments.docId,
+      documentTitle: documents.documentTitle,
+      companyName: companies.name,
+    })
+    .from(embeddingMigrationDocuments)
+    .innerJoin(documents, eq(embeddingMigrationDocuments.docId, documents.docId))
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(and(
+      eq(embeddingMigrationDocuments.migrationId, migrationId),
+      includeFailed
+        ? ne(embeddingMigrationDocuments.status, 'completed')
+        : eq(embeddingMigrationDocuments.status, 'pending')
+    ))
+    .orderBy(asc(documents.uploadedAt));
+}
+
+async function getMigration(migrationId: string): Promise<EmbeddingMigration> {
+  const [migration] = await db
+    .select()
+    .from(embeddingMigrations)
+    .where(eq(embeddingMigrations.migrationId, migrationId))
+    .limit(1);
+
+  if (!migration) {
+    throw new Error(`Embedding migration ${migrationId} not found`);
+  }
+
+  return migration;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Get the latest migration that hasn't been activated yet
+ */
+export async function findUnfinishedEmbeddingMigration(): Promise<EmbeddingMigration | null> {
+  const [migration] = await db
+    .select()
+    .from(embeddingMigrations)
+    .where(inArray(embeddingMigrations.status, ['running', 'ready']))
+    .orderBy(desc(embeddingMigrations.createdAt))
+    .limit(1);
+
+  return migration ?? null;
+}
+
+/**
+ * Start migrating every stored embedding to another model, or return the
+ * unfinished migration to that model so it can be resumed
+ * An unfinished migration to a different model is discarded
+ *
+ * @param targetSpec - Target model as `provider:model`
+ * @returns The migration to run
+ */
+export async function startEmbeddingMigration(targetSpec: string): Promise<EmbeddingMigration> {
+  if (process.env.EMBEDDING_PROVIDER === 'hash') {
+    throw new Error('Embedding migrations need EMBEDDING_PROVIDER=model');
+  }
+
+  const target = parseModelSpec('embedding', targetSpec);
+  const targetModel = formatModelSpec(target);
+  const current = await getActiveEmbeddingProvider();
+
+  if (current.model === targetModel) {
+    throw new Error(`${targetModel} is already the active embedding model`);
+  }
+
+  const unfinished = await findUnfinishedEmbeddingMigration();
+  if (unfinished?.targetModel === targetModel) {
+    return unfinished;
+  }
+
+  // Fail on a wrong dimension before touching the schema
+  await getEmbeddingProvider(target).embed('Embedding dimension check');
+
+  if (unfinished) {
+    console.log(`🗑️ Discarding the unfinished migration to ${unfinished.targetModel}`);
+    await db.delete(embeddingMigrations).where(eq(embeddingMigrations.migrationId, unfinished.migrationId));
+  }
+
+  // Start from an empty column - it may hold a discarded migration's vectors
+  // Re-adding is cheaper than clearing every row
+  await executeStatements(EMBEDDING_TABLES.flatMap(({ table }) => [
+    `ALTER TABLE ${table} DROP COLUMN IF EXISTS ${NEXT_COLUMN}`,
+    `ALTER TABLE ${table} ADD COLUMN ${NEXT_COLUMN} vector(${EMBEDDING_DIMENSIONS})`,
+  ]));
+
+  const [migration] = await db
+    .insert(embeddingMigrations)
+    .values({ targetModel, previousModel: current.model })
+    .returning();
+
+  return migration;
+}
+
+/**
+ * Re-embed every document into the new column, resuming where a previous run
+ * stopped and retrying failed documents once
+ * When every row has a new embedding, the HNSW indexes are built and the
+ * migration becomes ready to activate
+ *
+ * @param migrationId - Migration to run
+ * @param options - Batch size and a per-document progress callback
+ * @returns Per-document progress
+ */
+export async function runEmbeddingMigration(
+  migrationId: string,
+  options: EmbeddingMigrationOptions = {}
+): Promise<EmbeddingMigrationReport> {
+  const migration = await getMigration(migrationId);
+  if (migration.status !== 'running' && migration.status !== 'ready') {
+    throw new Error(`Embedding migration ${migrationId} is ${migration.status}`);
+  }
+
+  const provider = getEmbeddingProvider(parseModelSpec('embedding', migration.targetModel));
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+
+  // The first pass retries failed documents, later ones pick up documents
+  // uploaded while the previous pass ran
+  for (let pass = 0; ; pass++) {
+    await registerDocuments(migrationId);
+    const docs = await findDocumentsToMigrate(migrationId, pass === 0);
+    if (docs.length === 0) {
+      break;
+    }
+
+    for (const doc of docs) {
+      const progressRow = and(
+        eq(embeddingMigrationDocuments.migrationId, migrationId),
+        eq(embeddingMigrationDocuments.docId, doc.docId)
+      );
+
+      try {
+        await migrateDocument(migrationId, doc.docId, provider, batchSize);
+        await db
+          .update(embeddingMigrationDocuments)
+          .set({ status: 'completed', error: null, updatedAt: new Date() })
+          .where(progressRow);
+      } catch (error) {
+        await db
+          .update(embeddingMigrationDocuments)
+          .set({
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'Unknown error',
+            updatedAt: new Date(),
+          })
+          .where(progressRow);
+      }
+
+      if (options.onDocument) {
+        const [progress] = await db
+          .select({
+            status: embeddingMigrationDocuments.status,
+            chunksEmbedded: embeddingMigrationDocuments.chunksEmbedded,
+            subChunksEmbedded: embeddingMigrationDocuments.subChunksEmbedded,
+            error: embeddingMigrationDocuments.error,
+          })
+          .from(embeddingMigrationDocuments)
+          .where(progressRow);
+        options.onDocument({ ...doc, ...progress });
+      }
+    }
+  }
+
+  const report = await getEmbeddingMigrationReport(migrationId);
+
+  if (report.failed === 0 && report.pending === 0 && (await countMissingEmbeddings()) === 0) {
+    console.log('🔧 Building HNSW indexes on the new embeddings...');
+    await executeStatements(EMBEDDING_TABLES.map(({ table, index }) =>
+      `CREATE INDEX IF NOT EXISTS ${index}_next ON ${table} USING hnsw (${NEXT_COLUMN} vector_cosine_ops)`
+    ));
+
+    await db
+      .update(embeddingMigrations)
+      .set({ status: 'ready', completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(embeddingMigrations.migrationId, migrationId));
+
+    return { ...report, status: 'ready' };
+  }
+
+  await db
+    .update(embeddingMigrations)
+    .set({ status: 'running', updatedAt: new Date() })
+    .where(eq(embeddingMigrations.migrationId, migrationId));
+
+  return { ...report, status: 'running' };
+}
+
+/**
+ * Switch retrieval and ingestion to a ready migration's embeddings
+ * The columns and indexes are swapped and the migration marked active in one
+ * statement; the replaced embeddings are kept as embedding_previous
+ *
+ * @param migrationId - A migration with status 'ready'
+ */
+export async function activateEmbeddingMigration(migrationId: string) {
+  const migration = await getMigration(migrationId);
+  if (migration.status !== 'ready') {
+    throw new Error(`Embedding migration ${migrationId} is ${migration.status}, not ready`);
+  }
+  if (!UUID_PATTERN.test(migrationId)) {
+    throw new Error(`Invalid migration ID: ${migrationId}`);
+  }
+
+  // A job that embedded with the old model would save incompatible vectors
+  const [{ activeJobs }] = await db
+    .select({ activeJobs: sql<number>`count(*)::int` })
+    .from(ingestionJobs)
+    .where(inArray(ingestionJobs.status, ['pending', 'running']));
+  if (activeJobs > 0) {
+    throw new Error(`${activeJobs} ingestion job(s) are still pending or running - finish them before activating`);
+  }
+
+  const missing = await countMissingEmbeddings();
+  if (missing > 0) {
+    await db
+      .update(embeddingMigrations)
+      .set({ status: 'running', updatedAt: new Date() })
+      .where(eq(embeddingMigrations.migrationId, migrationId));
+    throw new Error(`${missing} row(s) were added since the migration finished - run it again before activating`);
+  }
+
+  // The new indexes aren't in the Drizzle schema, so a db:push since the
+  // migration finished may have dropped them
+  await executeStatements(EMBEDDING_TABLES.map(({ table, index }) =>
+    `CREATE INDEX IF NOT EXISTS ${index}_next ON ${table} USING hnsw (${NEXT_COLUMN} vector_cosine_ops)`
+  ));
+
+  // An empty next column is added back, so the schema matches Drizzle's again
+  const swaps = EMBEDDING_TABLES.flatMap(({ table, index }) => [
+    `ALTER TABLE ${table} DROP COLUMN IF EXISTS ${PREVIOUS_COLUMN}`,
+    `ALTER TABLE ${table} RENAME COLUMN ${LIVE_COLUMN} TO ${PREVIOUS_COLUMN}`,
+    `ALTER TABLE ${table} RENAME COLUMN ${NEXT_COLUMN} TO ${LIVE_COLUMN}`,
+    `ALTER TABLE ${table} ADD COLUMN ${NEXT_COLUMN} vector(${EMBEDDING_DIMENSIONS})`,
+    `ALTER INDEX IF EXISTS ${index} RENAME TO ${index}_previous`,
+    `ALTER INDEX ${index}_next RENAME TO ${index}`,
+  ]);
+
+  // A DO block runs as one statement, so retrieval never sees a half-swapped schema
+  await executeStatements([`DO $$ BEGIN
+    ${swaps.join(';\n    ')};
+    UPDATE embedding_migrations SET status = 'superseded', updated_at = now() WHERE status = 'active';
+    UPDATE embedding_migrations SET status = 'active', activated_at = now(), updated_at = now()
+      WHERE migration_id = '${migrationId}';
+  END $$`]);
+
+  clearActiveEmbeddingModel();
+}
+
+/**
+ * Drop the embeddings replaced by the last activation, leaving the column empty
+ * After this the activation can no longer be rolled back by hand
+ */
+export async function dropPreviousEmbeddings() {
+  await executeStatements(EMBEDDING_TABLES.flatMap(({ table }) => [
+    `ALTER TABLE ${table} DROP COLUMN IF EXISTS ${PREVIOUS_COLUMN}`,
+    `ALTER TABLE ${table} ADD COLUMN ${PREVIOUS_COLUMN} vector(${EMBEDDING_DIMENSIONS})`,
+  ]));
+}
+
+/**
+ * Get per-document progress of a migration
+ *
+ * @param migrationId - Migration to report on
+ * @returns Migration status with every tracked document's progress
+ */
+export async function getEmbeddingMigrationReport(migrationId: string): Promise<EmbeddingMigrationReport> {
+  const migration = await getMigration(migrationId);
+
+  const rows = await db
+    .select({
+      docId: embeddingMigrationDocuments.docId,
+      documentTitle: documents.documentTitle,
+      companyName: companies.name,
+      status: embeddingMigrationDocuments.status,
+      chunksEmbedded: embeddingMigrationDocuments.chunksEmbedded,
+      subChunksEmbedded: embeddingMigrationDocuments.subChunksEmbedded,
+      error: embeddingMigrationDocuments.error,
+    })
+    .from(embeddingMigrationDocuments)
+    .innerJoin(documents, eq(embeddingMigrationDocuments.docId, documents.docId))
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(eq(embeddingMigrationDocuments.migrationId, migrationId))
+    .orderBy(asc(documents.uploadedAt));
+
+  return {
+    migrationId,
+    targetModel: migration.targetModel,
+    status: migration.status,
+    completed: rows.filter(row => row.status === 'completed').length,
+    failed: rows.filter(row => row.status === 'failed').length,
+    pending: rows.filter(row => row.status === 'pending').length,
+    documents: rows,
+  };
+}
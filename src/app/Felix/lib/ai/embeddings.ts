@@ -1,17 +1,20 @@
-import { embedMany } from 'ai';
-import { openai } from '@ai-sdk/openai';
 import type { SectionBoundary, SectionContent } from './schemas';
+import type { EmbeddedSubChunk, SubChunk } from './chunking';
+import { getActiveEmbeddingProvider } from '../embedding';
 
 /**
- * The embedding model to use (1536 dimensions - matches our DB schema)
+ * Longest text sent to be embedded, in characters: about 6,000 tokens, under
+ * the 8,191-token input limit of OpenAI's embedding models with room for
+ * dense text (numbers, tables) running above 4 characters a token
  */
-const EMBEDDING_MODEL = 'text-embedding-3-small';
+const MAX_EMBEDDING_INPUT_CHARS = 24000;
 
 /**
  * Prepare text for embedding by combining content and metadata
  * This creates a richer semantic representation for better retrieval
+ * Content is cut to keep the whole text within the model's input limit
  */
-function prepareTextForEmbedding(
+export function prepareTextForEmbedding(
   content: string,
   metadata?: {
     title?: string;
@@ -33,9 +36,25 @@ function prepareTextForEmbedding(
     parts.push(`Topics: ${metadata.topics.join(', ')}`);
   }
 
-  parts.push(`Content: ${content}`);
+  const header = parts.map(part => `${part}\n\n`).join('');
+  const room = Math.max(0, MAX_EMBEDDING_INPUT_CHARS - header.length - 'Content: '.length);
 
-  return parts.join('\n\n');
+  return `${header}Content: ${content.slice(0, room)}`;
+}
+
+/**
+ * Text a section is embedded from: its extracted content, summary and
+ * topics, under its title
+ */
+export function prepareSectionForEmbedding(
+  sectionTitle: string,
+  content: Pick<SectionContent, 'content' | 'summary' | 'topics'>
+): string {
+  return prepareTextForEmbedding(content.content, {
+    title: sectionTitle,
+    summary: content.summary,
+    topics: content.topics,
+  });
 }
 
 /**
@@ -44,7 +63,7 @@ function prepareTextForEmbedding(
  *
  * @param sections - Array of section boundaries
  * @param contents - Array of section contents (must match sections order)
- * @returns Array of embedding vectors (1536 dimensions each)
+ * @returns Array of embedding vectors (EMBEDDING_DIMENSIONS each)
  */
 export async function generateSectionEmbeddings(
   sections: SectionBoundary[],
@@ -56,22 +75,13 @@ export async function generateSectionEmbeddings(
     }
 
     // Prepare all texts for embedding
-    const textsToEmbed = sections.map((section, index) => {
-      const content = contents[index];
-      return prepareTextForEmbedding(content.content, {
-        title: section.sectionTitle,
-        summary: content.summary,
-        topics: content.topics,
-      });
-    });
+    const textsToEmbed = sections.map((section, index) =>
+      prepareSectionForEmbedding(section.sectionTitle, contents[index])
+    );
 
     // Generate all embeddings in one batch
-    const { embeddings } = await embedMany({
-      model: openai.textEmbeddingModel(EMBEDDING_MODEL),
-      values: textsToEmbed,
-    });
-
-    return embeddings;
+    const provider = await getActiveEmbeddingProvider();
+    return await provider.embedMany(textsToEmbed);
   } catch (error) {
     console.error('Error generating section embeddings:', error);
     throw new Error(
@@ -79,3 +89,45 @@ export async function generateSectionEmbeddings(
     );
   }
 }
+
+/**
+ * Generate embeddings for every sub-chunk of every section in a single batch
+ * Each sub-chunk is embedded with its section title for context
+ *
+ * @param sections - Array of section boundaries
+ * @param subChunks - Sub-chunks of each section (must match sections order)
+ * @returns The same sub-chunks with their embeddings, grouped by section
+ */
+export async function generateSubChunkEmbeddings(
+  sections: SectionBoundary[],
+  subChunks: SubChunk[][]
+): Promise<EmbeddedSubChunk[][]> {
+  try {
+    if (sections.length !== subChunks.length) {
+      throw new Error('Sections and sub-chunks arrays must have the same length');
+    }
+
+    const textsToEmbed = sections.flatMap((section, index) =>
+      subChunks[index].map(subChunk =>
+        prepareTextForEmbedding(subChunk.text, { title: section.sectionTitle })
+      )
+    );
+
+    if (textsToEmbed.length === 0) {
+      return subChunks.map(() => []);
+    }
+
+    const provider = await getActiveEmbeddingProvider();
+    const embeddings = await provider.embedMany(textsToEmbed);
+
+    let offset = 0;
+    return subChunks.map(sectionSubChunks =>
+      sectionSubChunks.map(subChunk => ({ ...subChunk, embedding: embeddings[offset++] }))
+    );
+  } catch (error) {
+    console.error('Error generating sub-chunk embeddings:', error);
+    throw new Error(
+      `Failed to generate sub-chunk embeddings: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { db } from '@/db';
+import { chatFeedback } from '@/db/schema';
+import { asc } from 'drizzle-orm';
+import { retrieveContext } from './rag';
+import type {
+  EvaluationExample,
+  ExampleEvaluation,
+  RetrievalEvaluation,
+  RetrievalEvaluationOptions,
+} from '../../types/feedback';
+
+export const DEFAULT_EVALUATION_OPTIONS: RetrievalEvaluationOptions = {
+  k: 5,
+  similarityThreshold: 0.6,
+  level: 'subChunk',
+  mode: 'hybrid',
+  reranker: null,
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Share of the relevant chunks that appear in the top k retrieved
+ */
+export function recallAtK(retrieved: string[], relevant: string[], k: number): number {
+  const topK = new Set(retrieved.slice(0, k));
+  return relevant.filter(chunkId => topK.has(chunkId)).length / relevant.length;
+}
+
+/**
+ * 1 / rank of the first relevant chunk in the top k, or 0 if none is there
+ */
+export function reciprocalRank(retrieved: string[], relevant: string[], k: number): number {
+  const relevantIds = new Set(relevant);
+  const rank = retrieved.slice(0, k).findIndex(chunkId => relevantIds.has(chunkId));
+  return rank >= 0 ? 1 / (rank + 1) : 0;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Turn every piece of answer feedback into a replayable retrieval case
+ * Positively rated answers are labelled with the sources they cited, or all
+ * their sources if they cited none
+ */
+export async function exportEvaluationSet(): Promise<EvaluationExample[]> {
+  try {
+    const rows = await db
+      .select()
+      .from(chatFeedback)
+      .orderBy(asc(chatFeedback.createdAt));
+
+    return rows.map(row => ({
+      feedbackId: row.feedbackId,
+      question: row.question,
+      query: row.retrievalQuery,
+      scope: row.scope,
+      rating: row.rating,
+      correction: row.correction,
+      answer: row.answer,
+      retrievedChunkIds: row.retrievedChunkIds,
+      relevantChunkIds: row.rating === 'up'
+        ? (row.citedChunkIds.length > 0 ? row.citedChunkIds : row.retrievedChunkIds)
+        : [],
+    }));
+  } catch (error) {
+    console.error('Error exporting evaluation set:', error);
+    throw new Error(
+      `Failed to export evaluation set: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Replay evaluation examples against retrieveContext and score the rankings
+ * Examples without relevant chunks are skipped
+ *
+ * @param examples - Exported (and possibly hand-labelled) examples
+ * @param options - Retrieval settings to evaluate
+ * @returns Hit rate, mean recall@k and MRR, with per-example scores
+ */
+export async function evaluateRetrieval(
+  examples: EvaluationExample[],
+  options: Partial<RetrievalEvaluationOptions> = {}
+): Promise<RetrievalEvaluation> {
+  const resolved = { ...DEFAULT_EVALUATION_OPTIONS, ...options };
+  const results: ExampleEvaluation[] = [];
+
+  // Sequential, to stay within the embedding API's rate limits
+  for (const example of examples) {
+    if (example.relevantChunkIds.length === 0) {
+      results.push({
+        feedbackId: example.feedbackId,
+        query: example.query,
+        recall: null,
+        reciprocalRank: null,
+        retrievedChunkIds: [],
+      });
+      continue;
+    }
+
+    const { chunks } = await retrieveContext(example.query, example.scope, {
+      limit: resolved.k,
+      similarityThreshold: resolved.similarityThreshold,
+      level: resolved.level,
+      mode: resolved.mode,
+      reranker: resolved.reranker,
+    });
+    const retrievedChunkIds = chunks.map(chunk => chunk.chunkId);
+
+    results.push({
+      feedbackId: example.feedbackId,
+      query: example.query,
+      recall: recallAtK(retrievedChunkIds, example.relevantChunkIds, resolved.k),
+      reciprocalRank: reciprocalRank(retrievedChunkIds, example.relevantChunkIds, resolved.k),
+      retrievedChunkIds,
+    });
+  }
+
+  const evaluated = results.filter(result => result.recall !== null);
+
+  return {
+    options: resolved,
+    evaluated: evaluated.length,
+    skipped: results.length - evaluated.length,
+    hitRate: average(evaluated.map(result => ((result.reciprocalRank ?? 0) > 0 ? 1 : 0))),
+    recallAtK: average(evaluated.map(result => result.recall ?? 0)),
+    mrr: average(evaluated.map(result => result.reciprocalRank ?? 0)),
+    examples: results,
+  };
+}
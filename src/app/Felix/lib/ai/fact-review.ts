@@ -0,0 +1,326 @@
+import {
+  db,
+  companies,
+  documentChunks,
+  documents,
+  factEdits,
+  metricReviewQueue,
+} from '@/db';
+import { and, asc, desc, eq, sql, type SQL } from 'drizzle-orm';
+import { groundFact, loadDocumentGrounder } from './grounding';
+import { loadMetricDictionary, normalizeQuantitativeFact } from './metric-dictionary';
+import {
+  qualitativeInfoSchema,
+  quantitativeDataSchema,
+  timeBasedInfoSchema,
+  type FactReview,
+  type FactReviewStatus,
+  type StoredFact,
+} from './schemas';
+import type {
+  DocumentFactReview,
+  FactEditInput,
+  FactInput,
+  FactLayer,
+  FactReviewDocument,
+} from '../../types/fact-review';
+
+/**
+ * Edits listed with a document's review, newest first
+ */
+const MAX_LISTED_EDITS = 200;
+
+/**
+ * Column holding each layer's facts
+ */
+const FACT_COLUMNS = {
+  TB: documentChunks.timeBasedInfo,
+  PAQL: documentChunks.qualitativeInfo,
+  PAQN: documentChunks.quantitativeData,
+};
+
+const FACT_SCHEMAS = {
+  TB: timeBasedInfoSchema,
+  PAQL: qualitativeInfoSchema,
+  PAQN: quantitativeDataSchema,
+};
+
+type AnyFact = StoredFact<Record<string, unknown>>;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function setFactColumn(layer: FactLayer, value: SQL) {
+  switch (layer) {
+    case 'TB':
+      return { timeBasedInfo: value };
+    case 'PAQL':
+      return { qualitativeInfo: value };
+    case 'PAQN':
+      return { quantitativeData: value };
+  }
+}
+
+/**
+ * Count a column's facts, and those a reviewer has looked at
+ */
+function countFacts(column: (typeof FACT_COLUMNS)[FactLayer]) {
+  return {
+    total: sql<number>`coalesce(jsonb_array_length(${column}), 0)`,
+    reviewed: sql<number>`(select count(*) from jsonb_array_elements(coalesce(${column}, '[]'::jsonb)) as fact where fact ? 'review')`,
+  };
+}
+
+/**
+ * Validate a reviewer's fact against the extraction schema of its layer
+ * PAQN facts are normalized like extracted ones, so edits stay comparable.
+ * The reviewer's source text is grounded like extracted text, so a quote
+ * that isn't in the document is still flagged
+ */
+async function buildFact(
+  layer: FactLayer,
+  input: FactInput,
+  review: FactReview,
+  section: { docId: string; pageStart: number | null; pageEnd: number | null }
+): Promise<AnyFact> {
+  const parsed = FACT_SCHEMAS[layer].safeParse({ ...input, category: layer, confidence: 1 });
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid ${layer} fact: ${parsed.error.issues.map(issue => `${issue.path.join('.')} ${issue.message}`).join(', ')}`
+    );
+  }
+
+  const fact = parsed.data.category === 'PAQN'
+    ? normalizeQuantitativeFact(parsed.data, await loadMetricDictionary()).fact
+    : parsed.data;
+  const ground = await loadDocumentGrounder(section.docId);
+
+  return { ...groundFact(fact, ground, section.pageStart, section.pageEnd), review };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * List active documents with how many of their facts have been reviewed
+ */
+export async function listFactReviewDocuments(): Promise<FactReviewDocument[]> {
+  try {
+    const tb = countFacts(documentChunks.timeBasedInfo);
+    const paql = countFacts(documentChunks.qualitativeInfo);
+    const paqn = countFacts(documentChunks.quantitativeData);
+
+    const rows = await db
+      .select({
+        docId: documents.docId,
+        documentTitle: documents.documentTitle,
+        documentDate: documents.documentDate,
+        companyName: companies.name,
+        factCount: sql<number>`coalesce(sum(${tb.total} + ${paql.total} + ${paqn.total}), 0)::int`,
+        reviewedCount: sql<number>`coalesce(sum(${tb.reviewed} + ${paql.reviewed} + ${paqn.reviewed}), 0)::int`,
+      })
+      .from(documents)
+      .innerJoin(companies, eq(documents.companyId, companies.companyId))
+      .leftJoin(documentChunks, eq(documentChunks.docId, documents.docId))
+      .where(eq(documents.isActive, true))
+      .groupBy(documents.docId, documents.documentTitle, documents.documentDate, companies.name)
+      .orderBy(companies.name, desc(documents.documentDate));
+
+    return rows;
+  } catch (error) {
+    console.error('Error listing documents for review:', error);
+    throw new Error(
+      `Failed to list documents for review: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Load a document's sections with their facts and source text, and the
+ * edits made to them
+ *
+ * @param docId - Document to review
+ * @returns The document's review, or null if it doesn't exist
+ */
+export async function getDocumentFactReview(docId: string): Promise<DocumentFactReview | null> {
+  try {
+    const [document] = await db
+      .select({
+        docId: documents.docId,
+        documentTitle: documents.documentTitle,
+        documentDate: documents.documentDate,
+        companyName: companies.name,
+      })
+      .from(documents)
+      .innerJoin(companies, eq(documents.companyId, companies.companyId))
+      .where(eq(documents.docId, docId))
+      .limit(1);
+
+    if (!document) {
+      return null;
+    }
+
+    const chunks = await db
+      .select({
+        chunkId: documentChunks.chunkId,
+        chunkIndex: documentChunks.chunkIndex,
+        sectionTitle: documentChunks.sectionTitle,
+        pageStart: documentChunks.pageStart,
+        pageEnd: documentChunks.pageEnd,
+        chunkText: documentChunks.chunkText,
+        timeBasedInfo: documentChunks.timeBasedInfo,
+        qualitativeInfo: documentChunks.qualitativeInfo,
+        quantitativeData: documentChunks.quantitativeData,
+      })
+      .from(documentChunks)
+      .where(eq(documentChunks.docId, docId))
+      .orderBy(asc(documentChunks.chunkIndex));
+
+    const edits = await db
+      .select({
+        editId: factEdits.editId,
+        chunkId: factEdits.chunkId,
+        sectionTitle: documentChunks.sectionTitle,
+        layer: factEdits.layer,
+        factIndex: factEdits.factIndex,
+        action: factEdits.action,
+        before: factEdits.before,
+        after: factEdits.after,
+        editedBy: factEdits.editedBy,
+        note: factEdits.note,
+        createdAt: factEdits.createdAt,
+      })
+      .from(factEdits)
+      .innerJoin(documentChunks, eq(factEdits.chunkId, documentChunks.chunkId))
+      .where(eq(factEdits.docId, docId))
+      .orderBy(desc(factEdits.createdAt))
+      .limit(MAX_LISTED_EDITS);
+
+    return {
+      ...document,
+      sections: chunks.map(chunk => ({
+        ...chunk,
+        timeBasedInfo: chunk.timeBasedInfo ?? [],
+        qualitativeInfo: chunk.qualitativeInfo ?? [],
+        quantitativeData: chunk.quantitativeData ?? [],
+      })),
+      edits,
+    };
+  } catch (error) {
+    console.error('Error loading document facts for review:', error);
+    throw new Error(
+      `Failed to load document facts: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Approve, edit, reject, restore or add a fact, and record the change
+ * Facts are never removed, so positions referenced elsewhere (the metric
+ * review queue, earlier edits) stay valid. The fact is only written if it
+ * is unchanged since it was read, so concurrent edits can't overwrite each other
+ *
+ * @param input - The change, addressed by section, layer and fact position
+ * @param editedBy - User making the change
+ * @returns The fact's position and its stored value after the change
+ */
+export async function applyFactEdit(input: FactEditInput, editedBy: string) {
+  const { chunkId, layer, action } = input;
+  const column = FACT_COLUMNS[layer];
+
+  const [chunk] = await db
+    .select({
+      docId: documentChunks.docId,
+      pageStart: documentChunks.pageStart,
+      pageEnd: documentChunks.pageEnd,
+      facts: column,
+    })
+    .from(documentChunks)
+    .where(eq(documentChunks.chunkId, chunkId))
+    .limit(1);
+
+  if (!chunk) {
+    throw new Error('Section not found');
+  }
+
+  const reviewAs = (status: FactReviewStatus): FactReview => ({
+    status,
+    reviewedBy: editedBy,
+    reviewedAt: new Date().toISOString(),
+  });
+
+  let factIndex: number;
+  let before: AnyFact | null = null;
+  let after: AnyFact;
+
+  if (input.action === 'add') {
+    after = await buildFact(layer, input.fact, reviewAs('added'), chunk);
+
+    const [added] = await db
+      .update(documentChunks)
+      .set(setFactColumn(layer, sql`coalesce(${column}, '[]'::jsonb) || jsonb_build_array(${JSON.stringify(after)}::jsonb)`))
+      .where(eq(documentChunks.chunkId, chunkId))
+      .returning({ length: sql<number>`jsonb_array_length(${column})` });
+
+    factIndex = added.length - 1;
+  } else {
+    factIndex = input.factIndex;
+    const stored = (chunk.facts as AnyFact[] | null)?.[factIndex];
+    if (!stored) {
+      throw new Error(`${layer} fact ${factIndex} not found in this section`);
+    }
+    before = stored;
+
+    if (input.action === 'edit') {
+      after = await buildFact(layer, input.fact, reviewAs('edited'), chunk);
+    } else if (input.action === 'restore') {
+      const { review: _review, ...unreviewed } = stored;
+      after = unreviewed;
+    } else {
+      after = { ...stored, review: reviewAs(input.action === 'approve' ? 'approved' : 'rejected') };
+    }
+
+    const updated = await db
+      .update(documentChunks)
+      .set(setFactColumn(layer, sql`jsonb_set(${column}, ${`{${factIndex}}`}::text[], ${JSON.stringify(after)}::jsonb)`))
+      .where(and(
+        eq(documentChunks.chunkId, chunkId),
+        sql`${column} -> ${factIndex}::int = ${JSON.stringify(stored)}::jsonb`
+      ))
+      .returning({ chunkId: documentChunks.chunkId });
+
+    if (updated.length === 0) {
+      throw new Error('This fact was changed by someone else - reload the document and try again');
+    }
+  }
+
+  await db.insert(factEdits).values({
+    docId: chunk.docId,
+    chunkId,
+    layer,
+    factIndex,
+    action,
+    before,
+    after,
+    editedBy,
+    note: input.note?.trim() || null,
+  });
+
+  // The reviewer has settled the fact, so its metric review is moot
+  if (layer === 'PAQN' && (action === 'edit' || action === 'reject')) {
+    await db
+      .update(metricReviewQueue)
+      .set({ status: 'dismissed', resolvedAt: new Date() })
+      .where(and(
+        eq(metricReviewQueue.chunkId, chunkId),
+        eq(metricReviewQueue.factIndex, factIndex),
+        eq(metricReviewQueue.status, 'open')
+      ));
+  }
+
+  console.log(`✍️ ${action} ${layer} fact ${factIndex} of chunk ${chunkId} by ${editedBy}`);
+
+  return { factIndex, fact: after };
+}
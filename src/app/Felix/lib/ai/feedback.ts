@@ -0,0 +1,134 @@
+import { db } from '@/db';
+import { chatFeedback } from '@/db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { getChatSession } from './chat-history';
+import type { ChatFeedbackInput, MessageFeedback } from '../../types/feedback';
+import type { FelixUIMessage } from '../../types/chat';
+
+// ============================================
+// HELPERS
+// ============================================
+
+function getMessageText(message: FelixUIMessage): string {
+  return message.parts
+    .map(part => (part.type === 'text' ? part.text : ''))
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Chunks of the sources an answer cites as [N], in citation order
+ */
+function getCitedChunkIds(answer: string, message: FelixUIMessage): string[] {
+  const chunkIdsBySource = new Map(
+    message.parts.flatMap(part =>
+      part.type === 'data-source' ? [[part.data.sourceNumber, part.data.chunkId] as const] : []
+    )
+  );
+
+  const cited = [...answer.matchAll(/\[(\d+)\]/g)]
+    .map(match => chunkIdsBySource.get(Number(match[1])))
+    .filter((chunkId): chunkId is string => chunkId !== undefined);
+
+  return [...new Set(cited)];
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Record a user's rating and/or correction of an assistant answer
+ * The question, retrieval query, retrieved chunks and answer are copied from
+ * the saved session rather than trusted from the client
+ *
+ * @param input - The rated message and the user's verdict
+ * @param userId - The user giving feedback; must own the session
+ * @returns False if the session or message was not found
+ */
+export async function saveChatFeedback(input: ChatFeedbackInput, userId: string): Promise<boolean> {
+  try {
+    const session = await getChatSession(input.sessionId, userId);
+    const index = session?.messages.findIndex(message => message.id === input.messageId) ?? -1;
+
+    if (!session || index < 0 || session.messages[index].role !== 'assistant') {
+      return false;
+    }
+
+    const message = session.messages[index];
+    const questionMessage = session.messages
+      .slice(0, index)
+      .reverse()
+      .find(candidate => candidate.role === 'user');
+
+    const question = questionMessage ? getMessageText(questionMessage) : '';
+    const answer = getMessageText(message);
+    const retrievedChunkIds = message.parts
+      .flatMap(part => (part.type === 'data-source' ? [part.data] : []))
+      .sort((a, b) => a.sourceNumber - b.sourceNumber)
+      .map(source => source.chunkId);
+
+    const correction = input.correction?.trim() || null;
+
+    await db
+      .insert(chatFeedback)
+      .values({
+        sessionId: session.sessionId,
+        messageId: message.id,
+        userId,
+        rating: input.rating,
+        correction,
+        question,
+        retrievalQuery: message.metadata?.retrievalQuery?.query ?? question,
+        scope: session.scope,
+        answer,
+        retrievedChunkIds,
+        citedChunkIds: getCitedChunkIds(answer, message),
+      })
+      .onConflictDoUpdate({
+        target: [chatFeedback.userId, chatFeedback.messageId],
+        set: {
+          rating: input.rating,
+          correction,
+          updatedAt: sql`now()`,
+        },
+      });
+
+    return true;
+  } catch (error) {
+    console.error('Error saving chat feedback:', error);
+    throw new Error(
+      `Failed to save chat feedback: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Get the feedback a user has given on a session's answers
+ *
+ * @returns Rating and correction by assistant message ID
+ */
+export async function listChatFeedback(
+  sessionId: string,
+  userId: string
+): Promise<Record<string, MessageFeedback>> {
+  try {
+    const rows = await db
+      .select({
+        messageId: chatFeedback.messageId,
+        rating: chatFeedback.rating,
+        correction: chatFeedback.correction,
+      })
+      .from(chatFeedback)
+      .where(and(eq(chatFeedback.sessionId, sessionId), eq(chatFeedback.userId, userId)));
+
+    return Object.fromEntries(
+      rows.map(row => [row.messageId, { rating: row.rating, correction: row.correction }])
+    );
+  } catch (error) {
+    console.error('Error fetching chat feedback:', error);
+    throw new Error(
+      `Failed to fetch chat feedback: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -0,0 +1,179 @@
+import { db } from '@/db';
+import { companies, documentChunks, documents } from '@/db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { generateSectionEmbeddings, generateSubChunkEmbeddings } from './embeddings';
+import { splitIntoSubChunks } from './chunking';
+import { findDocumentByContentHash, saveDocumentToDatabase } from './database';
+import { getSectionPages, joinPageTexts, type PageText } from './text-extraction';
+import { hashContent } from '../storage';
+import type { DocumentStructure, SectionBoundary, SectionContent } from './schemas';
+import type { EvaluationExample } from '../../types/feedback';
+
+/**
+ * A document described by its text instead of a PDF
+ */
+export interface FixtureDocument {
+  company: string;
+  sector: string;
+  documentTitle: string;
+  documentType: string;
+  documentDate: string; // YYYY-MM-DD
+  reportingPeriod: string;
+  sections: Array<{
+    sectionTitle: string;
+    sectionType: string;
+    pageStart: number;
+    summary: string;
+    topics?: string[];
+    pages: string[]; // Text of each page, from pageStart on
+    timeBasedInfo?: SectionContent['timeBasedInfo'];
+    qualitativeInfo?: SectionContent['qualitativeInfo'];
+    quantitativeData?: SectionContent['quantitativeData'];
+  }>;
+}
+
+export interface RetrievalFixture {
+  documents: FixtureDocument[];
+}
+
+/**
+ * A question with the sections a good retrieval must return
+ */
+export interface GoldenQuestion {
+  question: string;
+  companies: string[]; // Company names to scope retrieval to
+  expected: Array<{ document: string; section: string }>;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toPageTexts(document: FixtureDocument): PageText[] {
+  return document.sections.flatMap(section =>
+    section.pages.map((text, offset) => ({
+      pageNumber: section.pageStart + offset,
+      text,
+      needsVisualParsing: false,
+    }))
+  );
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Save fixture documents through the same embedding and save path as uploads
+ * Documents already loaded (same content) are skipped, so seeding is repeatable
+ *
+ * @param fixture - Documents to load
+ * @returns Number of documents loaded and skipped
+ */
+export async function loadRetrievalFixture(fixture: RetrievalFixture) {
+  let loaded = 0;
+  let skipped = 0;
+
+  for (const document of fixture.documents) {
+    const contentHash = hashContent(new TextEncoder().encode(JSON.stringify(document)));
+
+    if (await findDocumentByContentHash(contentHash)) {
+      skipped++;
+      continue;
+    }
+
+    const pages = toPageTexts(document);
+    const boundaries: SectionBoundary[] = document.sections.map(section => ({
+      sectionTitle: section.sectionTitle,
+      sectionType: section.sectionType,
+      pageStart: section.pageStart,
+      pageEnd: section.pageStart + section.pages.length - 1,
+    }));
+    const contents: SectionContent[] = document.sections.map((section, index) => ({
+      content: joinPageTexts(getSectionPages(pages, boundaries[index].pageStart, boundaries[index].pageEnd)),
+      summary: section.summary,
+      topics: section.topics ?? [],
+      timeBasedInfo: section.timeBasedInfo ?? [],
+      qualitativeInfo: section.qualitativeInfo ?? [],
+      quantitativeData: section.quantitativeData ?? [],
+    }));
+
+    const structure: DocumentStructure = {
+      documentTitle: document.documentTitle,
+      documentType: document.documentType,
+      company: document.company,
+      sector: document.sector,
+      reportingPeriod: document.reportingPeriod,
+      documentDate: document.documentDate,
+      totalPages: Math.max(...pages.map(page => page.pageNumber)),
+      sections: boundaries,
+    };
+
+    const embeddings = await generateSectionEmbeddings(boundaries, contents);
+    const subChunks = await generateSubChunkEmbeddings(
+      boundaries,
+      boundaries.map(boundary => splitIntoSubChunks(getSectionPages(pages, boundary.pageStart, boundary.pageEnd)))
+    );
+
+    await saveDocumentToDatabase(structure, boundaries, contents, embeddings, `fixtures/${contentHash}.pdf`, {
+      contentHash,
+      pages,
+      subChunks,
+    });
+    loaded++;
+  }
+
+  return { loaded, skipped };
+}
+
+/**
+ * Resolve golden questions' company names and expected sections to IDs
+ * Questions whose companies or sections aren't loaded come back with no
+ * relevant chunks, so evaluation reports them as skipped
+ *
+ * @param questions - Golden questions to resolve
+ * @returns One evaluation example per question
+ */
+export async function resolveGoldenQuestions(questions: GoldenQuestion[]): Promise<EvaluationExample[]> {
+  const companyNames = [...new Set(questions.flatMap(question => question.companies))];
+  const companyRows = companyNames.length > 0
+    ? await db
+      .select({ companyId: companies.companyId, name: companies.name })
+      .from(companies)
+      .where(inArray(companies.name, companyNames))
+    : [];
+
+  const sectionRows = await db
+    .select({
+      chunkId: documentChunks.chunkId,
+      sectionTitle: documentChunks.sectionTitle,
+      documentTitle: documents.documentTitle,
+    })
+    .from(documentChunks)
+    .innerJoin(documents, eq(documentChunks.docId, documents.docId))
+    .where(and(
+      eq(documents.isActive, true),
+      inArray(documents.documentTitle, [...new Set(questions.flatMap(question => question.expected.map(e => e.document)))])
+    ));
+
+  return questions.map((question, index) => ({
+    feedbackId: `golden-${index + 1}`,
+    question: question.question,
+    query: question.question,
+    scope: {
+      type: 'companies',
+      companyIds: companyRows
+        .filter(company => question.companies.includes(company.name))
+        .map(company => company.companyId),
+    },
+    rating: null,
+    correction: null,
+    answer: '',
+    retrievedChunkIds: [],
+    relevantChunkIds: sectionRows
+      .filter(section => question.expected.some(expected =>
+        expected.document === section.documentTitle && expected.section === section.sectionTitle
+      ))
+      .map(section => section.chunkId),
+  }));
+}
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { db, fxRates } from '@/db';
+import { createCurrencyConverter, importFxRates } from './fx-rates';
+
+vi.mock('@/db', async () => {
+  const { createTestDatabase } = await import('@/db/test-database');
+  return { ...(await import('@/db/schema')), db: await createTestDatabase() };
+});
+
+const periodEnd = new Date('2024-12-31');
+
+beforeAll(async () => {
+  await importFxRates([
+    { baseCurrency: 'EUR', quoteCurrency: 'USD', rateDate: '2024-12-31', rate: 1.2 },
+    { baseCurrency: 'EUR', quoteCurrency: 'USD', rateDate: '2024-12-31', rate: 1.1 },
+  ]);
+});
+
+describe('importFxRates', () => {
+  it('keeps the last of the rates given for a pair and date', async () => {
+    expect(await importFxRates([
+      { baseCurrency: 'GBP', quoteCurrency: 'USD', rateDate: '2024-12-31', rate: 1.2 },
+      { baseCurrency: 'GBP', quoteCurrency: 'USD', rateDate: '2024-12-31', rate: 1.25 },
+    ])).toEqual({ imported: 1, duplicates: 1 });
+
+    const rates = await db.select({ base: fxRates.baseCurrency, rate: fxRates.rate }).from(fxRates);
+    expect(rates).toEqual(expect.arrayContaining([{ base: 'GBP', rate: 1.25 }, { base: 'EUR', rate: 1.1 }]));
+  });
+});
+
+describe('createCurrencyConverter', () => {
+  it('reports a scaled amount unscaled, in units of its currency', async () => {
+    const convert = await createCurrencyConverter('USD', ['EUR']);
+
+    expect(convert({ metricName: 'Revenue', value: 12.3, unit: 'EUR m' }, periodEnd)).toEqual({
+      value: 13530000,
+      currency: 'USD',
+      originalValue: 12300000,
+      originalCurrency: 'EUR',
+      rate: 1.1,
+      rateDate: '2024-12-31',
+    });
+  });
+
+  it('keeps what a price is per', async () => {
+    const convert = await createCurrencyConverter('USD', ['EUR']);
+
+    expect(convert({ metricName: 'Average rent', value: 20, unit: 'EUR/m²' }, periodEnd)).toMatchObject({
+      value: 22,
+      currency: 'USD/m²',
+      originalValue: 20,
+      originalCurrency: 'EUR/m²',
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { db, fxRates } from '@/db';
+import { inArray, or, sql } from 'drizzle-orm';
+import { buildFxRateTable, findFxRate, normalizeCurrencyCode } from '../utils/currency';
+import { applyScale, formatUnit, parseUnit } from '../utils/metric-units';
+import type { CurrencyConversion, FxRateInput } from '../../types/currency';
+import type { QuantitativeData } from './schemas';
+
+/**
+ * Rates upserted per statement when importing
+ */
+const IMPORT_BATCH_SIZE = 500;
+
+/**
+ * Converts a PAQN fact into the reporting currency at a date
+ * Returns null for facts that aren't currency amounts or have no rate
+ * The original value is unscaled like the converted one, so both are in
+ * units of their currency ("12.3 EUR m" -> 12,300,000 EUR)
+ */
+export type CurrencyConverter = (
+  fact: Pick<QuantitativeData, 'metricName' | 'value' | 'unit'>,
+  date: Date | null
+) => CurrencyConversion | null;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function roundAmount(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Currency of a PAQN fact, read from its unit or metric name ("EUR m", "Revenue ($)")
+ *
+ * @returns ISO 4217 code, or null if the fact isn't a currency amount
+ */
+export function getFactCurrency(fact: Pick<QuantitativeData, 'metricName' | 'unit'>): string | null {
+  const parsed = parseUnit(fact.unit, fact.metricName);
+  return parsed.family === 'currency' ? parsed.unit : null;
+}
+
+/**
+ * Insert FX rates, replacing any already stored for the same pair and date
+ *
+ * @param rates - Parsed rates, e.g. from parseFxRatesCsv
+ * @param source - Where they came from, e.g. the CSV file name
+ * @returns Number of rates written, and of rows dropped as repeats of a
+ * pair and date (the last of them wins)
+ */
+export async function importFxRates(
+  rates: FxRateInput[],
+  source?: string
+): Promise<{ imported: number; duplicates: number }> {
+  try {
+    // Postgres rejects an upsert that touches the same row twice
+    const unique = [
+      ...new Map(rates.map(rate => [`${rate.baseCurrency}/${rate.quoteCurrency}/${rate.rateDate}`, rate])).values(),
+    ];
+
+    for (let start = 0; start < unique.length; start += IMPORT_BATCH_SIZE) {
+      await db
+        .insert(fxRates)
+        .values(unique.slice(start, start + IMPORT_BATCH_SIZE).map(rate => ({ ...rate, source: source ?? null })))
+        .onConflictDoUpdate({
+          target: [fxRates.baseCurrency, fxRates.quoteCurrency, fxRates.rateDate],
+          set: {
+            rate: sql`excluded.rate`,
+            source: sql`excluded.source`,
+            updatedAt: new Date(),
+          },
+        });
+    }
+
+    return { imported: unique.length, duplicates: rates.length - unique.length };
+  } catch (error) {
+    console.error('Error importing FX rates:', error);
+    throw new Error(
+      `Failed to import FX rates: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Build a converter into the reporting currency
+ * Only rates touching the given currencies are loaded; each amount is
+ * converted at the latest rate on or before its date, and unscaled first
+ * ("12.3 EUR m" converts as 12,300,000 EUR)
+ *
+ * @param reportingCurrency - ISO 4217 code to convert into
+ * @param currencies - Currencies of the facts that will be converted
+ * @returns A converter; facts without a date use the latest rate
+ */
+export async function createCurrencyConverter(
+  reportingCurrency: string,
+  currencies: string[]
+): Promise<CurrencyConverter> {
+  const target = normalizeCurrencyCode(reportingCurrency);
+  if (!target) {
+    throw new Error(`Invalid reporting currency "${reportingCurrency}". Use a three-letter ISO 4217 code such as USD`);
+  }
+
+  const involved = [...new Set([target, ...currencies])];
+  const rows = involved.length > 1
+    ? await db
+        .select({
+          baseCurrency: fxRates.baseCurrency,
+          quoteCurrency: fxRates.quoteCurrency,
+          rateDate: fxRates.rateDate,
+          rate: fxRates.rate,
+        })
+        .from(fxRates)
+        .where(or(inArray(fxRates.baseCurrency, involved), inArray(fxRates.quoteCurrency, involved)))
+    : [];
+
+  const table = buildFxRateTable(rows);
+
+  return (fact, date) => {
+    const parsed = parseUnit(fact.unit, fact.metricName);
+    if (parsed.family !== 'currency') {
+      return null;
+    }
+
+    const originalValue = applyScale(fact.value, parsed.scale);
+    const found = findFxRate(table, parsed.unit, target, (date ?? new Date()).toISOString().split('T')[0]);
+    if (!found) {
+      return null;
+    }
+
+    return {
+      value: roundAmount(originalValue * found.rate),
+      currency: formatUnit({ ...parsed, unit: target }),
+      originalValue,
+      originalCurrency: formatUnit(parsed),
+      rate: found.rate,
+      rateDate: found.rateDate,
+    };
+  };
+}
@@ -0,0 +1,298 @@
+import { db, documentChunks, documentPages, documents } from '@/db';
+import { asc, eq } from 'drizzle-orm';
+import type { FactGrounding, SectionContent, StoredFact } from './schemas';
+
+/**
+ * Share of a fact's source text that must be found on one page for the
+ * fact to count as grounded. Below 1 to absorb text-layer noise: hyphenation,
+ * ligatures, quotes and whitespace the model normalized
+ */
+export const GROUNDING_THRESHOLD = 0.8;
+
+/**
+ * Page text a grounder searches
+ */
+export interface GroundingPage {
+  pageNumber: number;
+  text: string;
+}
+
+/**
+ * Locate a fact's source text in its document
+ *
+ * @param text - The fact's quoted source text
+ * @param pageStart - First page of the section the fact was extracted from
+ * @param pageEnd - Last page of that section
+ * @returns The grounding, or null if there is no text to check (no quote, or no text layer)
+ */
+export type Grounder = (text: string | null | undefined, pageStart: number | null, pageEnd: number | null) => FactGrounding | null;
+
+/**
+ * Any extracted or stored fact, whose text and confidence may be missing
+ */
+type GroundableFact = StoredFact<{ text?: string | null; confidence?: number }>;
+
+interface TokenStream {
+  tokens: string[];
+  pages: number[]; // Page of each token
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Lowercase words and numbers, keeping "1,234.5" as one token
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents split off by NFKD
+    .replace(/-\s*\n\s*/g, '') // Words hyphenated across lines
+    .match(/[a-z0-9]+(?:[.,][0-9]+)*/g) ?? [];
+}
+
+function toTokenStream(pages: GroundingPage[]): TokenStream {
+  const stream: TokenStream = { tokens: [], pages: [] };
+
+  for (const page of pages) {
+    for (const token of tokenize(page.text)) {
+      stream.tokens.push(token);
+      stream.pages.push(page.pageNumber);
+    }
+  }
+
+  return stream;
+}
+
+/**
+ * Slide a quote-sized window over the stream and find the window sharing the
+ * most tokens with the quote (in any order), so a quote still matches when
+ * a few words differ or the text layer splits it oddly
+ */
+function findBestWindow(quote: string[], stream: TokenStream): { score: number; page: number | null } {
+  if (quote.length === 0 || stream.tokens.length === 0) {
+    return { score: 0, page: null };
+  }
+
+  const needed = new Map<string, number>();
+  quote.forEach(token => needed.set(token, (needed.get(token) ?? 0) + 1));
+
+  const windowSize = Math.min(quote.length, stream.tokens.length);
+  const inWindow = new Map<string, number>();
+  let matched = 0;
+  let best = { matched: -1, start: 0 };
+
+  for (let index = 0; index < stream.tokens.length; index++) {
+    const added = stream.tokens[index];
+    const addedCount = (inWindow.get(added) ?? 0) + 1;
+    inWindow.set(added, addedCount);
+    if (addedCount <= (needed.get(added) ?? 0)) {
+      matched++;
+    }
+
+    if (index >= windowSize) {
+      const removed = stream.tokens[index - windowSize];
+      const removedCount = inWindow.get(removed) ?? 0;
+      if (removedCount <= (needed.get(removed) ?? 0)) {
+        matched--;
+      }
+      inWindow.set(removed, removedCount - 1);
+    }
+
+    if (index >= windowSize - 1 && matched > best.matched) {
+      best = { matched, start: index - windowSize + 1 };
+      if (matched === quote.length) {
+        break;
+      }
+    }
+  }
+
+  // A quote running over a page break is credited to the page holding its middle
+  return {
+    score: best.matched / quote.length,
+    page: stream.pages[best.start + Math.floor(windowSize / 2)],
+  };
+}
+
+/**
+ * Clamp a model-reported confidence to 0-1, reading values above 1 as percentages
+ */
+function normalizeConfidence(confidence: unknown): number | undefined {
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence)) {
+    return undefined;
+  }
+
+  const scaled = confidence > 1 ? confidence / 100 : confidence;
+  return Math.min(1, Math.max(0, scaled));
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Build a grounder over a document's pages
+ * The section's own pages are searched first; a fact whose text isn't there
+ * is looked for in the rest of the document, as section boundaries can be off
+ *
+ * @param pages - Text layer of every page of the document
+ */
+export function createGrounder(pages: GroundingPage[]): Grounder {
+  const documentStream = toTokenStream(pages);
+
+  return (text, pageStart, pageEnd) => {
+    const quote = tokenize(text ?? '');
+    if (quote.length === 0 || documentStream.tokens.length === 0) {
+      return null;
+    }
+
+    const sectionPages = pages.filter(page =>
+      (pageStart === null || page.pageNumber >= pageStart) && (pageEnd === null || page.pageNumber <= pageEnd)
+    );
+    const inSection = findBestWindow(quote, toTokenStream(sectionPages));
+
+    if (inSection.score >= GROUNDING_THRESHOLD) {
+      return { grounded: true, page: inSection.page, score: inSection.score, onSectionPages: true };
+    }
+
+    const inDocument = findBestWindow(quote, documentStream);
+    const best = inDocument.score > inSection.score ? inDocument : inSection;
+
+    return {
+      grounded: best.score >= GROUNDING_THRESHOLD,
+      page: best.page,
+      score: Math.round(best.score * 1000) / 1000,
+      onSectionPages: best === inSection,
+    };
+  };
+}
+
+/**
+ * Ground one fact and normalize its confidence
+ * Facts without checkable text keep no grounding
+ */
+export function groundFact<T extends GroundableFact>(
+  fact: T,
+  ground: Grounder,
+  pageStart: number | null,
+  pageEnd: number | null
+): T {
+  const { grounding: _previous, ...rest } = fact;
+  const grounding = ground(fact.text, pageStart, pageEnd);
+  const confidence = normalizeConfidence(fact.confidence);
+
+  return {
+    ...rest,
+    ...(confidence !== undefined ? { confidence } : {}),
+    ...(grounding ? { grounding } : {}),
+  } as T;
+}
+
+/**
+ * Ground every TB, PAQL and PAQN fact of an extracted section
+ *
+ * @param content - Extracted section content
+ * @param ground - From createGrounder, over the section's document
+ * @param section - Page range the section was extracted from
+ */
+export function groundSectionFacts(
+  content: SectionContent,
+  ground: Grounder,
+  section: { pageStart: number; pageEnd: number }
+): SectionContent {
+  const groundAll = <T extends GroundableFact>(facts: T[] | undefined) =>
+    (facts ?? []).map(fact => groundFact(fact, ground, section.pageStart, section.pageEnd));
+
+  return {
+    ...content,
+    timeBasedInfo: groundAll(content.timeBasedInfo),
+    qualitativeInfo: groundAll(content.qualitativeInfo),
+    quantitativeData: groundAll(content.quantitativeData),
+  };
+}
+
+/**
+ * Build a grounder over a stored document's page text
+ */
+export async function loadDocumentGrounder(docId: string): Promise<Grounder> {
+  const pages = await db
+    .select({ pageNumber: documentPages.pageNumber, text: documentPages.text })
+    .from(documentPages)
+    .where(eq(documentPages.docId, docId))
+    .orderBy(asc(documentPages.pageNumber));
+
+  return createGrounder(pages);
+}
+
+/**
+ * Re-ground the stored facts of every active document, e.g. for documents
+ * saved before grounding existed. Reviews are kept
+ *
+ * @param onDocument - Called after each document with its counts
+ * @returns Number of facts checked and how many of them are grounded
+ */
+export async function groundStoredFacts(
+  onDocument?: (progress: { docId: string; checked: number; grounded: number }) => void
+) {
+  try {
+    const activeDocuments = await db
+      .select({ docId: documents.docId })
+      .from(documents)
+      .where(eq(documents.isActive, true));
+
+    let checked = 0;
+    let grounded = 0;
+
+    for (const { docId } of activeDocuments) {
+      const ground = await loadDocumentGrounder(docId);
+      const chunks = await db
+        .select({
+          chunkId: documentChunks.chunkId,
+          pageStart: documentChunks.pageStart,
+          pageEnd: documentChunks.pageEnd,
+          timeBasedInfo: documentChunks.timeBasedInfo,
+          qualitativeInfo: documentChunks.qualitativeInfo,
+          quantitativeData: documentChunks.quantitativeData,
+        })
+        .from(documentChunks)
+        .where(eq(documentChunks.docId, docId));
+
+      let documentChecked = 0;
+      let documentGrounded = 0;
+
+      for (const chunk of chunks) {
+        const groundAll = <T extends GroundableFact>(facts: T[] | null) =>
+          (facts ?? []).map(fact => {
+            const result = groundFact(fact, ground, chunk.pageStart, chunk.pageEnd);
+            if (result.grounding) {
+              documentChecked++;
+              documentGrounded += result.grounding.grounded ? 1 : 0;
+            }
+            return result;
+          });
+
+        await db
+          .update(documentChunks)
+          .set({
+            timeBasedInfo: groundAll(chunk.timeBasedInfo),
+            qualitativeInfo: groundAll(chunk.qualitativeInfo),
+            quantitativeData: groundAll(chunk.quantitativeData),
+          })
+          .where(eq(documentChunks.chunkId, chunk.chunkId));
+      }
+
+      checked += documentChecked;
+      grounded += documentGrounded;
+      onDocument?.({ docId, checked: documentChecked, grounded: documentGrounded });
+    }
+
+    return { checked, grounded };
+  } catch (error) {
+    console.error('Error grounding stored facts:', error);
+    throw new Error(
+      `Failed to ground stored facts: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { db, ingestionJobs } from '@/db';
+import { runIngestionJob } from './ingestion';
+
+vi.mock('@/db', async () => {
+  const { createTestDatabase } = await import('@/db/test-database');
+  return { ...(await import('@/db/schema')), db: await createTestDatabase() };
+});
+
+// No file is stored under this key, so a run fails in its first phase
+// without calling a model
+async function createJob(values: Partial<typeof ingestionJobs.$inferInsert> = {}) {
+  const [job] = await db
+    .insert(ingestionJobs)
+    .values({
+      filename: 'missing.pdf',
+      fileSize: 1,
+      contentHash: 'fixture',
+      storageKey: 'fixtures/missing.pdf',
+      ...values,
+    })
+    .returning();
+  return job;
+}
+
+describe('runIngestionJob', () => {
+  it('runs a job only once when resumed twice at the same time', async () => {
+    const job = await createJob({ status: 'failed' });
+
+    const results = await Promise.all([runIngestionJob(job.jobId), runIngestionJob(job.jobId)]);
+
+    expect(results.map(result => result.success ? null : result.error).sort()).toEqual([
+      'Job is already running',
+      'Stored file not found: fixtures/missing.pdf',
+    ]);
+    const [stored] = await db.select().from(ingestionJobs).where(eq(ingestionJobs.jobId, job.jobId));
+    expect(stored.attempts).toBe(1);
+  });
+
+  it('takes over a job whose run went stale', async () => {
+    const job = await createJob({ status: 'running', updatedAt: new Date(Date.now() - 10 * 60 * 1000) });
+
+    const result = await runIngestionJob(job.jobId);
+
+    expect(result).toMatchObject({ success: false, error: 'Stored file not found: fixtures/missing.pdf' });
+  });
+
+  it('leaves a job that is still running alone', async () => {
+    const job = await createJob({ status: 'running' });
+
+    expect(await runIngestionJob(job.jobId)).toMatchObject({ success: false, error: 'Job is already running' });
+  });
+});
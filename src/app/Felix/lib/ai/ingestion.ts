@@ -0,0 +1,684 @@
+import { db, documents, ingestionJobs, ingestionJobSections } from '@/db';
+import type { IngestionJob, IngestionJobSection, NewIngestionJobSection } from '@/db';
+import { and, asc, desc, eq, inArray, lt, ne, or, sql } from 'drizzle-orm';
+import {
+  SECTION_EXTRACTION_CONCURRENCY,
+  extractDocumentStructure,
+  extractSectionContentWithRetry,
+  getExistingPatternsForSector,
+  type SectorPatterns,
+} from './pdf-processor';
+import { generateSectionEmbeddings, generateSubChunkEmbeddings } from './embeddings';
+import { extractPageTexts, getSectionPages, type PageText } from './text-extraction';
+import { splitIntoSubChunks } from './chunking';
+import { findDocumentByContentHash, saveDocumentToDatabase } from './database';
+import { hashContent, loadPdf, storePdf } from '../storage';
+import { mapWithConcurrency } from '../utils/concurrency';
+import type { SectionBoundary, SectionContent } from './schemas';
+import type {
+  DuplicateAction,
+  DuplicateDocument,
+  IngestionJobSummary,
+  IngestionPhase,
+  IngestionProgressListener,
+  IngestionResult,
+} from '../../types/ingestion';
+
+/**
+ * A job still marked as running after this long is assumed to have died
+ * (e.g. the serverless function timed out) and may be resumed
+ * Long phases must touch the job more often than this (see runExtractionPhase)
+ */
+const STALE_JOB_MS = 5 * 60 * 1000;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toDataUrl(pdfBytes: Uint8Array): string {
+  return `data:application/pdf;base64,${Buffer.from(pdfBytes).toString('base64')}`;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+async function updateJob(jobId: string, values: Partial<IngestionJob>) {
+  await db
+    .update(ingestionJobs)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(ingestionJobs.jobId, jobId));
+}
+
+async function updateSection(sectionId: string, values: Partial<IngestionJobSection>) {
+  await db
+    .update(ingestionJobSections)
+    .set({ ...values, updatedAt: new Date() })
+    .where(eq(ingestionJobSections.sectionId, sectionId));
+}
+
+async function getJobOrThrow(jobId: string): Promise<IngestionJob> {
+  const [job] = await db
+    .select()
+    .from(ingestionJobs)
+    .where(eq(ingestionJobs.jobId, jobId))
+    .limit(1);
+
+  if (!job) {
+    throw new Error(`Ingestion job ${jobId} not found`);
+  }
+
+  return job;
+}
+
+async function getJobSections(jobId: string): Promise<IngestionJobSection[]> {
+  return db
+    .select()
+    .from(ingestionJobSections)
+    .where(eq(ingestionJobSections.jobId, jobId))
+    .orderBy(asc(ingestionJobSections.sectionIndex));
+}
+
+function toSectionBoundary(section: IngestionJobSection, job: IngestionJob): SectionBoundary {
+  const boundary = job.structure?.sections[section.sectionIndex];
+  return {
+    sectionTitle: section.sectionTitle,
+    sectionType: boundary?.sectionType ?? 'unknown',
+    pageStart: section.pageStart,
+    pageEnd: section.pageEnd,
+  };
+}
+
+function isStale(job: IngestionJob): boolean {
+  return Date.now() - job.updatedAt.getTime() > STALE_JOB_MS;
+}
+
+/**
+ * Report the job's sections to the listener, including any already
+ * completed by a previous run so a resumed job shows its full checklist
+ */
+async function emitStructure(job: IngestionJob, onProgress: IngestionProgressListener) {
+  const sections = await getJobSections(job.jobId);
+  onProgress({
+    type: 'structure-found',
+    company: job.structure!.company,
+    documentTitle: job.structure!.documentTitle,
+    totalSections: sections.length,
+    sections: sections.map(section => ({
+      sectionIndex: section.sectionIndex,
+      sectionTitle: section.sectionTitle,
+      pageStart: section.pageStart,
+      pageEnd: section.pageEnd,
+      status: section.status,
+      error: section.error,
+    })),
+  });
+}
+
+/**
+ * Read the PDF's text layer locally
+ * A PDF pdf.js can't parse is still processed, entirely as rendered pages
+ */
+async function readTextLayer(jobId: string, pdfBytes: Uint8Array): Promise<PageText[]> {
+  try {
+    const pages = await extractPageTexts(pdfBytes);
+    const visualPages = pages.filter(page => page.needsVisualParsing).length;
+    console.log(`[${jobId}] Read text layer of ${pages.length} pages (${visualPages} need visual parsing)`);
+    return pages;
+  } catch (error) {
+    console.error(`[${jobId}] Could not read text layer, falling back to PDF pages:`, error);
+    return [];
+  }
+}
+
+const noopListener: IngestionProgressListener = () => {};
+
+/**
+ * Wrap a progress listener so that one that throws (e.g. writing to a
+ * stream the client has closed) can never fail the job it is watching
+ */
+function guardListener(jobId: string, listener: IngestionProgressListener): IngestionProgressListener {
+  let warned = false;
+
+  return event => {
+    try {
+      listener(event);
+    } catch (error) {
+      if (!warned) {
+        warned = true;
+        console.warn(`[${jobId}] Progress listener failed, continuing without it:`, error);
+      }
+    }
+  };
+}
+
+// ============================================
+// PHASES
+// ============================================
+
+/**
+ * Phase 1: Extract the document structure and create one row per section
+ */
+async function runStructurePhase(
+  job: IngestionJob,
+  onProgress: IngestionProgressListener
+): Promise<IngestionPhase> {
+  console.log(`[${job.jobId}] Phase 1: Extracting document structure...`);
+  const pdfBytes = await loadPdf(job.storageKey);
+  const pageTexts = await readTextLayer(job.jobId, pdfBytes);
+  const structure = await extractDocumentStructure(toDataUrl(pdfBytes));
+
+  console.log(`[${job.jobId}] Found ${structure.sections.length} sections for ${structure.company}`);
+
+  // Replace any sections left over from a previous, interrupted structure run
+  await db.delete(ingestionJobSections).where(eq(ingestionJobSections.jobId, job.jobId));
+
+  const sectionRows: NewIngestionJobSection[] = structure.sections.map((section, index) => ({
+    jobId: job.jobId,
+    sectionIndex: index,
+    sectionTitle: section.sectionTitle,
+    pageStart: section.pageStart,
+    pageEnd: section.pageEnd,
+  }));
+
+  if (sectionRows.length > 0) {
+    await db.insert(ingestionJobSections).values(sectionRows);
+  }
+
+  await updateJob(job.jobId, { structure, pageTexts, currentPhase: 'extraction' });
+  await emitStructure({ ...job, structure }, onProgress);
+  return 'extraction';
+}
+
+/**
+ * Extract a single section, with retries, and persist its outcome
+ * Never throws - failures are recorded on the section row, whose attempts
+ * count every extraction call made for it
+ */
+async function extractAndStoreSection(
+  job: IngestionJob,
+  section: IngestionJobSection,
+  pdfBytes: Uint8Array,
+  sectorPatterns: SectorPatterns,
+  onProgress: IngestionProgressListener = noopListener
+): Promise<boolean> {
+  await updateSection(section.sectionId, {
+    status: 'running',
+    attempts: section.attempts + 1,
+    error: null,
+  });
+
+  try {
+    const result = await extractSectionContentWithRetry(
+      pdfBytes,
+      toSectionBoundary(section, job),
+      job.structure!.sector,
+      job.pageTexts ?? [],
+      sectorPatterns
+    );
+    const attempts = section.attempts + result.attempts;
+
+    if (result.status === 'completed') {
+      await updateSection(section.sectionId, { status: 'completed', content: result.content, attempts });
+      return true;
+    }
+
+    console.error(`[${job.jobId}] Section ${section.sectionIndex + 1} failed after ${result.attempts} attempts: ${result.error}`);
+    await updateSection(section.sectionId, { status: 'failed', error: result.error, attempts });
+    onProgress({ type: 'section-failed', sectionIndex: section.sectionIndex, error: result.error });
+    return false;
+  } catch (error) {
+    // Only the section row update itself can get here
+    console.error(`[${job.jobId}] Section ${section.sectionIndex + 1} failed:`, error);
+    await updateSection(section.sectionId, { status: 'failed', error: errorMessage(error) });
+    onProgress({ type: 'section-failed', sectionIndex: section.sectionIndex, error: errorMessage(error) });
+    return false;
+  }
+}
+
+/**
+ * Phase 2: Extract every section that has not completed yet, a few at a time
+ * Completed sections from earlier runs are never re-extracted, and sections
+ * that succeed are kept even when others fail, so a resumed run only
+ * repeats the failures
+ */
+async function runExtractionPhase(
+  job: IngestionJob,
+  onProgress: IngestionProgressListener
+): Promise<IngestionPhase> {
+  const sections = await getJobSections(job.jobId);
+  const remaining = sections.filter(section => section.status !== 'completed');
+  let completedSections = sections.length - remaining.length;
+
+  console.log(`[${job.jobId}] Phase 2: Extracting ${remaining.length} of ${sections.length} sections...`);
+
+  const pdfBytes = await loadPdf(job.storageKey);
+  const sectorPatterns = await getExistingPatternsForSector(job.structure!.sector);
+  const outcomes = await mapWithConcurrency(
+    remaining,
+    SECTION_EXTRACTION_CONCURRENCY,
+    async section => {
+      onProgress({ type: 'section-started', sectionIndex: section.sectionIndex, totalSections: sections.length });
+      const ok = await extractAndStoreSection(job, section, pdfBytes, sectorPatterns, onProgress);
+      // Heartbeat, so a long extraction isn't mistaken for a dead job and run twice
+      await updateJob(job.jobId, {});
+      if (ok) {
+        completedSections++;
+        onProgress({
+          type: 'section-completed',
+          sectionIndex: section.sectionIndex,
+          completedSections,
+          totalSections: sections.length,
+        });
+      }
+      return ok;
+    }
+  );
+
+  const failedCount = outcomes.filter(ok => !ok).length;
+  if (failedCount > 0) {
+    throw new Error(`${failedCount} of ${sections.length} sections failed to extract`);
+  }
+
+  await updateJob(job.jobId, { currentPhase: 'embeddings' });
+  return 'embeddings';
+}
+
+/**
+ * Phase 3: Generate embeddings for all sections in one batch, plus one
+ * per sub-chunk of each section's verbatim text
+ */
+async function runEmbeddingsPhase(
+  job: IngestionJob,
+  onProgress: IngestionProgressListener
+): Promise<IngestionPhase> {
+  console.log(`[${job.jobId}] Phase 3: Generating embeddings...`);
+  const sections = await getJobSections(job.jobId);
+  const boundaries = sections.map(section => toSectionBoundary(section, job));
+
+  const embeddings = await generateSectionEmbeddings(
+    boundaries,
+    sections.map(section => section.content as SectionContent)
+  );
+
+  // Sections without a text layer have no sub-chunks
+  const subChunks = await generateSubChunkEmbeddings(
+    boundaries,
+    boundaries.map(boundary =>
+      splitIntoSubChunks(getSectionPages(job.pageTexts ?? [], boundary.pageStart, boundary.pageEnd))
+    )
+  );
+
+  await Promise.all(
+    sections.map((section, index) =>
+      updateSection(section.sectionId, { embedding: embeddings[index], subChunks: subChunks[index] })
+    )
+  );
+
+  await updateJob(job.jobId, { currentPhase: 'save' });
+  onProgress({ type: 'embeddings-completed', totalEmbeddings: embeddings.length });
+  return 'save';
+}
+
+/**
+ * Phase 4: Save the document and its chunks
+ */
+async function runSavePhase(
+  job: IngestionJob,
+  onProgress: IngestionProgressListener
+): Promise<IngestionResult> {
+  console.log(`[${job.jobId}] Phase 4: Saving to database...`);
+  const sections = await getJobSections(job.jobId);
+  const structure = job.structure!;
+
+  const result = await saveDocumentToDatabase(
+    structure,
+    sections.map(section => toSectionBoundary(section, job)),
+    sections.map(section => section.content as SectionContent),
+    sections.map(section => section.embedding as number[]),
+    job.storageKey,
+    {
+      contentHash: job.contentHash,
+      pages: job.pageTexts ?? [],
+      subChunks: sections.map(section => section.subChunks ?? []),
+      supersedes: job.supersedesDocId && job.duplicateAction
+        ? { docId: job.supersedesDocId, mode: job.duplicateAction }
+        : undefined,
+    }
+  );
+
+  await updateJob(job.jobId, {
+    status: 'completed',
+    error: null,
+    companyId: result.companyId,
+    documentId: result.documentId,
+    completedAt: new Date(),
+  });
+
+  onProgress({ type: 'saved', documentId: result.documentId, totalChunks: result.totalChunks });
+
+  return {
+    success: true,
+    jobId: job.jobId,
+    companyId: result.companyId,
+    documentId: result.documentId,
+    totalChunks: result.totalChunks,
+    documentTitle: structure.documentTitle,
+    company: structure.company,
+    documentDate: structure.documentDate,
+    sections: structure.sections.length,
+  };
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export type CreateIngestionJobResult =
+  | { status: 'created'; jobId: string }
+  | { status: 'duplicate'; duplicate: DuplicateDocument };
+
+/**
+ * Create a new ingestion job for an uploaded PDF
+ * Uploads identical to an existing active document are detected by content
+ * hash before any LLM call is made, and only proceed with a replace or
+ * version action
+ * The original file is persisted to object storage first, so the job can
+ * be resumed at any point
+ * The job does not start until runIngestionJob is called
+ *
+ * @param file - The uploaded PDF file (already validated)
+ * @param duplicateAction - How to handle an existing document with the same content
+ * @returns The new job ID, or the existing document if no job was created
+ */
+export async function createIngestionJob(
+  file: File,
+  duplicateAction?: DuplicateAction
+): Promise<CreateIngestionJobResult> {
+  const pdfBytes = new Uint8Array(await file.arrayBuffer());
+  const duplicate = await findDocumentByContentHash(hashContent(pdfBytes));
+
+  if (duplicate && (!duplicateAction || duplicateAction === 'skip')) {
+    return { status: 'duplicate', duplicate };
+  }
+
+  const { contentHash, storageKey } = await storePdf(pdfBytes);
+
+  const [job] = await db
+    .insert(ingestionJobs)
+    .values({
+      filename: file.name,
+      fileSize: file.size,
+      contentHash,
+      storageKey,
+      supersedesDocId: duplicate?.docId,
+      duplicateAction: duplicate && duplicateAction !== 'skip' ? duplicateAction : undefined,
+    })
+    .returning({ jobId: ingestionJobs.jobId });
+
+  return { status: 'created', jobId: job.jobId };
+}
+
+/**
+ * Create a job that re-runs the whole pipeline on an existing document's
+ * stored PDF
+ * The document stays active until the new extraction is saved, then its
+ * chunks are swapped out in one step (see saveDocumentToDatabase)
+ * A document with reviewed facts is kept as the previous version rather
+ * than deleted, so the reviews can be consulted against the new extraction
+ *
+ * @param docId - The document to reprocess
+ * @returns The new job ID
+ */
+export async function createReprocessingJob(docId: string): Promise<string> {
+  const [document] = await db
+    .select({
+      filename: documents.filename,
+      storagePath: documents.storagePath,
+      contentHash: documents.contentHash,
+    })
+    .from(documents)
+    .where(eq(documents.docId, docId))
+    .limit(1);
+
+  if (!document) {
+    throw new Error(`Document ${docId} not found`);
+  }
+
+  // Fails early for documents uploaded before original files were stored
+  const pdfBytes = await loadPdf(document.storagePath);
+
+  const [job] = await db
+    .insert(ingestionJobs)
+    .values({
+      filename: document.filename,
+      fileSize: pdfBytes.byteLength,
+      contentHash: document.contentHash ?? hashContent(pdfBytes),
+      storageKey: document.storagePath,
+      supersedesDocId: docId,
+      duplicateAction: 'replace',
+    })
+    .returning({ jobId: ingestionJobs.jobId });
+
+  return job.jobId;
+}
+
+/**
+ * Result for an upload that matched an existing document
+ *
+ * @param duplicate - The existing document
+ * @param skipped - Whether the user chose to keep the existing document
+ */
+export function duplicateResult(duplicate: DuplicateDocument, skipped: boolean): IngestionResult {
+  if (skipped) {
+    return {
+      success: true,
+      skipped: true,
+      duplicate,
+      companyId: duplicate.companyId,
+      documentId: duplicate.docId,
+      documentTitle: duplicate.documentTitle ?? undefined,
+      company: duplicate.companyName,
+    };
+  }
+
+  return {
+    success: false,
+    duplicate,
+    error: 'This document has already been uploaded',
+  };
+}
+
+/**
+ * Run (or resume) an ingestion job from its current phase
+ * Each completed phase is persisted, so a failed run can be resumed
+ * without repeating LLM calls that already succeeded
+ *
+ * @param jobId - The job to run
+ * @param onProgress - Optional listener for structured progress events
+ * @returns Processing result (never throws)
+ */
+export async function runIngestionJob(
+  jobId: string,
+  listener: IngestionProgressListener = noopListener
+): Promise<IngestionResult> {
+  const onProgress = guardListener(jobId, listener);
+  let job: IngestionJob;
+
+  try {
+    job = await getJobOrThrow(jobId);
+  } catch (error) {
+    return { success: false, jobId, error: errorMessage(error) };
+  }
+
+  if (job.status === 'completed') {
+    return { success: false, jobId, error: 'Job has already completed' };
+  }
+
+  if (job.status === 'running' && !isStale(job)) {
+    return { success: false, jobId, error: 'Job is already running' };
+  }
+
+  // Claimed in one statement, so two resumes (or a resume and a stale-job
+  // takeover) that both got this far can't both run the job
+  const [claimed] = await db
+    .update(ingestionJobs)
+    .set({ status: 'running', error: null, attempts: sql`${ingestionJobs.attempts} + 1`, updatedAt: new Date() })
+    .where(and(
+      eq(ingestionJobs.jobId, jobId),
+      ne(ingestionJobs.status, 'completed'),
+      or(ne(ingestionJobs.status, 'running'), lt(ingestionJobs.updatedAt, new Date(Date.now() - STALE_JOB_MS)))
+    ))
+    .returning({ jobId: ingestionJobs.jobId });
+
+  if (!claimed) {
+    return { success: false, jobId, error: 'Job is already running' };
+  }
+
+  try {
+    let phase = job.currentPhase;
+
+    // A resumed job already knows its sections
+    if (phase !== 'structure') {
+      await emitStructure(job, onProgress);
+    }
+
+    while (phase !== 'save') {
+      // Reload so each phase sees the output of the previous one
+      job = await getJobOrThrow(jobId);
+      onProgress({ type: 'phase-started', phase });
+
+      if (phase === 'structure') {
+        phase = await runStructurePhase(job, onProgress);
+      } else if (phase === 'extraction') {
+        phase = await runExtractionPhase(job, onProgress);
+      } else {
+        phase = await runEmbeddingsPhase(job, onProgress);
+      }
+    }
+
+    job = await getJobOrThrow(jobId);
+    onProgress({ type: 'phase-started', phase });
+    const result = await runSavePhase(job, onProgress);
+    console.log(`[${jobId}] Processing complete!`);
+    return result;
+  } catch (error) {
+    console.error(`[${jobId}] Ingestion job failed:`, error);
+    await updateJob(jobId, { status: 'failed', error: errorMessage(error) });
+    return { success: false, jobId, error: errorMessage(error) };
+  }
+}
+
+/**
+ * Retry a single failed section of a job without touching the others
+ * The job itself is left for runIngestionJob to resume
+ *
+ * @param jobId - The job the section belongs to
+ * @param sectionIndex - 0-based section index
+ * @returns Whether the section extracted successfully
+ */
+export async function retryIngestionSection(
+  jobId: string,
+  sectionIndex: number
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const job = await getJobOrThrow(jobId);
+
+    if (job.status === 'running' && !isStale(job)) {
+      return { success: false, error: 'Job is currently running' };
+    }
+
+    if (job.currentPhase !== 'extraction') {
+      return { success: false, error: 'Job is not in the extraction phase' };
+    }
+
+    const [section] = await db
+      .select()
+      .from(ingestionJobSections)
+      .where(and(
+        eq(ingestionJobSections.jobId, jobId),
+        eq(ingestionJobSections.sectionIndex, sectionIndex)
+      ))
+      .limit(1);
+
+    if (!section) {
+      return { success: false, error: `Section ${sectionIndex + 1} not found` };
+    }
+
+    const ok = await extractAndStoreSection(
+      job,
+      section,
+      await loadPdf(job.storageKey),
+      await getExistingPatternsForSector(job.structure!.sector)
+    );
+    if (!ok) {
+      return { success: false, error: 'Section extraction failed again' };
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('Error retrying ingestion section:', error);
+    return { success: false, error: errorMessage(error) };
+  }
+}
+
+/**
+ * List recent ingestion jobs with per-section state
+ *
+ * @param limit - Maximum number of jobs to return
+ */
+export async function listIngestionJobs(limit: number = 20): Promise<IngestionJobSummary[]> {
+  try {
+    const jobs = await db
+      .select({
+        jobId: ingestionJobs.jobId,
+        filename: ingestionJobs.filename,
+        status: ingestionJobs.status,
+        currentPhase: ingestionJobs.currentPhase,
+        error: ingestionJobs.error,
+        attempts: ingestionJobs.attempts,
+        structure: ingestionJobs.structure,
+        documentId: ingestionJobs.documentId,
+        companyId: ingestionJobs.companyId,
+        createdAt: ingestionJobs.createdAt,
+        updatedAt: ingestionJobs.updatedAt,
+        completedAt: ingestionJobs.completedAt,
+      })
+      .from(ingestionJobs)
+      .orderBy(desc(ingestionJobs.createdAt))
+      .limit(limit);
+
+    if (jobs.length === 0) {
+      return [];
+    }
+
+    const sections = await db
+      .select({
+        jobId: ingestionJobSections.jobId,
+        sectionIndex: ingestionJobSections.sectionIndex,
+        sectionTitle: ingestionJobSections.sectionTitle,
+        pageStart: ingestionJobSections.pageStart,
+        pageEnd: ingestionJobSections.pageEnd,
+        status: ingestionJobSections.status,
+        error: ingestionJobSections.error,
+        attempts: ingestionJobSections.attempts,
+      })
+      .from(ingestionJobSections)
+      .where(inArray(ingestionJobSections.jobId, jobs.map(job => job.jobId)))
+      .orderBy(asc(ingestionJobSections.sectionIndex));
+
+    return jobs.map(({ structure, ...job }) => ({
+      ...job,
+      company: structure?.company ?? null,
+      documentTitle: structure?.documentTitle ?? null,
+      sections: sections
+        .filter(section => section.jobId === job.jobId)
+        .map(({ jobId: _jobId, ...section }) => section),
+    }));
+  } catch (error) {
+    console.error('Error listing ingestion jobs:', error);
+    throw new Error(
+      `Failed to list ingestion jobs: ${errorMessage(error)}`
+    );
+  }
+}
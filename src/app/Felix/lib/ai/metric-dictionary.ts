@@ -0,0 +1,423 @@
+import {
+  db,
+  companies,
+  documentChunks,
+  documents,
+  metricDefinitions,
+  metricReviewQueue,
+} from '@/db';
+import type { MetricDefinition, NewMetricReview } from '@/db';
+import { and, asc, desc, eq, sql } from 'drizzle-orm';
+import { applyScale, formatUnit, normalizeMetricKey, parseUnit } from '../utils/metric-units';
+import type { NormalizedQuantitativeData, QuantitativeData, StoredFact } from './schemas';
+import type {
+  MetricDefinitionInput,
+  MetricReviewItem,
+  MetricReviewReason,
+} from '../../types/metrics';
+
+/**
+ * Starting dictionary, seeded by `npm run db:seed:metrics`
+ * Aliases are normalized metric keys (see normalizeMetricKey)
+ */
+export const DEFAULT_METRIC_DEFINITIONS: MetricDefinitionInput[] = [
+  { canonicalName: 'revenue', displayName: 'Revenue', unitFamily: 'currency', aliases: ['revenues', 'total_revenue', 'total_revenues', 'net_revenue', 'net_sales', 'sales', 'turnover'] },
+  { canonicalName: 'rental_revenue', displayName: 'Rental revenue', unitFamily: 'currency', aliases: ['rental_income', 'rent_revenue', 'gross_rental_income', 'rental_revenues'] },
+  { canonicalName: 'gross_profit', displayName: 'Gross profit', unitFamily: 'currency' },
+  { canonicalName: 'operating_income', displayName: 'Operating income', unitFamily: 'currency', aliases: ['operating_profit', 'ebit', 'income_from_operations'] },
+  { canonicalName: 'ebitda', displayName: 'EBITDA', unitFamily: 'currency' },
+  { canonicalName: 'adjusted_ebitda', displayName: 'Adjusted EBITDA', unitFamily: 'currency' },
+  { canonicalName: 'net_income', displayName: 'Net income', unitFamily: 'currency', aliases: ['net_profit', 'net_earnings', 'profit_after_tax', 'profit_for_the_year', 'profit_for_the_period'] },
+  { canonicalName: 'operating_expenses', displayName: 'Operating expenses', unitFamily: 'currency', aliases: ['opex', 'total_operating_expenses'] },
+  { canonicalName: 'capital_expenditure', displayName: 'Capital expenditure', unitFamily: 'currency', aliases: ['capex', 'capital_expenditures'] },
+  { canonicalName: 'operating_cash_flow', displayName: 'Operating cash flow', unitFamily: 'currency', aliases: ['cash_from_operations', 'cash_flow_from_operations', 'net_cash_from_operating_activities'] },
+  { canonicalName: 'free_cash_flow', displayName: 'Free cash flow', unitFamily: 'currency', aliases: ['fcf'] },
+  { canonicalName: 'ffo', displayName: 'Funds from operations', unitFamily: 'currency', aliases: ['funds_from_operations'] },
+  { canonicalName: 'affo', displayName: 'Adjusted funds from operations', unitFamily: 'currency', aliases: ['adjusted_funds_from_operations'] },
+  { canonicalName: 'eps', displayName: 'Earnings per share', unitFamily: 'currency', aliases: ['earnings_per_share', 'basic_eps', 'diluted_eps'] },
+  { canonicalName: 'dividend_per_share', displayName: 'Dividend per share', unitFamily: 'currency', aliases: ['dps', 'dividend'] },
+  { canonicalName: 'total_assets', displayName: 'Total assets', unitFamily: 'currency' },
+  { canonicalName: 'cash', displayName: 'Cash and cash equivalents', unitFamily: 'currency', aliases: ['cash_and_cash_equivalents', 'cash_and_equivalents'] },
+  { canonicalName: 'total_debt', displayName: 'Total debt', unitFamily: 'currency', aliases: ['gross_debt', 'total_borrowings', 'borrowings'] },
+  { canonicalName: 'net_debt', displayName: 'Net debt', unitFamily: 'currency' },
+  { canonicalName: 'gross_margin', displayName: 'Gross margin', unitFamily: 'percent' },
+  { canonicalName: 'operating_margin', displayName: 'Operating margin', unitFamily: 'percent', aliases: ['ebit_margin'] },
+  { canonicalName: 'ebitda_margin', displayName: 'EBITDA margin', unitFamily: 'percent' },
+  { canonicalName: 'net_margin', displayName: 'Net margin', unitFamily: 'percent', aliases: ['net_profit_margin'] },
+  { canonicalName: 'revenue_growth', displayName: 'Revenue growth', unitFamily: 'percent', aliases: ['revenue_growth_rate', 'sales_growth'] },
+  { canonicalName: 'occupancy_rate', displayName: 'Occupancy rate', unitFamily: 'percent', aliases: ['occupancy', 'occupancy_percentage'] },
+  { canonicalName: 'loan_to_value', displayName: 'Loan to value', unitFamily: 'percent', aliases: ['ltv', 'loan_to_value_ratio'] },
+  { canonicalName: 'net_debt_to_ebitda', displayName: 'Net debt / EBITDA', unitFamily: 'ratio', aliases: ['leverage', 'leverage_ratio', 'net_debt_ebitda'] },
+  { canonicalName: 'headcount', displayName: 'Headcount', unitFamily: 'count', aliases: ['employees', 'number_of_employees', 'employee_count', 'ftes'] },
+  { canonicalName: 'property_count', displayName: 'Number of properties', unitFamily: 'count', aliases: ['number_of_properties', 'properties', 'portfolio_size'] },
+  { canonicalName: 'customer_count', displayName: 'Number of customers', unitFamily: 'count', aliases: ['customers', 'number_of_customers'] },
+];
+
+/**
+ * Minimum share of shared name words for a canonical metric to be suggested
+ * for an unmapped one
+ */
+const SUGGESTION_MIN_OVERLAP = 0.5;
+
+/**
+ * Canonical metrics by every key they are known by
+ */
+export type MetricDictionary = Map<string, MetricDefinition>;
+
+/**
+ * A fact after normalization, and why it needs review, if it does
+ */
+export interface NormalizedFact {
+  fact: StoredFact<NormalizedQuantitativeData>;
+  metricKey: string;
+  review: { reason: MetricReviewReason; suggestedMetric: string | null } | null;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function suggestMetric(metricKey: string, definitions: MetricDefinition[]): string | null {
+  const words = new Set(metricKey.split('_').filter(Boolean));
+  let best: { name: string; overlap: number } | null = null;
+
+  for (const definition of definitions) {
+    const candidateWords = new Set(definition.canonicalName.split('_'));
+    const shared = [...words].filter(word => candidateWords.has(word)).length;
+    const overlap = shared / new Set([...words, ...candidateWords]).size;
+
+    if (overlap >= SUGGESTION_MIN_OVERLAP && (!best || overlap > best.overlap)) {
+      best = { name: definition.canonicalName, overlap };
+    }
+  }
+
+  return best?.name ?? null;
+}
+
+/**
+ * The fact as extracted, even if it was normalized before
+ */
+function toExtractedFact(fact: StoredFact<NormalizedQuantitativeData>): StoredFact<QuantitativeData> {
+  const { original, canonical: _canonical, ...rest } = fact;
+  return original ? { ...rest, ...original } : rest;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Load the metric dictionary, keyed by canonical name and every alias
+ */
+export async function loadMetricDictionary(): Promise<MetricDictionary> {
+  const definitions = await db.select().from(metricDefinitions);
+  const dictionary: MetricDictionary = new Map();
+
+  definitions.forEach(definition => {
+    dictionary.set(definition.canonicalName, definition);
+    definition.aliases.forEach(alias => {
+      if (!dictionary.has(alias)) {
+        dictionary.set(alias, definition);
+      }
+    });
+  });
+
+  return dictionary;
+}
+
+/**
+ * Map an extracted PAQN fact onto the dictionary and unscale its value
+ * Unmapped metrics keep their normalized name; metrics whose unit belongs to
+ * another family than expected keep their canonical name. Both need review
+ *
+ * @param fact - Extracted (or previously normalized) fact
+ * @param dictionary - From loadMetricDictionary
+ */
+export function normalizeQuantitativeFact(
+  fact: StoredFact<NormalizedQuantitativeData>,
+  dictionary: MetricDictionary
+): NormalizedFact {
+  const extracted = toExtractedFact(fact);
+  const metricKey = normalizeMetricKey(extracted.metricName);
+  const parsed = parseUnit(extracted.unit, extracted.metricName);
+  const definition = dictionary.get(metricKey);
+
+  const normalized: StoredFact<NormalizedQuantitativeData> = {
+    ...extracted,
+    metricName: definition?.canonicalName ?? (metricKey || extracted.metricName),
+    value: applyScale(extracted.value, parsed.scale),
+    unit: formatUnit(parsed),
+    original: { metricName: extracted.metricName, value: extracted.value, unit: extracted.unit },
+    canonical: Boolean(definition),
+  };
+
+  // Without a seeded dictionary every metric is unmapped - don't queue them all,
+  // nor facts a reviewer has rejected
+  if ((!definition && dictionary.size === 0) || fact.review?.status === 'rejected') {
+    return { fact: normalized, metricKey, review: null };
+  }
+
+  if (!definition) {
+    const definitions = [...new Set(dictionary.values())];
+    return {
+      fact: normalized,
+      metricKey,
+      review: { reason: 'unmapped_metric', suggestedMetric: suggestMetric(metricKey, definitions) },
+    };
+  }
+
+  return {
+    fact: normalized,
+    metricKey,
+    review: definition.unitFamily !== parsed.family
+      ? { reason: 'unit_mismatch', suggestedMetric: null }
+      : null,
+  };
+}
+
+/**
+ * Queue the facts of saved chunks that need review
+ * Re-queuing a fact that is already queued leaves the existing entry alone
+ *
+ * @param docId - Document the chunks belong to
+ * @param chunks - Each chunk's ID with its normalized facts, in fact order
+ */
+export async function queueMetricReviews(
+  docId: string,
+  chunks: Array<{ chunkId: string; facts: NormalizedFact[] }>
+) {
+  const rows: NewMetricReview[] = chunks.flatMap(({ chunkId, facts }) =>
+    facts.flatMap((normalized, factIndex) => normalized.review
+      ? [{
+          docId,
+          chunkId,
+          factIndex,
+          reason: normalized.review.reason,
+          metricKey: normalized.metricKey,
+          fact: normalized.fact,
+          suggestedMetric: normalized.review.suggestedMetric,
+        }]
+      : []
+    )
+  );
+
+  if (rows.length > 0) {
+    await db.insert(metricReviewQueue).values(rows).onConflictDoNothing();
+  }
+
+  return rows.length;
+}
+
+/**
+ * Add the default metrics to the dictionary
+ * Existing metrics keep their settings and gain any new default aliases
+ *
+ * @returns Number of metrics created
+ */
+export async function seedMetricDefinitions(): Promise<number> {
+  const existing = await db.select().from(metricDefinitions);
+  const byName = new Map(existing.map(definition => [definition.canonicalName, definition]));
+  let created = 0;
+
+  for (const definition of DEFAULT_METRIC_DEFINITIONS) {
+    const current = byName.get(definition.canonicalName);
+
+    if (!current) {
+      await db.insert(metricDefinitions).values({
+        ...definition,
+        aliases: definition.aliases ?? [],
+      });
+      created++;
+      continue;
+    }
+
+    const aliases = [...new Set([...current.aliases, ...(definition.aliases ?? [])])];
+    if (aliases.length !== current.aliases.length) {
+      await db
+        .update(metricDefinitions)
+        .set({ aliases, updatedAt: new Date() })
+        .where(eq(metricDefinitions.metricId, current.metricId));
+    }
+  }
+
+  return created;
+}
+
+/**
+ * Re-normalize every stored PAQN fact against the current dictionary, e.g.
+ * after seeding it or for documents saved before it existed
+ *
+ * @returns Number of chunks updated and facts queued for review
+ */
+export async function normalizeStoredFacts() {
+  const dictionary = await loadMetricDictionary();
+  const chunks = await db
+    .select({
+      chunkId: documentChunks.chunkId,
+      docId: documentChunks.docId,
+      quantitativeData: documentChunks.quantitativeData,
+    })
+    .from(documentChunks)
+    .where(sql`jsonb_array_length(${documentChunks.quantitativeData}) > 0`);
+
+  let queued = 0;
+
+  for (const chunk of chunks) {
+    const facts = (chunk.quantitativeData ?? []).map(fact => normalizeQuantitativeFact(fact, dictionary));
+
+    await db
+      .update(documentChunks)
+      .set({ quantitativeData: facts.map(normalized => normalized.fact) })
+      .where(eq(documentChunks.chunkId, chunk.chunkId));
+    queued += await queueMetricReviews(chunk.docId, [{ chunkId: chunk.chunkId, facts }]);
+  }
+
+  return { chunks: chunks.length, queued };
+}
+
+/**
+ * List every metric in the dictionary
+ */
+export async function listMetricDefinitions() {
+  return db.select().from(metricDefinitions).orderBy(asc(metricDefinitions.canonicalName));
+}
+
+/**
+ * Add a metric to the dictionary
+ *
+ * @param input - Canonical name (normalized to snake_case), display name, unit family and aliases
+ */
+export async function createMetricDefinition(input: MetricDefinitionInput): Promise<MetricDefinition> {
+  const canonicalName = normalizeMetricKey(input.canonicalName);
+  if (!canonicalName) {
+    throw new Error('Canonical name is required');
+  }
+
+  const [definition] = await db
+    .insert(metricDefinitions)
+    .values({
+      canonicalName,
+      displayName: input.displayName.trim() || input.canonicalName,
+      description: input.description ?? null,
+      unitFamily: input.unitFamily,
+      aliases: [...new Set((input.aliases ?? []).map(normalizeMetricKey).filter(Boolean))],
+    })
+    .returning();
+
+  return definition;
+}
+
+/**
+ * List open review items, most recent first
+ */
+export async function listMetricReviews(): Promise<MetricReviewItem[]> {
+  const rows = await db
+    .select({
+      reviewId: metricReviewQueue.reviewId,
+      reason: metricReviewQueue.reason,
+      metricKey: metricReviewQueue.metricKey,
+      fact: metricReviewQueue.fact,
+      suggestedMetric: metricReviewQueue.suggestedMetric,
+      createdAt: metricReviewQueue.createdAt,
+      companyName: companies.name,
+      documentTitle: documents.documentTitle,
+      sectionTitle: documentChunks.sectionTitle,
+    })
+    .from(metricReviewQueue)
+    .innerJoin(documentChunks, eq(metricReviewQueue.chunkId, documentChunks.chunkId))
+    .innerJoin(documents, eq(metricReviewQueue.docId, documents.docId))
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(eq(metricReviewQueue.status, 'open'))
+    .orderBy(desc(metricReviewQueue.createdAt));
+
+  return rows.map(({ fact, ...row }) => ({
+    ...row,
+    metricName: fact.original?.metricName ?? fact.metricName,
+    value: fact.value,
+    unit: fact.unit,
+    period: fact.period ?? null,
+  }));
+}
+
+/**
+ * Resolve a review item by mapping its metric to a canonical one
+ * Every open item with the same extracted name is resolved with it, and the
+ * name becomes an alias so future extractions map automatically
+ *
+ * @param reviewId - Item to resolve
+ * @param metricId - Canonical metric it is an instance of
+ * @returns Number of facts updated, or null if the item or metric doesn't exist
+ */
+export async function resolveMetricReview(reviewId: string, metricId: string): Promise<number | null> {
+  const [item] = await db
+    .select()
+    .from(metricReviewQueue)
+    .where(and(eq(metricReviewQueue.reviewId, reviewId), eq(metricReviewQueue.status, 'open')))
+    .limit(1);
+  const [definition] = await db
+    .select()
+    .from(metricDefinitions)
+    .where(eq(metricDefinitions.metricId, metricId))
+    .limit(1);
+
+  if (!item || !definition) {
+    return null;
+  }
+
+  // A unit mismatch is resolved by accepting the fact as it is
+  const items = item.reason === 'unmapped_metric'
+    ? await db
+      .select()
+      .from(metricReviewQueue)
+      .where(and(
+        eq(metricReviewQueue.metricKey, item.metricKey),
+        eq(metricReviewQueue.reason, 'unmapped_metric'),
+        eq(metricReviewQueue.status, 'open')
+      ))
+    : [item];
+
+  if (item.reason === 'unmapped_metric') {
+    for (const entry of items) {
+      await db
+        .update(documentChunks)
+        .set({
+          quantitativeData: sql`jsonb_set(
+            jsonb_set(${documentChunks.quantitativeData}, ${`{${entry.factIndex},metricName}`}::text[], to_jsonb(${definition.canonicalName}::text)),
+            ${`{${entry.factIndex},canonical}`}::text[], 'true'::jsonb
+          )`,
+        })
+        .where(eq(documentChunks.chunkId, entry.chunkId));
+    }
+
+    if (!definition.aliases.includes(item.metricKey)) {
+      await db
+        .update(metricDefinitions)
+        .set({ aliases: [...definition.aliases, item.metricKey], updatedAt: new Date() })
+        .where(eq(metricDefinitions.metricId, metricId));
+    }
+  }
+
+  for (const entry of items) {
+    await db
+      .update(metricReviewQueue)
+      .set({ status: 'resolved', resolvedMetricId: metricId, resolvedAt: new Date() })
+      .where(eq(metricReviewQueue.reviewId, entry.reviewId));
+  }
+
+  return items.length;
+}
+
+/**
+ * Dismiss a review item, leaving its fact as it is
+ *
+ * @returns False if the item doesn't exist or isn't open
+ */
+export async function dismissMetricReview(reviewId: string): Promise<boolean> {
+  const dismissed = await db
+    .update(metricReviewQueue)
+    .set({ status: 'dismissed', resolvedAt: new Date() })
+    .where(and(eq(metricReviewQueue.reviewId, reviewId), eq(metricReviewQueue.status, 'open')))
+    .returning({ reviewId: metricReviewQueue.reviewId });
+
+  return dismissed.length > 0;
+}
@@ -0,0 +1,205 @@
+import { db } from '@/db';
+import { documentChunks, documents, companies } from '@/db/schema';
+import { and, eq, ilike, inArray, or, sql, type SQL } from 'drizzle-orm';
+import { parseFlexibleDate } from '../utils/date-parser';
+import { normalizeMetricKey } from '../utils/metric-units';
+import { loadMetricDictionary } from './metric-dictionary';
+import { createCurrencyConverter, getFactCurrency } from './fx-rates';
+import type { CurrencyConversion } from '../../types/currency';
+import type { FactReviewStatus, NormalizedQuantitativeData, StoredFact } from './schemas';
+
+/**
+ * Upper bound on facts returned by one query, keeping tool results
+ * small enough to hand back to the model
+ */
+const MAX_METRIC_FACTS = 200;
+
+/**
+ * A single extracted PAQN fact with the source it came from
+ */
+export interface MetricFact {
+  companyId: string;
+  companyName: string;
+  metricName: string;
+  value: number;
+  unit: string;
+  period: string | null;
+  periodDate: string | null; // ISO date parsed from period, used for filtering and sorting
+  context: string | null;
+  docId: string;
+  documentTitle: string | null;
+  chunkId: string;
+  sectionTitle: string | null;
+  pageStart: number | null;
+  /** Set once a reviewer has approved, edited or added the fact */
+  reviewStatus: FactReviewStatus | null;
+  /** The value in the reporting currency, when one was requested and a rate exists */
+  conversion?: CurrencyConversion;
+}
+
+export interface MetricFactFilters {
+  companyIds: string[];
+  /** Metric name terms, matched loosely ("rental revenue" matches rental_revenue) */
+  metricNames?: string[];
+  /** Inclusive period range, in any format parseFlexibleDate understands */
+  periodFrom?: string;
+  periodTo?: string;
+  /** ISO 4217 code to convert currency amounts into, at their period's rate */
+  reportingCurrency?: string;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * One row per PAQN fact of every active chunk of the given companies
+ */
+function quantitativeFacts(companyIds: string[]) {
+  return db
+    .select({
+      fact: sql<StoredFact<NormalizedQuantitativeData>>`jsonb_array_elements(${documentChunks.quantitativeData})`.as('fact'),
+      chunkId: documentChunks.chunkId,
+      sectionTitle: documentChunks.sectionTitle,
+      pageStart: documentChunks.pageStart,
+      docId: documents.docId,
+      documentTitle: documents.documentTitle,
+      documentDate: documents.documentDate,
+      companyId: companies.companyId,
+      companyName: companies.name,
+    })
+    .from(documentChunks)
+    .innerJoin(documents, eq(documentChunks.docId, documents.docId))
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(and(inArray(companies.companyId, companyIds), eq(documents.isActive, true)))
+    .as('facts');
+}
+
+/**
+ * Leave out facts rejected in review
+ */
+function isActiveFactRow(fact: SQL) {
+  return sql`coalesce(${fact}->'review'->>'status', '') <> 'rejected'`;
+}
+
+function toMetricPattern(term: string): string {
+  return `%${term.trim().toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).join('%')}%`;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Query extracted PAQN facts directly from the chunks' quantitative data
+ * Metric and company filters run in SQL; period strings are free-form, so
+ * the period range is applied after parsing them
+ * Facts without a parseable period are converted at their document's date
+ *
+ * @param filters - Companies, metric name terms, period range and reporting currency
+ * @returns Matching facts, ordered by company, metric and period
+ */
+export async function queryMetricFacts(filters: MetricFactFilters): Promise<MetricFact[]> {
+  try {
+    const { companyIds, metricNames = [], periodFrom, periodTo, reportingCurrency } = filters;
+
+    if (companyIds.length === 0) {
+      return [];
+    }
+
+    // An alias ("turnover") also finds facts stored under its canonical name ("revenue")
+    const dictionary = metricNames.length > 0 ? await loadMetricDictionary() : new Map();
+    const canonicalNames = metricNames
+      .map(term => dictionary.get(normalizeMetricKey(term))?.canonicalName)
+      .filter((name): name is string => Boolean(name));
+
+    const facts = quantitativeFacts(companyIds);
+    const metricName = sql<string>`${facts.fact}->>'metricName'`;
+    const patterns = [...new Set([...metricNames, ...canonicalNames].map(toMetricPattern))]
+      .filter(pattern => pattern !== '%%');
+
+    const rows = await db
+      .select()
+      .from(facts)
+      .where(and(
+        isActiveFactRow(sql`${facts.fact}`),
+        patterns.length > 0 ? or(...patterns.map(pattern => ilike(metricName, pattern))) : undefined
+      ))
+      .limit(MAX_METRIC_FACTS);
+
+    const from = parseFlexibleDate(periodFrom);
+    const to = parseFlexibleDate(periodTo);
+
+    const matched = rows
+      .map(({ fact, documentDate, ...row }) => {
+        const periodDate = parseFlexibleDate(fact.period);
+        return {
+          ...row,
+          metricName: fact.metricName,
+          value: fact.value,
+          unit: fact.unit,
+          period: fact.period ?? null,
+          periodDate: periodDate ? periodDate.toISOString().split('T')[0] : null,
+          context: fact.context ?? null,
+          reviewStatus: fact.review?.status ?? null,
+          date: periodDate,
+          conversionDate: periodDate ?? (documentDate ? new Date(documentDate) : null),
+        };
+      })
+      // Facts without a parseable period can't be placed in a range
+      .filter(({ date }) => (!from && !to) || (date && (!from || date >= from) && (!to || date <= to)))
+      .sort((a, b) =>
+        a.companyName.localeCompare(b.companyName)
+        || a.metricName.localeCompare(b.metricName)
+        || (a.date?.getTime() ?? 0) - (b.date?.getTime() ?? 0)
+      );
+
+    if (!reportingCurrency) {
+      return matched.map(({ date: _date, conversionDate: _conversionDate, ...fact }) => fact);
+    }
+
+    const currencies = matched
+      .map(fact => getFactCurrency(fact))
+      .filter((currency): currency is string => Boolean(currency));
+    const convert = await createCurrencyConverter(reportingCurrency, [...new Set(currencies)]);
+
+    return matched.map(({ date: _date, conversionDate, ...fact }) => {
+      const conversion = convert(fact, conversionDate);
+      return conversion ? { ...fact, conversion } : fact;
+    });
+  } catch (error) {
+    console.error('Error querying metric facts:', error);
+    throw new Error(
+      `Failed to query metric facts: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * List the distinct metric names extracted for the given companies
+ *
+ * @param companyIds - Companies to list metrics for
+ */
+export async function listMetricNames(companyIds: string[]): Promise<string[]> {
+  try {
+    if (companyIds.length === 0) {
+      return [];
+    }
+
+    const facts = quantitativeFacts(companyIds);
+    const metricName = sql<string>`${facts.fact}->>'metricName'`;
+
+    const rows = await db
+      .selectDistinct({ metricName })
+      .from(facts)
+      .where(isActiveFactRow(sql`${facts.fact}`))
+      .orderBy(metricName);
+
+    return rows.map(row => row.metricName).filter(Boolean);
+  } catch (error) {
+    console.error('Error listing metric names:', error);
+    throw new Error(
+      `Failed to list metric names: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
@@ -0,0 +1,146 @@
+import { createOpenAI, type OpenAIProvider } from '@ai-sdk/openai';
+import type { EmbeddingModel, LanguageModel } from 'ai';
+
+/**
+ * What a model is used for - each role is configured separately
+ */
+export type ModelRole = 'extraction' | 'chat' | 'queryRewrite' | 'rerank' | 'embedding';
+
+export type LanguageModelRole = Exclude<ModelRole, 'embedding'>;
+
+/**
+ * openai: the OpenAI API (OPENAI_API_KEY, optionally OPENAI_BASE_URL)
+ * compatible: any OpenAI-compatible server, e.g. Ollama, vLLM or LM Studio
+ */
+export type ModelProviderName = 'openai' | 'compatible';
+
+export interface ModelConfig {
+  role: ModelRole;
+  provider: ModelProviderName;
+  modelId: string;
+}
+
+/**
+ * Environment variable and default for each role
+ * Values are `provider:model`; a bare model name uses openai
+ */
+const MODEL_SETTINGS: Record<ModelRole, { env: string; fallback: string }> = {
+  extraction: { env: 'EXTRACTION_MODEL', fallback: 'openai:gpt-5-mini' },
+  chat: { env: 'CHAT_MODEL', fallback: 'openai:gpt-4o-mini' },
+  queryRewrite: { env: 'QUERY_REWRITE_MODEL', fallback: 'openai:gpt-4o-mini' },
+  rerank: { env: 'RERANK_MODEL', fallback: 'openai:gpt-4o-mini' },
+  embedding: { env: 'EMBEDDING_MODEL', fallback: 'openai:text-embedding-3-small' },
+};
+
+const PROVIDER_NAMES: ModelProviderName[] = ['openai', 'compatible'];
+
+const providers = new Map<ModelProviderName, OpenAIProvider>();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function getProvider(name: ModelProviderName): OpenAIProvider {
+  const cached = providers.get(name);
+  if (cached) {
+    return cached;
+  }
+
+  let provider: OpenAIProvider;
+
+  if (name === 'compatible') {
+    const baseURL = process.env.COMPATIBLE_BASE_URL;
+    if (!baseURL) {
+      throw new Error('COMPATIBLE_BASE_URL must be set to use the compatible provider');
+    }
+
+    provider = createOpenAI({
+      name: 'compatible',
+      baseURL,
+      // Most local servers ignore the key but the client always sends one
+      apiKey: process.env.COMPATIBLE_API_KEY || 'not-needed',
+    });
+  } else {
+    provider = createOpenAI();
+  }
+
+  providers.set(name, provider);
+  return provider;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Parse a `provider:model` spec, e.g. from an environment variable or a script
+ *
+ * @param role - What the model is used for (named in errors)
+ * @param spec - `provider:model`, or a bare model name for openai
+ * @returns Parsed model configuration
+ */
+export function parseModelSpec(role: ModelRole, spec: string): ModelConfig {
+  // Split on the first colon only - local model tags contain colons (llama3.1:8b)
+  const separator = spec.indexOf(':');
+  if (separator < 0) {
+    return { role, provider: 'openai', modelId: spec };
+  }
+
+  const provider = spec.slice(0, separator) as ModelProviderName;
+  const modelId = spec.slice(separator + 1);
+
+  if (!PROVIDER_NAMES.includes(provider)) {
+    throw new Error(
+      `Unknown provider "${provider}" in ${MODEL_SETTINGS[role].env}. Valid providers: ${PROVIDER_NAMES.join(', ')}`
+    );
+  }
+  if (!modelId) {
+    throw new Error(`${MODEL_SETTINGS[role].env} is missing a model name`);
+  }
+
+  return { role, provider, modelId };
+}
+
+/**
+ * Format a model configuration back into its `provider:model` spec
+ */
+export function formatModelSpec({ provider, modelId }: ModelConfig): string {
+  return `${provider}:${modelId}`;
+}
+
+/**
+ * Get the provider and model configured for a role
+ *
+ * @param role - What the model is used for
+ * @returns Parsed model configuration
+ */
+export function getModelConfig(role: ModelRole): ModelConfig {
+  const { env, fallback } = MODEL_SETTINGS[role];
+  return parseModelSpec(role, process.env[env]?.trim() || fallback);
+}
+
+/**
+ * Get the language model for extraction, chat, query rewriting or reranking
+ *
+ * @param role - What the model is used for
+ * @returns A model for generateText, generateObject or streamText
+ */
+export function getLanguageModel(role: LanguageModelRole): LanguageModel {
+  const { provider, modelId } = getModelConfig(role);
+
+  // Compatible servers implement chat completions, not OpenAI's responses API
+  return provider === 'compatible'
+    ? getProvider(provider).chat(modelId)
+    : getProvider(provider)(modelId);
+}
+
+/**
+ * Get a text embedding model
+ *
+ * @param config - Model to use (defaults to EMBEDDING_MODEL)
+ * @returns A model for embed and embedMany
+ */
+export function getEmbeddingModel(config = getModelConfig('embedding')): EmbeddingModel<string> {
+  const { provider, modelId } = config;
+  return getProvider(provider).textEmbeddingModel(modelId);
+}
@@ -1,5 +1,5 @@
 import { generateObject } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { getLanguageModel } from './models';
 import { PDFDocument } from 'pdf-lib';
 import {
   documentStructureSchema,
@@ -7,9 +7,49 @@ import {
   type DocumentStructure,
   type SectionContent,
   type SectionBoundary,
+  type SectionExtractionResult,
 } from './schemas';
+import { formatPagesForPrompt, getSectionPages, type PageText } from './text-extraction';
+import { listMetricDefinitions } from './metric-dictionary';
 import { db, companies, documents, documentChunks } from '@/db';
-import { eq } from 'drizzle-orm';
+import { and, eq } from 'drizzle-orm';
+import { retryWithBackoff, type RetryOptions } from '@/utils/retry';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/**
+ * Version of the extraction pipeline, recorded on every saved document
+ * Bump this whenever the prompts or sectionContentSchema change, then run
+ * `npm run db:reprocess` to re-extract documents made by older versions
+ */
+export const EXTRACTION_PIPELINE_VERSION = 4;
+
+/**
+ * Sections extracted at once, so a long report doesn't fire every LLM call
+ * at the same moment and run into provider rate limits
+ */
+export const SECTION_EXTRACTION_CONCURRENCY = 4;
+
+/**
+ * Retries for a section whose extraction failed outright, e.g. output that
+ * didn't match the schema. Rate limits and server errors are already retried
+ * by the AI SDK inside each attempt
+ */
+const SECTION_RETRY_OPTIONS: RetryOptions<SectionContent> = {
+  maxRetries: 2,
+  retryDelay: 2000,
+  backoffMultiplier: 2,
+  maxDelay: 20000,
+  jitter: 0.2,
+};
+
+/**
+ * Names already used in a sector, hinted to the model for consistent naming
+ */
+export interface SectorPatterns {
+  timeBasedEventTypes: string[];
+  qualitativeTopics: string[];
+  quantitativeMetricNames: string[];
+}
 
 // ============================================
 // UTILITY FUNCTIONS
@@ -50,6 +90,25 @@ export async function extractPdfPages(
   pdfBytes: Uint8Array,
   startPage: number,
   endPage: number
+): Promise<string> {
+  const pageNumbers = [];
+  for (let page = startPage; page <= endPage; page++) {
+    pageNumbers.push(page);
+  }
+
+  return extractPdfPageList(pdfBytes, pageNumbers);
+}
+
+/**
+ * Extract an arbitrary, possibly non-contiguous, list of pages from a PDF
+ *
+ * @param pdfBytes - Original PDF as Uint8Array
+ * @param pageNumbers - Pages to keep (1-indexed), in output order
+ * @returns New PDF with only the specified pages as base64 data URL
+ */
+export async function extractPdfPageList(
+  pdfBytes: Uint8Array,
+  pageNumbers: number[]
 ): Promise<string> {
   try {
     // Load the PDF
@@ -59,10 +118,7 @@ export async function extractPdfPages(
     const newPdfDoc = await PDFDocument.create();
 
     // Copy pages (pdf-lib uses 0-indexed, but our schema is 1-indexed)
-    const pagesToCopy = [];
-    for (let i = startPage - 1; i < endPage; i++) {
-      pagesToCopy.push(i);
-    }
+    const pagesToCopy = pageNumbers.map(page => page - 1);
 
     const copiedPages = await newPdfDoc.copyPages(pdfDoc, pagesToCopy);
     copiedPages.forEach(page => newPdfDoc.addPage(page));
@@ -74,7 +130,7 @@ export async function extractPdfPages(
     const base64 = Buffer.from(newPdfBytes).toString('base64');
     return `data:application/pdf;base64,${base64}`;
   } catch (error) {
-    console.error(`Error extracting pages ${startPage}-${endPage}:`, error);
+    console.error(`Error extracting pages ${pageNumbers.join(', ')}:`, error);
     throw new Error(
       `Failed to extract PDF pages: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
@@ -128,12 +184,9 @@ async function getExistingSectors(): Promise<string[]> {
 /**
  * Fetch existing categorized information patterns from the database for a specific sector
  * Returns examples of TB, PAQL, and PAQN data to help with consistency
+ * Fetch once per document and pass to each section's extraction
  */
-async function getExistingPatternsForSector(sector: string): Promise<{
-  timeBasedEventTypes: string[];
-  qualitativeTopics: string[];
-  quantitativeMetricNames: string[];
-}> {
+export async function getExistingPatternsForSector(sector: string): Promise<SectorPatterns> {
   try {
     const result = await db
       .select({
@@ -144,13 +197,16 @@ async function getExistingPatternsForSector(sector: string): Promise<{
       .from(documentChunks)
       .innerJoin(documents, eq(documentChunks.docId, documents.docId))
       .innerJoin(companies, eq(documents.companyId, companies.companyId))
-      .where(eq(companies.sector, sector))
+      .where(and(eq(companies.sector, sector), eq(documents.isActive, true)))
       .limit(500); // Get more data for better pattern recognition
 
     // Extract unique patterns from each category
+    // Canonical metrics from the dictionary come first, so the model prefers them
     const timeBasedEventTypes = new Set<string>();
     const qualitativeTopics = new Set<string>();
-    const quantitativeMetricNames = new Set<string>();
+    const quantitativeMetricNames = new Set<string>(
+      (await listMetricDefinitions()).map(definition => definition.canonicalName)
+    );
 
     result.forEach(row => {
       // Time-Based (TB) event types
@@ -215,7 +271,7 @@ If the company's sector is similar to one of these existing sectors, please use
       : '';
 
     const result = await generateObject({
-      model: openai('gpt-5-mini'),
+      model: getLanguageModel('extraction'),
       schema: documentStructureSchema,
       temperature: 0.1,
       maxRetries: 3,
@@ -269,6 +325,59 @@ Only identify section boundaries.`,
   }
 }
 
+type SectionInputPart =
+  | { type: 'text'; text: string }
+  | { type: 'file'; data: string; mediaType: string };
+
+/**
+ * Build the user message parts for a section
+ * Pages with a usable text layer are sent as text; only the pages that need
+ * visual parsing (scanned, table-heavy) are attached as a PDF
+ * Without a text layer the whole section is attached
+ */
+async function buildSectionInput(
+  pdfBytes: Uint8Array,
+  section: SectionBoundary,
+  pages: PageText[]
+): Promise<SectionInputPart[]> {
+  const sectionPages = getSectionPages(pages, section.pageStart, section.pageEnd);
+
+  if (sectionPages.length === 0) {
+    return [{
+      type: 'file',
+      data: await extractPdfPages(pdfBytes, section.pageStart, section.pageEnd),
+      mediaType: 'application/pdf',
+    }];
+  }
+
+  const textPages = sectionPages.filter(page => !page.needsVisualParsing);
+  const visualPages = sectionPages.filter(page => page.needsVisualParsing);
+  const parts: SectionInputPart[] = [];
+
+  if (textPages.length > 0) {
+    parts.push({
+      type: 'text',
+      text: `Text extracted from pages ${textPages.map(page => page.pageNumber).join(', ')}:\n\n${formatPagesForPrompt(textPages)}`,
+    });
+  }
+
+  if (visualPages.length > 0) {
+    parts.push(
+      {
+        type: 'text',
+        text: `Pages ${visualPages.map(page => page.pageNumber).join(', ')} contain tables, charts or scanned content and are attached as a PDF (in that order).`,
+      },
+      {
+        type: 'file',
+        data: await extractPdfPageList(pdfBytes, visualPages.map(page => page.pageNumber)),
+        mediaType: 'application/pdf',
+      }
+    );
+  }
+
+  return parts;
+}
+
 /**
  * Phase 2: Extract detailed content for a single section
  * This extracts only the relevant pages and processes them
@@ -276,23 +385,23 @@ Only identify section boundaries.`,
  * @param pdfBytes - Original PDF as Uint8Array
  * @param section - Section boundary from Phase 1
  * @param sector - Company sector to fetch existing patterns for consistency
+ * @param pages - Locally extracted text of every page (empty to send the section as a PDF)
+ * @param sectorPatterns - Existing patterns for the sector; fetched if not given
  * @returns Detailed section content, metrics, and topics
  */
 export async function extractSectionContent(
   pdfBytes: Uint8Array,
   section: SectionBoundary,
-  sector: string
+  sector: string,
+  pages: PageText[] = [],
+  sectorPatterns?: SectorPatterns
 ): Promise<SectionContent> {
   try {
-    // Extract only the pages for this section
-    const sectionPdfDataUrl = await extractPdfPages(
-      pdfBytes,
-      section.pageStart,
-      section.pageEnd
-    );
+    // Text for pages with a usable text layer, PDF pages for the rest
+    const sectionInput = await buildSectionInput(pdfBytes, section, pages);
 
     // Fetch existing patterns for this sector
-    const patterns = await getExistingPatternsForSector(sector);
+    const patterns = sectorPatterns ?? await getExistingPatternsForSector(sector);
 
     // Build hints for each category
     const tbHint = patterns.timeBasedEventTypes.length > 0
@@ -311,7 +420,7 @@ When extracting PAQN data, prefer using these metric names if similar (e.g., use
       : '';
 
     const result = await generateObject({
-      model: openai('gpt-5-mini'),
+      model: getLanguageModel('extraction'),
       schema: sectionContentSchema,
       temperature: 0.1,
       maxRetries: 3,
@@ -328,6 +437,8 @@ For categorized information:
 - Primary Asset Qualitative (PAQL) Information: Business operations, expansions, engagements (e.g., "Company recently expanded to 3 new locations")
 - Primary Asset Quantitative (PAQN) Financial Data: Numeric metrics like revenue, size, product sales figures
 
+For every item, quote its "text" exactly as it appears in the document (it is checked against the page text) and give a "confidence" from 0 to 1 that the item is stated there and extracted correctly.
+
 Be thorough and accurate with numbers and units. For consistency, prefer existing naming conventions when they match:${tbHint}${paqlHint}${paqnHint}`,
         },
         {
@@ -350,11 +461,7 @@ Extract:
 
 Return the data in the structured JSON format.`,
             },
-            {
-              type: 'file',
-              data: sectionPdfDataUrl,
-              mediaType: 'application/pdf',
-            },
+            ...sectionInput,
           ],
         },
       ],
@@ -370,31 +477,74 @@ Return the data in the structured JSON format.`,
 }
 
 /**
- * Phase 2: Extract content for all sections in parallel
+ * Phase 2: Extract a single section, retrying with backoff if it fails
+ * Never throws - a section that still fails is returned as failed
+ *
+ * @param pdfBytes - Original PDF as Uint8Array
+ * @param section - Section boundary from Phase 1
+ * @param sector - Company sector
+ * @param pages - Locally extracted text of every page
+ * @param sectorPatterns - Existing patterns for the sector, fetched once per document
+ * @returns The section's content, or its last error, with the attempts made
+ */
+export async function extractSectionContentWithRetry(
+  pdfBytes: Uint8Array,
+  section: SectionBoundary,
+  sector: string,
+  pages: PageText[],
+  sectorPatterns: SectorPatterns
+): Promise<SectionExtractionResult> {
+  const result = await retryWithBackoff(
+    () => extractSectionContent(pdfBytes, section, sector, pages, sectorPatterns),
+    {
+      ...SECTION_RETRY_OPTIONS,
+      onRetry: (error, attempt, delay) => {
+        console.warn(`🔁 Retrying section "${section.sectionTitle}" in ${Math.round(delay)}ms (attempt ${attempt + 2}): ${error.message}`);
+      },
+    }
+  );
+
+  if (result.success && result.data) {
+    return { status: 'completed', content: result.data, attempts: result.totalAttempts };
+  }
+
+  return {
+    status: 'failed',
+    error: result.error?.message ?? 'Unknown error',
+    attempts: result.totalAttempts,
+  };
+}
+
+/**
+ * Phase 2: Extract content for all sections, a few at a time
+ * Sector patterns are fetched once for the whole document. Each section is
+ * retried on its own, and sections that still fail are marked failed
+ * without discarding the ones that succeeded
  *
  * @param pdfBytes - Original PDF as Uint8Array
  * @param sections - Section boundaries from Phase 1
  * @param sector - Company sector for fetching existing patterns
- * @returns Array of section content (in same order as input)
+ * @param pages - Locally extracted text of every page
+ * @param concurrency - Maximum sections extracted at once
+ * @returns One result per section (in same order as input)
  */
 export async function extractAllSectionsContent(
   pdfBytes: Uint8Array,
   sections: SectionBoundary[],
-  sector: string
-): Promise<SectionContent[]> {
-  try {
-    // Process all sections in parallel
-    const contentPromises = sections.map(section =>
-      extractSectionContent(pdfBytes, section, sector)
-    );
-
-    const results = await Promise.all(contentPromises);
-    console.log(results)
-    return results;
-  } catch (error) {
-    console.error('Error extracting sections content:', error);
-    throw new Error(
-      `Failed to extract sections content: ${error instanceof Error ? error.message : 'Unknown error'}`
-    );
+  sector: string,
+  pages: PageText[] = [],
+  concurrency: number = SECTION_EXTRACTION_CONCURRENCY
+): Promise<SectionExtractionResult[]> {
+  const sectorPatterns = await getExistingPatternsForSector(sector);
+
+  const results = await mapWithConcurrency(sections, concurrency, section =>
+    extractSectionContentWithRetry(pdfBytes, section, sector, pages, sectorPatterns)
+  );
+
+  const failedCount = results.filter(result => result.status === 'failed').length;
+  if (failedCount > 0) {
+    console.warn(`⚠️ ${failedCount} of ${sections.length} sections failed to extract`);
   }
+
+  return results;
 }
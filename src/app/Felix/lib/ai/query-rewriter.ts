@@ -0,0 +1,128 @@
+import { generateText } from 'ai';
+import { getLanguageModel } from './models';
+
+/**
+ * Earlier messages given to the rewriter, enough to resolve follow-ups
+ * without letting old topics leak into the query
+ */
+const MAX_HISTORY_MESSAGES = 6;
+
+/**
+ * Characters kept from each earlier message - assistant answers can be long
+ */
+const MAX_HISTORY_MESSAGE_CHARS = 1000;
+
+/**
+ * Rewritten queries kept in memory; oldest are evicted first
+ */
+const MAX_CACHED_QUERIES = 500;
+
+/**
+ * A conversation message reduced to its text
+ */
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface CondensedQuery {
+  query: string; // What retrieval should search for
+  originalQuery: string; // The latest user message as typed
+  rewritten: boolean;
+  cached: boolean;
+}
+
+const queryCache = new Map<string, string>();
+
+// ============================================
+// HELPERS
+// ============================================
+
+function formatHistory(history: ConversationTurn[]): string {
+  return history
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(turn => {
+      const text = turn.text.length > MAX_HISTORY_MESSAGE_CHARS
+        ? `${turn.text.slice(0, MAX_HISTORY_MESSAGE_CHARS)}...`
+        : turn.text;
+      return `${turn.role === 'user' ? 'User' : 'Assistant'}: ${text}`;
+    })
+    .join('\n\n');
+}
+
+function cacheQuery(key: string, query: string) {
+  queryCache.set(key, query);
+  if (queryCache.size > MAX_CACHED_QUERIES) {
+    const oldestKey = queryCache.keys().next().value;
+    if (oldestKey !== undefined) {
+      queryCache.delete(oldestKey);
+    }
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Rewrite the latest user message into a standalone search query
+ * Follow-ups such as "and the year before?" only make sense with the earlier
+ * turns, which retrieval never sees. The first message of a conversation is
+ * used as is. Results are cached by turn, so regenerating an answer reuses the
+ * same query
+ *
+ * @param latestMessage - The user message being answered
+ * @param history - Earlier messages of the conversation, oldest first
+ * @param turnId - Identifies the turn for caching (e.g. the user message ID)
+ * @returns The query to retrieve with; falls back to the original message if the rewrite fails
+ */
+export async function condenseQuery(
+  latestMessage: string,
+  history: ConversationTurn[],
+  turnId?: string
+): Promise<CondensedQuery> {
+  const originalQuery = latestMessage.trim();
+
+  if (history.length === 0) {
+    return { query: originalQuery, originalQuery, rewritten: false, cached: false };
+  }
+
+  // Include the text so an edited message isn't answered with a stale query
+  const cacheKey = turnId ? `${turnId}:${originalQuery}` : null;
+  const cachedQuery = cacheKey ? queryCache.get(cacheKey) : undefined;
+  if (cachedQuery) {
+    return { query: cachedQuery, originalQuery, rewritten: cachedQuery !== originalQuery, cached: true };
+  }
+
+  try {
+    const { text } = await generateText({
+      model: getLanguageModel('queryRewrite'),
+      temperature: 0,
+      system: `You rewrite a user's latest message in a conversation about company documents into a standalone search query.
+
+RULES:
+1. Resolve pronouns and references ("it", "they", "that metric", "the year before") using the conversation
+2. Keep the company names, metrics, periods and terms the user means - make implicit ones explicit
+3. Do not answer the question and do not add facts that are not in the conversation
+4. If the message is already standalone, return it unchanged
+5. Return ONLY the query, with no quotes or explanation`,
+      prompt: `Conversation:
+${formatHistory(history)}
+
+Latest message: ${originalQuery}
+
+Standalone query:`,
+    });
+
+    const query = text.trim() || originalQuery;
+    if (cacheKey) {
+      cacheQuery(cacheKey, query);
+    }
+
+    return { query, originalQuery, rewritten: query !== originalQuery, cached: false };
+  } catch (error) {
+    // Retrieval with the raw message is still better than failing the chat
+    console.error('Error condensing query:', error);
+    return { query: originalQuery, originalQuery, rewritten: false, cached: false };
+  }
+}
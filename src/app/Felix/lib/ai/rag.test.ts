@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { companies, db, documentChunks, documents } from '@/db';
+import { EMBEDDING_DIMENSIONS, setEmbeddingProvider } from '../embedding';
+import { retrieveContext, searchSimilarChunks } from './rag';
+
+vi.mock('@/db', async () => {
+  const { createTestDatabase } = await import('@/db/test-database');
+  return { ...(await import('@/db/schema')), db: await createTestDatabase() };
+});
+
+/**
+ * Unit vector with the given cosine similarity to the query vector (axis 0)
+ */
+function vectorWithSimilarity(similarity: number): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  vector[0] = similarity;
+  vector[1] = Math.sqrt(1 - similarity * similarity);
+  return vector;
+}
+
+const queryEmbedding = vectorWithSimilarity(1);
+
+// Sections of one fixture document, by their similarity to the query
+const FIXTURE_SIMILARITIES = [0.95, 0.85, 0.75, 0.6, 0.3];
+
+let companyId: string;
+
+beforeAll(async () => {
+  // Queries are "embedded" to the fixed query vector
+  setEmbeddingProvider({
+    name: 'hash',
+    model: 'test',
+    dimensions: EMBEDDING_DIMENSIONS,
+    embed: async () => queryEmbedding,
+    embedMany: async texts => texts.map(() => queryEmbedding),
+  });
+
+  const [company] = await db
+    .insert(companies)
+    .values({ name: 'Fixture Co', sector: 'Testing' })
+    .returning();
+  companyId = company.companyId;
+
+  const [document] = await db
+    .insert(documents)
+    .values({
+      companyId,
+      filename: 'fixture.pdf',
+      documentTitle: 'Fixture Report',
+      fileType: 'pdf',
+      storagePath: 'fixtures/fixture.pdf',
+      documentDate: '2024-12-31',
+    })
+    .returning();
+
+  await db.insert(documentChunks).values(
+    FIXTURE_SIMILARITIES.map((similarity, index) => ({
+      docId: document.docId,
+      chunkIndex: index + 1,
+      chunkText: `Section with similarity ${similarity}`,
+      sectionTitle: `Section ${similarity}`,
+      pageStart: index + 1,
+      pageEnd: index + 1,
+      embedding: vectorWithSimilarity(similarity),
+    }))
+  );
+});
+
+afterAll(() => {
+  setEmbeddingProvider(null);
+});
+
+describe('searchSimilarChunks', () => {
+  it('excludes chunks below the similarity threshold', async () => {
+    const chunks = await searchSimilarChunks(queryEmbedding, companyId, 10, 0.7);
+
+    expect(chunks.map(chunk => chunk.sectionTitle)).toEqual(['Section 0.95', 'Section 0.85', 'Section 0.75']);
+    chunks.forEach(chunk => {
+      expect(chunk.source).toBe('vector');
+      if (chunk.source === 'vector') {
+        expect(chunk.similarity).toBeGreaterThanOrEqual(0.7);
+      }
+    });
+  });
+
+  it('returns at most `limit` chunks, most similar first', async () => {
+    const chunks = await searchSimilarChunks(queryEmbedding, companyId, 2, 0.5);
+
+    expect(chunks.map(chunk => chunk.sectionTitle)).toEqual(['Section 0.95', 'Section 0.85']);
+    expect(chunks.map(chunk => chunk.scores.vector?.rank)).toEqual([1, 2]);
+  });
+});
+
+describe('retrieveContext', () => {
+  it('applies the threshold and limit across the scope', async () => {
+    const result = await retrieveContext('revenue', { type: 'companies', companyIds: [companyId] }, {
+      limit: 2,
+      similarityThreshold: 0.7,
+    });
+
+    expect(result.numResults).toBe(2);
+    expect(result.chunks.map(chunk => chunk.sectionTitle)).toEqual(['Section 0.95', 'Section 0.85']);
+    expect(result.hasRelevantSources).toBe(true);
+  });
+
+  it('reports no relevant sources when nothing reaches the threshold', async () => {
+    const result = await retrieveContext('revenue', { type: 'companies', companyIds: [companyId] }, {
+      similarityThreshold: 0.99,
+    });
+
+    expect(result.chunks).toEqual([]);
+    expect(result.hasRelevantSources).toBe(false);
+    expect(result.companies).toEqual([{ companyId, name: 'Fixture Co', hasSources: false }]);
+    expect(result.context).toBe('No relevant information found in the database.');
+  });
+
+  it('does not count keyword-only hybrid hits as relevant sources', async () => {
+    const scope = { type: 'companies' as const, companyIds: [companyId] };
+
+    const belowThreshold = await retrieveContext('section', scope, { mode: 'hybrid', similarityThreshold: 0.99 });
+    expect(belowThreshold.chunks.length).toBeGreaterThan(0);
+    expect(belowThreshold.chunks.every(chunk => chunk.source === 'keyword')).toBe(true);
+    expect(belowThreshold.hasRelevantSources).toBe(false);
+    expect(belowThreshold.companies).toEqual([{ companyId, name: 'Fixture Co', hasSources: false }]);
+
+    const aboveThreshold = await retrieveContext('section', scope, { mode: 'hybrid', similarityThreshold: 0.7 });
+    expect(aboveThreshold.hasRelevantSources).toBe(true);
+  });
+
+  it('reorders candidates with the heuristic reranker before keeping the limit', async () => {
+    const result = await retrieveContext('similarity 0.6', { type: 'companies', companyIds: [companyId] }, {
+      limit: 2,
+      similarityThreshold: 0.5,
+      reranker: 'heuristic',
+    });
+
+    expect(result.chunks.map(chunk => chunk.sectionTitle)).toEqual(['Section 0.6', 'Section 0.95']);
+    expect(result.chunks.map(chunk => chunk.scores.rerank)).toEqual([
+      { rank: 1, score: expect.any(Number), previousRank: 4 },
+      { rank: 2, score: expect.any(Number), previousRank: 1 },
+    ]);
+  });
+});
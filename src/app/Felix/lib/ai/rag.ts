@@ -1,19 +1,179 @@
-import { openai } from '@ai-sdk/openai';
-import { embed } from 'ai';
 import { db } from '@/db';
-import { documentChunks, documents, companies } from '@/db/schema';
-import { cosineDistance, eq } from 'drizzle-orm';
+import { documentChunks, documentSubChunks, documents, companies } from '@/db/schema';
+import { and, cosineDistance, desc, eq, inArray, lte, sql } from 'drizzle-orm';
+import type { RetrievalLevel, RetrievalMode, RetrievalScope, RetrievalScores } from '../../types/retrieval';
+import { formatRetrievalScores } from '../utils/retrieval-scores';
+import { getActiveEmbeddingProvider } from '../embedding';
+import { getReranker, type RerankCandidate, type RerankerName } from '../rerank';
+import { isActiveFact, type FactReview } from './schemas';
+
+/**
+ * Chunk text is the verbatim text of a whole section, which can span many
+ * pages - cap how much of it each source contributes to the prompt
+ */
+const MAX_CONTEXT_CHARS_PER_CHUNK = 6000;
+
+/**
+ * Sub-chunks fetched per requested section - several usually share a parent
+ */
+const SUB_CHUNK_OVERFETCH = 4;
+
+/**
+ * Reciprocal rank fusion constant - dampens the advantage of top ranks so
+ * a chunk ranked well by both searches beats one ranked first by only one
+ */
+const RRF_K = 60;
+
+/**
+ * Candidates taken from each ranking per requested result in hybrid mode
+ */
+const HYBRID_CANDIDATE_MULTIPLIER = 3;
+
+/**
+ * Companies a single question may span, keeping sector-wide context bounded
+ */
+const MAX_SCOPE_COMPANIES = 8;
+
+/**
+ * Minimum chunks retrieved per company when a question spans several,
+ * so every company has something to compare with
+ */
+const MIN_CHUNKS_PER_COMPANY = 2;
+
+/**
+ * Candidates fetched across all companies when reranking, before it keeps the best `limit`
+ */
+const RERANK_CANDIDATES = 30;
+
+/**
+ * Section text shown to the reranker per candidate - the summary and matched
+ * passages come first, so this only needs to add a little context
+ */
+const RERANK_TEXT_CHARS = 1500;
+
+/**
+ * A sub-chunk that matched the query, quoted verbatim
+ */
+export interface MatchedPassage {
+  subChunkId: string;
+  text: string;
+  pageNumber: number;
+  similarity: number;
+}
+
+/**
+ * Section fields returned for every retrieved chunk
+ */
+const chunkFields = {
+  chunkId: documentChunks.chunkId,
+  chunkText: documentChunks.chunkText,
+  summary: documentChunks.summary,
+  sectionTitle: documentChunks.sectionTitle,
+  pageStart: documentChunks.pageStart,
+  pageEnd: documentChunks.pageEnd,
+  // Categorized extracted information
+  timeBasedInfo: documentChunks.timeBasedInfo,
+  qualitativeInfo: documentChunks.qualitativeInfo,
+  quantitativeData: documentChunks.quantitativeData,
+  docId: documents.docId,
+  documentTitle: documents.documentTitle,
+  documentType: documents.documentType,
+  documentDate: documents.documentDate,
+  reportingPeriod: documents.reportingPeriod,
+  companyId: companies.companyId,
+  companyName: companies.name,
+  companySector: companies.sector,
+};
 
 /**
  * Generate embedding for a query string
  */
 export async function generateQueryEmbedding(query: string): Promise<number[]> {
-  const { embedding } = await embed({
-    model: openai.textEmbeddingModel('text-embedding-3-small'),
-    value: query,
-  });
+  const provider = await getActiveEmbeddingProvider();
+  return provider.embed(query);
+}
 
-  return embedding;
+/**
+ * Load sections by ID with their document and company metadata
+ */
+async function fetchChunksByIds(chunkIds: string[]) {
+  return db
+    .select(chunkFields)
+    .from(documentChunks)
+    .innerJoin(documents, eq(documentChunks.docId, documents.docId))
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(inArray(documentChunks.chunkId, chunkIds));
+}
+
+/**
+ * A retrieved section, by the search that found it
+ * - vector: `similarity` is its cosine similarity to the query
+ * - keyword: found by full-text search alone, so it has no similarity
+ * A hybrid result keeps the vector variant when both searches found it
+ */
+export type RetrievedChunk = Awaited<ReturnType<typeof fetchChunksByIds>>[number] & {
+  matches: MatchedPassage[];
+  scores: RetrievalScores;
+} & (
+  | { source: 'vector'; similarity: number }
+  | { source: 'keyword' }
+);
+
+/**
+ * Search sub-chunks and group the matches by their parent section
+ * Sections are ranked by their best-matching sub-chunk
+ */
+async function searchSimilarSubChunks(
+  queryEmbedding: number[],
+  companyId: string,
+  limit: number,
+  similarityThreshold: number
+): Promise<RetrievedChunk[]> {
+  const distance = cosineDistance(documentSubChunks.embedding, queryEmbedding);
+
+  const subChunks = await db
+    .select({
+      subChunkId: documentSubChunks.subChunkId,
+      chunkId: documentSubChunks.chunkId,
+      text: documentSubChunks.text,
+      pageNumber: documentSubChunks.pageNumber,
+      distance,
+    })
+    .from(documentSubChunks)
+    .innerJoin(documents, eq(documentSubChunks.docId, documents.docId))
+    .where(and(
+      eq(documents.companyId, companyId),
+      eq(documents.isActive, true),
+      lte(distance, 1 - similarityThreshold)
+    ))
+    .orderBy(distance)
+    .limit(limit * SUB_CHUNK_OVERFETCH);
+
+  // Matches arrive best first, so the first match per parent is its best
+  const matchesByChunk = new Map<string, MatchedPassage[]>();
+  for (const { chunkId, distance: subChunkDistance, ...subChunk } of subChunks) {
+    const matches = matchesByChunk.get(chunkId) ?? [];
+    matches.push({ ...subChunk, similarity: 1 - (subChunkDistance as number) });
+    matchesByChunk.set(chunkId, matches);
+  }
+
+  const chunkIds = Array.from(matchesByChunk.keys()).slice(0, limit);
+  if (chunkIds.length === 0) {
+    return [];
+  }
+
+  const parents = await fetchChunksByIds(chunkIds);
+
+  console.log(`✅ Returning ${parents.length} sections from ${subChunks.length} sub-chunk matches`);
+
+  return chunkIds.flatMap((chunkId, index) => {
+    const parent = parents.find(chunk => chunk.chunkId === chunkId);
+    const matches = matchesByChunk.get(chunkId)!;
+    const similarity = matches[0].similarity;
+    return parent
+      ? [{ ...parent, source: 'vector' as const, similarity, matches, scores: { vector: { rank: index + 1, similarity } } }]
+      : [];
+  });
 }
 
 /**
@@ -23,83 +183,224 @@ export async function generateQueryEmbedding(query: string): Promise<number[]> {
  * @param companyId - Filter results to this specific company
  * @param limit - Maximum number of results to return
  * @param similarityThreshold - Minimum cosine similarity score (0-1)
- * @returns Array of relevant chunks with metadata
+ * @param level - Match against section embeddings or sub-chunk embeddings
+ * @returns Array of relevant chunks with metadata, empty if none reach the threshold
  */
 export async function searchSimilarChunks(
   queryEmbedding: number[],
   companyId: string,
   limit: number = 5,
-  similarityThreshold: number = 0.7
-) {
+  similarityThreshold: number = 0.7,
+  level: RetrievalLevel = 'section'
+): Promise<RetrievedChunk[]> {
   try {
-    console.log('🔍 Searching for chunks:', { companyId, limit, similarityThreshold });
+    console.log('🔍 Searching for chunks:', { companyId, limit, similarityThreshold, level });
+
+    if (level === 'subChunk') {
+      const results = await searchSimilarSubChunks(queryEmbedding, companyId, limit, similarityThreshold);
+      if (results.length > 0) {
+        return results;
+      }
+      // Documents processed before sub-chunking only have section embeddings
+      console.log('No sub-chunks above threshold, falling back to section search');
+    }
 
     // Use the cosine distance operator directly
     // Lower distance = more similar, so we use ascending order
+    // and keep chunks within 1 - similarityThreshold
     const distance = cosineDistance(documentChunks.embedding, queryEmbedding);
 
-    // First, let's check if there are ANY chunks for this company (without distance filter)
-    const allChunksForCompany = await db
-      .select({
-        chunkId: documentChunks.chunkId,
-        distance: distance,
-      })
+    // Get the matching chunks with all fields including categorized information
+    const results = await db
+      .select({ ...chunkFields, distance })
       .from(documentChunks)
       .innerJoin(documents, eq(documentChunks.docId, documents.docId))
       .innerJoin(companies, eq(documents.companyId, companies.companyId))
-      .where(eq(companies.companyId, companyId))
+      .where(and(
+        eq(companies.companyId, companyId),
+        eq(documents.isActive, true),
+        lte(distance, 1 - similarityThreshold)
+      ))
       .orderBy(distance)
       .limit(limit);
 
-    console.log(`📊 Found ${allChunksForCompany.length} total chunks for company (top ${limit})`);
-    if (allChunksForCompany.length > 0) {
-      console.log('📏 Distance range:', {
-        min: allChunksForCompany[0]?.distance,
-        max: allChunksForCompany[allChunksForCompany.length - 1]?.distance,
-      });
-    }
+    console.log(`✅ Returning ${results.length} chunks`);
+
+    // Convert distance to similarity for the return value
+    return results.map(({ distance: chunkDistance, ...result }, index) => {
+      const similarity = 1 - (chunkDistance as number);
+      return {
+        ...result,
+        source: 'vector' as const,
+        similarity,
+        matches: [],
+        scores: { vector: { rank: index + 1, similarity } },
+      };
+    });
+  } catch (error) {
+    console.error('❌ Error searching similar chunks:', error);
+    throw new Error(
+      `Failed to search similar chunks: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Search for document chunks containing the query's terms using Postgres full-text search
+ * Catches exact terms embeddings tend to miss: tickers, metric names, project codes
+ *
+ * @param query - The user's query, in web search syntax ("quoted phrases", -exclusions, or)
+ * @param companyId - Filter results to this specific company
+ * @param limit - Maximum number of results to return
+ * @returns Array of matching chunks, best match first
+ */
+export async function searchKeywordChunks(
+  query: string,
+  companyId: string,
+  limit: number = 5
+): Promise<RetrievedChunk[]> {
+  try {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const rank = sql<number>`ts_rank_cd(${documentChunks.searchVector}, ${tsQuery})`;
 
-    // Now get the full results with all fields including categorized information
     const results = await db
+      .select({ ...chunkFields, rank })
+      .from(documentChunks)
+      .innerJoin(documents, eq(documentChunks.docId, documents.docId))
+      .innerJoin(companies, eq(documents.companyId, companies.companyId))
+      .where(and(
+        eq(companies.companyId, companyId),
+        eq(documents.isActive, true),
+        sql`${documentChunks.searchVector} @@ ${tsQuery}`
+      ))
+      .orderBy(desc(rank))
+      .limit(limit);
+
+    console.log(`🔤 Keyword search returned ${results.length} chunks`);
+
+    return results.map(({ rank: score, ...result }, index) => ({
+      ...result,
+      source: 'keyword' as const,
+      matches: [],
+      scores: { keyword: { rank: index + 1, score: Number(score) } },
+    }));
+  } catch (error) {
+    console.error('❌ Error searching keyword chunks:', error);
+    throw new Error(
+      `Failed to search keyword chunks: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Merge vector and keyword rankings with reciprocal rank fusion
+ * Each ranking contributes 1 / (RRF_K + rank) to a chunk's fused score
+ *
+ * @param vectorResults - Chunks ranked by vector similarity
+ * @param keywordResults - Chunks ranked by full-text relevance
+ * @param limit - Maximum number of results to return
+ * @returns Chunks ordered by fused score, with both rankings' scores attached
+ */
+export function fuseRankings(
+  vectorResults: RetrievedChunk[],
+  keywordResults: RetrievedChunk[],
+  limit: number
+): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+
+  vectorResults.forEach((chunk, index) => {
+    fused.set(chunk.chunkId, {
+      ...chunk,
+      scores: { ...chunk.scores, fused: 1 / (RRF_K + index + 1) },
+    });
+  });
+
+  keywordResults.forEach((chunk, index) => {
+    const contribution = 1 / (RRF_K + index + 1);
+    const existing = fused.get(chunk.chunkId);
+
+    fused.set(chunk.chunkId, existing
+      ? {
+          ...existing,
+          scores: {
+            ...existing.scores,
+            keyword: chunk.scores.keyword,
+            fused: (existing.scores.fused ?? 0) + contribution,
+          },
+        }
+      : { ...chunk, scores: { ...chunk.scores, fused: contribution } });
+  });
+
+  return Array.from(fused.values())
+    .sort((a, b) => (b.scores.fused ?? 0) - (a.scores.fused ?? 0))
+    .slice(0, limit);
+}
+
+/**
+ * List a document's sections in order, with their summaries
+ *
+ * @param docId - The document to list
+ * @returns The document with its company and sections, or null if not found or inactive
+ */
+export async function getDocumentSections(docId: string) {
+  try {
+    const [document] = await db
       .select({
-        chunkId: documentChunks.chunkId,
-        chunkText: documentChunks.chunkText,
-        sectionTitle: documentChunks.sectionTitle,
-        pageStart: documentChunks.pageStart,
-        pageEnd: documentChunks.pageEnd,
-        // Categorized extracted information
-        timeBasedInfo: documentChunks.timeBasedInfo,
-        qualitativeInfo: documentChunks.qualitativeInfo,
-        quantitativeData: documentChunks.quantitativeData,
-        distance: distance,
         docId: documents.docId,
         documentTitle: documents.documentTitle,
         documentType: documents.documentType,
         documentDate: documents.documentDate,
         reportingPeriod: documents.reportingPeriod,
+        totalPages: documents.totalPages,
         companyId: companies.companyId,
         companyName: companies.name,
-        companySector: companies.sector,
       })
-      .from(documentChunks)
-      .innerJoin(documents, eq(documentChunks.docId, documents.docId))
+      .from(documents)
       .innerJoin(companies, eq(documents.companyId, companies.companyId))
-      .where(eq(companies.companyId, companyId))
-      .orderBy(distance)
-      .limit(limit);
+      .where(and(eq(documents.docId, docId), eq(documents.isActive, true)))
+      .limit(1);
 
-    console.log(`✅ Returning ${results.length} chunks`);
+    if (!document) {
+      return null;
+    }
 
-    // Convert distance to similarity for the return value
-    return results.map(result => ({
-      ...result,
-      similarity: 1 - (result.distance as number),
-      distance: undefined, // Remove distance from output
-    }));
+    const sections = await db
+      .select({
+        chunkId: documentChunks.chunkId,
+        chunkIndex: documentChunks.chunkIndex,
+        sectionTitle: documentChunks.sectionTitle,
+        pageStart: documentChunks.pageStart,
+        pageEnd: documentChunks.pageEnd,
+        summary: documentChunks.summary,
+        chunkText: documentChunks.chunkText,
+      })
+      .from(documentChunks)
+      .where(eq(documentChunks.docId, docId))
+      .orderBy(documentChunks.chunkIndex);
+
+    return { ...document, sections };
   } catch (error) {
-    console.error('❌ Error searching similar chunks:', error);
+    console.error('Error fetching document sections:', error);
     throw new Error(
-      `Failed to search similar chunks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      `Failed to fetch document sections: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+/**
+ * Get a single section with its text and extracted facts
+ *
+ * @param chunkId - The section to load
+ * @returns The section with its document and company metadata, or null if not found
+ */
+export async function getChunkDetails(chunkId: string) {
+  try {
+    const [chunk] = await fetchChunksByIds([chunkId]);
+    return chunk ?? null;
+  } catch (error) {
+    console.error('Error fetching chunk details:', error);
+    throw new Error(
+      `Failed to fetch chunk details: ${error instanceof Error ? error.message : 'Unknown error'}`
     );
   }
 }
@@ -118,6 +419,7 @@ export async function getAvailableCompanies() {
       })
       .from(companies)
       .innerJoin(documents, eq(documents.companyId, companies.companyId))
+      .where(eq(documents.isActive, true))
       .groupBy(companies.companyId, companies.name, companies.sector, companies.ticker);
 
     return results;
@@ -129,12 +431,46 @@ export async function getAvailableCompanies() {
   }
 }
 
+/**
+ * Resolve a retrieval scope to the companies it covers
+ * Only companies with active documents are returned
+ *
+ * @param scope - Explicit company list or a sector
+ * @returns Up to MAX_SCOPE_COMPANIES companies, ordered by name
+ */
+export async function resolveScopeCompanies(scope: RetrievalScope) {
+  try {
+    if (scope.type === 'companies' && scope.companyIds.length === 0) {
+      return [];
+    }
+
+    return await db
+      .selectDistinct({
+        companyId: companies.companyId,
+        name: companies.name,
+      })
+      .from(companies)
+      .innerJoin(documents, eq(documents.companyId, companies.companyId))
+      .where(and(
+        scope.type === 'companies'
+          ? inArray(companies.companyId, scope.companyIds)
+          : eq(companies.sector, scope.sector),
+        eq(documents.isActive, true)
+      ))
+      .orderBy(companies.name)
+      .limit(MAX_SCOPE_COMPANIES);
+  } catch (error) {
+    console.error('Error resolving retrieval scope:', error);
+    throw new Error(
+      `Failed to resolve retrieval scope: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
 /**
  * Format retrieved chunks into context for the LLM
  */
-export function formatContextForLLM(
-  chunks: Awaited<ReturnType<typeof searchSimilarChunks>>
-): string {
+export function formatContextForLLM(chunks: RetrievedChunk[]): string {
   if (chunks.length === 0) {
     return 'No relevant information found in the database.';
   }
@@ -149,7 +485,7 @@ export function formatContextForLLM(
         chunk.reportingPeriod ? `Period: ${chunk.reportingPeriod}` : null,
         chunk.sectionTitle ? `Section: ${chunk.sectionTitle}` : null,
         chunk.pageStart ? `Pages: ${chunk.pageStart}-${chunk.pageEnd}` : null,
-        `Relevance: ${(chunk.similarity * 100).toFixed(1)}%`,
+        `Retrieved by: ${formatRetrievalScores(chunk.scores)}`,
       ]
         .filter(Boolean)
         .join(' | ');
@@ -157,59 +493,192 @@ export function formatContextForLLM(
       // Format categorized extracted information
       const extractedInfo = [];
 
+      // Facts rejected in review are left out, and facts a person has checked are marked
+      const timeBasedInfo = (chunk.timeBasedInfo ?? []).filter(isActiveFact);
+      const qualitativeInfo = (chunk.qualitativeInfo ?? []).filter(isActiveFact);
+      const quantitativeData = (chunk.quantitativeData ?? []).filter(isActiveFact);
+      const reviewed = (fact: { review?: FactReview }) => (fact.review ? ', reviewed' : '');
+
       // Time-Based (TB) Information
-      if (chunk.timeBasedInfo && chunk.timeBasedInfo.length > 0) {
+      if (timeBasedInfo.length > 0) {
         extractedInfo.push('Time-Based Information:');
-        chunk.timeBasedInfo.forEach((info: { description?: string; eventType?: string; expectedDate?: string | null }) => {
-          extractedInfo.push(`- [TB] ${info.description || 'N/A'} (${info.eventType || 'N/A'}, ${info.expectedDate || 'TBD'})`);
+        timeBasedInfo.forEach(info => {
+          extractedInfo.push(`- [TB${reviewed(info)}] ${info.description || 'N/A'} (${info.eventType || 'N/A'}, ${info.expectedDate || 'TBD'})`);
         });
       }
 
       // Primary Asset Qualitative (PAQL) Information
-      if (chunk.qualitativeInfo && chunk.qualitativeInfo.length > 0) {
+      if (qualitativeInfo.length > 0) {
         extractedInfo.push('Qualitative Information:');
-        chunk.qualitativeInfo.forEach((info: { context?: string; topic?: string }) => {
-          extractedInfo.push(`- [PAQL] ${info.context || 'N/A'} (${info.topic || 'N/A'})`);
+        qualitativeInfo.forEach(info => {
+          extractedInfo.push(`- [PAQL${reviewed(info)}] ${info.context || 'N/A'} (${info.topic || 'N/A'})`);
         });
       }
 
       // Primary Asset Quantitative (PAQN) Information
-      if (chunk.quantitativeData && chunk.quantitativeData.length > 0) {
+      if (quantitativeData.length > 0) {
         extractedInfo.push('Quantitative Data:');
-        chunk.quantitativeData.forEach((data: { metricName?: string; value?: number; unit?: string; period?: string | null; context?: string | null }) => {
-          extractedInfo.push(`- [PAQN] ${data.metricName || 'N/A'}: ${data.value || 'N/A'} ${data.unit || ''} - Period: ${data.period || 'N/A'}${data.context ? ` - ${data.context}` : ''}`);
+        quantitativeData.forEach(data => {
+          extractedInfo.push(`- [PAQN${reviewed(data)}] ${data.metricName || 'N/A'}: ${data.value || 'N/A'} ${data.unit || ''} - Period: ${data.period || 'N/A'}${data.context ? ` - ${data.context}` : ''}`);
         });
       }
 
-      return `[Source ${index + 1}, Document ${chunk.documentTitle}, Pages ${chunk.pageStart}-${chunk.pageEnd}, relevance ${(chunk.similarity * 100).toFixed(1)}%]
-${metadata}
+      const passages = chunk.matches.map(match => `- (p. ${match.pageNumber}) "${match.text}"`);
+
+      const text = chunk.chunkText.length > MAX_CONTEXT_CHARS_PER_CHUNK
+        ? `${chunk.chunkText.slice(0, MAX_CONTEXT_CHARS_PER_CHUNK)}\n[...truncated]`
+        : chunk.chunkText;
 
-${chunk.chunkText}
+      return `[Source ${index + 1}, Company ${chunk.companyName}, Document ${chunk.documentTitle}, Pages ${chunk.pageStart}-${chunk.pageEnd}]
+${metadata}
+${chunk.summary ? `\nSummary: ${chunk.summary}\n` : ''}${passages.length > 0 ? `\nMatching passages:\n${passages.join('\n')}\n` : ''}
+${text}
 
 ${extractedInfo.length > 0 ? `\nExtracted Information:\n${extractedInfo.join('\n')}` : ''}`;
     })
     .join('\n\n---\n\n');
 }
 
+/**
+ * Retrieve chunks for a single company with the given mode
+ */
+async function retrieveForCompany(
+  query: string,
+  queryEmbedding: number[] | null,
+  companyId: string,
+  limit: number,
+  similarityThreshold: number,
+  level: RetrievalLevel,
+  mode: RetrievalMode
+): Promise<RetrievedChunk[]> {
+  if (mode === 'keyword' || !queryEmbedding) {
+    return searchKeywordChunks(query, companyId, limit);
+  }
+
+  if (mode === 'hybrid') {
+    const candidates = limit * HYBRID_CANDIDATE_MULTIPLIER;
+    const [vectorResults, keywordResults] = await Promise.all([
+      searchSimilarChunks(queryEmbedding, companyId, candidates, similarityThreshold, level),
+      searchKeywordChunks(query, companyId, candidates),
+    ]);
+    return fuseRankings(vectorResults, keywordResults, limit);
+  }
+
+  // Search for similar chunks for this specific company
+  return searchSimilarChunks(queryEmbedding, companyId, limit, similarityThreshold, level);
+}
+
+/**
+ * Reorder candidates with a reranker and keep the best `limit`
+ * Falls back to the original order if the reranker fails
+ */
+async function rerankChunks(
+  query: string,
+  chunks: RetrievedChunk[],
+  limit: number,
+  rerankerName: RerankerName
+): Promise<RetrievedChunk[]> {
+  if (chunks.length === 0) {
+    return chunks;
+  }
+
+  const candidates: RerankCandidate[] = chunks.map(chunk => ({
+    id: chunk.chunkId,
+    title: `${chunk.companyName} - ${chunk.documentTitle ?? 'Untitled'} - ${chunk.sectionTitle ?? 'Untitled'}`,
+    text: [
+      chunk.summary ? `Summary: ${chunk.summary}` : '',
+      ...chunk.matches.map(match => `"${match.text}"`),
+      chunk.chunkText.slice(0, RERANK_TEXT_CHARS),
+    ].filter(Boolean).join('\n'),
+  }));
+
+  try {
+    const scores = await getReranker(rerankerName).score(query, candidates);
+
+    // Stable sort: equal scores keep their retrieval order
+    const reranked = chunks
+      .map((chunk, index) => ({ chunk, score: scores[index] ?? 0, previousRank: index + 1 }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(({ chunk, score, previousRank }, index) => ({
+        ...chunk,
+        scores: { ...chunk.scores, rerank: { rank: index + 1, score, previousRank } },
+      }));
+
+    console.log(`🔀 Reranked ${chunks.length} candidates for ${chunks[0].companyName} (${rerankerName}), kept ${reranked.length}:`);
+    reranked.forEach(chunk => {
+      console.log(`  #${chunk.scores.rerank.previousRank} -> #${chunk.scores.rerank.rank} ${chunk.sectionTitle ?? 'Untitled'} (${chunk.scores.rerank.score.toFixed(2)})`);
+    });
+
+    return reranked;
+  } catch (error) {
+    // An unreranked answer beats a failed one
+    console.error(`Error reranking with ${rerankerName}, keeping retrieval order:`, error);
+    return chunks.slice(0, limit);
+  }
+}
+
 /**
  * Perform RAG: Retrieve relevant context and format for LLM
+ * A scope spanning several companies retrieves a balanced number of chunks
+ * from each, grouped by company, so answers can compare them
+ *
+ * @param query - The user's question
+ * @param scope - Companies (or a sector) to retrieve from
+ * @param options - Result limit, similarity threshold, retrieval level and mode,
+ *   and an optional reranker applied to RERANK_CANDIDATES over-fetched candidates
  */
 export async function retrieveContext(
   query: string,
-  companyId: string,
+  scope: RetrievalScope,
   options: {
     limit?: number;
     similarityThreshold?: number;
+    level?: RetrievalLevel;
+    mode?: RetrievalMode;
+    reranker?: RerankerName | null;
   } = {}
 ) {
-  const { limit = 5, similarityThreshold = 0.7 } = options;
+  const { limit = 5, similarityThreshold = 0.7, level = 'section', mode = 'vector', reranker = null } = options;
+
+  const scopeCompanies = await resolveScopeCompanies(scope);
+  const perCompanyLimit = scopeCompanies.length > 1
+    ? Math.max(MIN_CHUNKS_PER_COMPANY, Math.ceil(limit / scopeCompanies.length))
+    : limit;
+
+  // Generate embedding for the query once, for all companies
+  const queryEmbedding = mode === 'keyword' || scopeCompanies.length === 0
+    ? null
+    : await generateQueryEmbedding(query);
+
+  // Reranking needs a wider pool to choose from than it returns
+  const candidateLimit = reranker
+    ? Math.max(perCompanyLimit, Math.ceil(RERANK_CANDIDATES / Math.max(scopeCompanies.length, 1)))
+    : perCompanyLimit;
+
+  const results = await Promise.all(
+    scopeCompanies.map(async company => {
+      const candidates = await retrieveForCompany(
+        query, queryEmbedding, company.companyId, candidateLimit, similarityThreshold, level, mode
+      );
+      return reranker ? rerankChunks(query, candidates, perCompanyLimit, reranker) : candidates;
+    })
+  );
+  const chunks = results.flat();
+
+  // Keyword hits never cleared the similarity threshold, so once a query is
+  // embedded they don't make a source relevant on their own
+  const isRelevant = (chunk: RetrievedChunk) => !queryEmbedding || chunk.source === 'vector';
+  const hasRelevantSources = chunks.some(isRelevant);
+
+  console.log(`Found ${chunks.length} relevant chunks across ${scopeCompanies.length} companies (${mode}${reranker ? `, reranked by ${reranker}` : ''})`);
+  if (!hasRelevantSources) {
+    console.log(`No sources reached the similarity threshold of ${similarityThreshold}`);
+  }
+  chunks.forEach((chunk, index) => {
+    console.log(`  [${index + 1}] ${chunk.companyName} - ${chunk.sectionTitle ?? 'Untitled'}: ${formatRetrievalScores(chunk.scores)}`);
+  });
 
-  // Generate embedding for the query
-  const queryEmbedding = await generateQueryEmbedding(query);
-  console.log('Query embedding generated');
-  // Search for similar chunks for this specific company
-  const chunks = await searchSimilarChunks(queryEmbedding, companyId, limit, similarityThreshold);
-  console.log(`Found ${chunks.length} relevant chunks, chunks=${chunks}`);
   // Format context for LLM
   const context = formatContextForLLM(chunks);
 
@@ -217,5 +686,11 @@ export async function retrieveContext(
     context,
     chunks,
     numResults: chunks.length,
+    // False when nothing was similar enough to ground an answer on
+    hasRelevantSources,
+    companies: scopeCompanies.map((company, index) => ({
+      ...company,
+      hasSources: results[index].some(isRelevant),
+    })),
   };
 }
@@ -10,10 +10,11 @@ import { z } from 'zod';
  */
 export const timeBasedInfoSchema = z.object({
   category: z.literal('TB'),
-  text: z.string().describe('The original text describing this time-based information'),
+  text: z.string().describe('The original text describing this time-based information, quoted exactly'),
   eventType: z.string().describe('The type of future event or timeline'),
   expectedDate: z.string().nullable().optional().describe('Expected date or timeframe (ISO format: YYYY-MM-DD)'),
   description: z.string().describe('Brief description of what is expected to happen, max 2-3 sentences'),
+  confidence: z.number().describe('Confidence from 0 to 1 that this is stated in the text and extracted correctly'),
 });
 
 export type TimeBasedInfo = z.infer<typeof timeBasedInfoSchema>;
@@ -24,10 +25,11 @@ export type TimeBasedInfo = z.infer<typeof timeBasedInfoSchema>;
  */
 export const qualitativeInfoSchema = z.object({
   category: z.literal('PAQL'),
-  text: z.string().describe('The original text describing this qualitative information'),
+  text: z.string().describe('The original text describing this qualitative information, quoted exactly'),
   topic: z.string().describe('The topic or theme of this qualitative information'),
   context: z.string().describe('Additional context or implications of this information, at max 2-3 sentences long'),
   sentiment: z.enum(['positive', 'neutral', 'negative']).nullable().optional().describe('Overall sentiment of the information'),
+  confidence: z.number().describe('Confidence from 0 to 1 that this is stated in the text and extracted correctly'),
 });
 
 export type QualitativeInfo = z.infer<typeof qualitativeInfoSchema>;
@@ -38,15 +40,69 @@ export type QualitativeInfo = z.infer<typeof qualitativeInfoSchema>;
  */
 export const quantitativeDataSchema = z.object({
   category: z.literal('PAQN'),
+  text: z.string().describe('The original text stating this figure, quoted exactly'),
   metricName: z.string().describe('The name/type of the metric (e.g., revenue, expenses, headcount, product_sales)'),
   value: z.number().describe('The numerical value of the metric'),
   unit: z.string().describe('The unit of measurement (e.g., USD, EUR, percentage, count, employees)'),
   period: z.string().nullable().optional().describe('The time period this metric refers to (e.g., Q4 2023, FY 2023, 2023-12-31)'),
   context: z.string().nullable().optional().describe('Additional context about this metric, at max 2-3 sentences long'),
+  confidence: z.number().describe('Confidence from 0 to 1 that this is stated in the text and extracted correctly'),
 });
 
 export type QuantitativeData = z.infer<typeof quantitativeDataSchema>;
 
+/**
+ * A PAQN fact as stored: mapped to the metric dictionary and unscaled
+ * ("12.5", "EUR m" -> 12500000 EUR), with the extracted values kept in `original`
+ */
+export interface NormalizedQuantitativeData extends QuantitativeData {
+  original?: { metricName: string; value: number; unit: string };
+  canonical?: boolean; // metricName is a canonical metric from the dictionary
+}
+
+/**
+ * Outcome of a human review of an extracted fact
+ * - approved: correct as extracted
+ * - edited: corrected by the reviewer
+ * - rejected: wrong; kept in place so fact positions stay stable, but ignored
+ * - added: missed by extraction and entered by the reviewer
+ */
+export type FactReviewStatus = 'approved' | 'edited' | 'rejected' | 'added';
+
+export interface FactReview {
+  status: FactReviewStatus;
+  reviewedBy: string;
+  reviewedAt: string; // ISO timestamp
+}
+
+/**
+ * Where a fact's source text was found in its document
+ * Checked locally after extraction, by fuzzy matching `text` against the page text
+ */
+export interface FactGrounding {
+  grounded: boolean; // score reached the grounding threshold
+  page: number | null; // Best matching page
+  score: number; // 0-1 share of the source text matched on that page
+  onSectionPages: boolean; // Found within the section the fact was extracted from
+}
+
+/**
+ * A TB, PAQL or PAQN fact as stored, with its grounding and review
+ * Facts extracted before grounding was added have no grounding, and no
+ * source text or confidence either - those aren't backfilled, so readers
+ * must allow for them being missing
+ */
+export type StoredFact<T> = Omit<T, 'text' | 'confidence'> &
+  Partial<Pick<T, Extract<keyof T, 'text' | 'confidence'>>> &
+  { review?: FactReview; grounding?: FactGrounding };
+
+/**
+ * Whether a stored fact should be used - rejected facts are kept but ignored
+ */
+export function isActiveFact(fact: { review?: FactReview }): boolean {
+  return fact.review?.status !== 'rejected';
+}
+
 
 /**
  * Schema for a section boundary (Phase 1 output)
@@ -98,6 +154,15 @@ export const sectionContentSchema = z.object({
 
 export type SectionContent = z.infer<typeof sectionContentSchema>;
 
+/**
+ * Outcome of extracting one section, after retries
+ * A failed section doesn't fail the others, so a document's extraction can
+ * be kept in part and the failed sections retried later
+ */
+export type SectionExtractionResult =
+  | { status: 'completed'; content: SectionContent; attempts: number }
+  | { status: 'failed'; error: string; attempts: number };
+
 
 /**
  * Combined section data (after both phases complete)
@@ -0,0 +1,127 @@
+import { getDocument, VerbosityLevel } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+
+/**
+ * Pages with fewer non-whitespace characters than this are treated as
+ * scanned or image-based and sent to the LLM as PDF pages
+ */
+const MIN_PAGE_TEXT_CHARS = 200;
+
+/**
+ * Pages where more than this share of tokens are numbers are treated as
+ * table-heavy - the text layer loses their row/column layout
+ */
+const MAX_NUMERIC_TOKEN_RATIO = 0.4;
+
+/**
+ * Text layer of a single PDF page
+ */
+export interface PageText {
+  pageNumber: number; // 1-indexed
+  text: string;
+  needsVisualParsing: boolean;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function normalizePageText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Decide whether a page's text layer is good enough to stand in for the page
+ *
+ * @param text - Normalized page text
+ * @returns True if the LLM should see the rendered page instead
+ */
+export function pageNeedsVisualParsing(text: string): boolean {
+  if (text.replace(/\s/g, '').length < MIN_PAGE_TEXT_CHARS) {
+    return true;
+  }
+
+  const tokens = text.split(/\s+/).filter(Boolean);
+  const numericTokens = tokens.filter(token => /^[-+(]?[$€£]?[\d.,]+[%)]?$/.test(token));
+  return numericTokens.length / tokens.length > MAX_NUMERIC_TOKEN_RATIO;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Extract the text layer of every page locally, without any LLM call
+ *
+ * @param pdfBytes - Original PDF as Uint8Array
+ * @returns One entry per page, in page order
+ */
+export async function extractPageTexts(pdfBytes: Uint8Array): Promise<PageText[]> {
+  // pdf.js takes ownership of the buffer it is given, so pass a copy
+  const pdf = await getDocument({
+    data: new Uint8Array(pdfBytes),
+    isEvalSupported: false,
+    verbosity: VerbosityLevel.ERRORS,
+  }).promise;
+
+  try {
+    const pages: PageText[] = [];
+
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+
+      const rawText = textContent.items
+        .filter((item): item is TextItem => 'str' in item)
+        .map(item => `${item.str}${item.hasEOL ? '\n' : ''}`)
+        .join('');
+
+      const text = normalizePageText(rawText);
+      pages.push({ pageNumber, text, needsVisualParsing: pageNeedsVisualParsing(text) });
+      page.cleanup();
+    }
+
+    return pages;
+  } catch (error) {
+    console.error('Error extracting page text:', error);
+    throw new Error(
+      `Failed to extract page text: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Select the pages that belong to a section
+ *
+ * @param pages - Text of every page in the document
+ * @param pageStart - Start page (1-indexed)
+ * @param pageEnd - End page (1-indexed, inclusive)
+ */
+export function getSectionPages(pages: PageText[], pageStart: number, pageEnd: number): PageText[] {
+  return pages.filter(page => page.pageNumber >= pageStart && page.pageNumber <= pageEnd);
+}
+
+/**
+ * Join page texts into a single verbatim string, one paragraph per page
+ */
+export function joinPageTexts(pages: PageText[]): string {
+  return pages
+    .map(page => page.text)
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+/**
+ * Format page texts for an LLM prompt, labelled with their page numbers
+ */
+export function formatPagesForPrompt(pages: PageText[]): string {
+  return pages
+    .map(page => `--- Page ${page.pageNumber} ---\n${page.text}`)
+    .join('\n\n');
+}
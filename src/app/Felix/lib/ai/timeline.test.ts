@@ -0,0 +1,83 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { companies, db, documentChunks, documents } from '@/db';
+import { getTimelineData } from './timeline';
+import type { StoredFact, TimeBasedInfo } from './schemas';
+
+vi.mock('@/db', async () => {
+  const { createTestDatabase } = await import('@/db/test-database');
+  return { ...(await import('@/db/schema')), db: await createTestDatabase() };
+});
+
+// Extracted before source text, confidence and grounding were recorded
+const legacyFact: StoredFact<TimeBasedInfo> = {
+  category: 'TB',
+  eventType: 'plant_opening',
+  expectedDate: '2026-01-01',
+  description: 'The new plant opens',
+};
+
+const groundedFact: StoredFact<TimeBasedInfo> = {
+  category: 'TB',
+  text: 'Capacity doubles by 2027.',
+  eventType: 'capacity_expansion',
+  expectedDate: '2027-01-01',
+  description: 'Capacity doubles',
+  confidence: 0.9,
+  grounding: { grounded: true, page: 1, score: 1, onSectionPages: true },
+};
+
+let companyId: string;
+
+beforeAll(async () => {
+  const [company] = await db
+    .insert(companies)
+    .values({ name: 'Fixture Co', sector: 'Testing' })
+    .returning();
+  companyId = company.companyId;
+
+  const [document] = await db
+    .insert(documents)
+    .values({
+      companyId,
+      filename: 'fixture.pdf',
+      documentTitle: 'Fixture Report',
+      fileType: 'pdf',
+      storagePath: 'fixtures/fixture.pdf',
+      documentDate: '2024-12-31',
+    })
+    .returning();
+
+  await db.insert(documentChunks).values({
+    docId: document.docId,
+    chunkIndex: 1,
+    chunkText: 'The new plant opens in 2026. Capacity doubles by 2027.',
+    timeBasedInfo: [legacyFact, groundedFact],
+  });
+});
+
+/**
+ * Descriptions of the TB points shown with the given fact filters
+ */
+async function timelineFacts(filters: { grounding?: 'grounded' | 'ungrounded'; minConfidence?: number }) {
+  const { dataPoints } = await getTimelineData({ companyId, layers: ['TB'], ...filters });
+  return dataPoints.map(point => point.description);
+}
+
+describe('getTimelineData', () => {
+  it('shows facts without source text or confidence when unfiltered', async () => {
+    const { dataPoints } = await getTimelineData({ companyId, layers: ['TB'] });
+
+    expect(dataPoints.map(point => point.description)).toEqual(['The new plant opens', 'Capacity doubles']);
+    expect(dataPoints[0].confidence).toBeUndefined();
+    expect(dataPoints[0].grounding).toBeUndefined();
+  });
+
+  it('counts facts never grounded as ungrounded', async () => {
+    expect(await timelineFacts({ grounding: 'ungrounded' })).toEqual(['The new plant opens']);
+    expect(await timelineFacts({ grounding: 'grounded' })).toEqual(['Capacity doubles']);
+  });
+
+  it('leaves out facts without a confidence under any minimum', async () => {
+    expect(await timelineFacts({ minConfidence: 0 })).toEqual(['Capacity doubles']);
+  });
+});
@@ -0,0 +1,230 @@
+import { db } from '@/db';
+import { companies, documents, documentChunks } from '@/db/schema';
+import { eq, and, gte, lte } from 'drizzle-orm';
+import { parseFlexibleDate, getDateRange } from '../utils/date-parser';
+import { createCurrencyConverter, getFactCurrency } from './fx-rates';
+import { isActiveFact, type FactGrounding, type FactReview } from './schemas';
+import type {
+  FetchTimelineDataOptions,
+  TimelineData,
+  TimelineDocument,
+  TimelineDataPoint,
+} from '../../types/timeline';
+
+/**
+ * Load timeline data: documents and extracted data points (TB, PAQL, PAQN)
+ * with date information
+ * The date range applies to both documents and data points; facts rejected
+ * in review are left out
+ * With a reporting currency, PAQN amounts are converted at their period's
+ * rate; the extracted value stays in quantitativeData
+ * Facts can be narrowed to those whose source text was or wasn't found in the
+ * document, and to a minimum extraction confidence. Facts never grounded count
+ * as ungrounded, and facts without a confidence fail any minimum
+ *
+ * @param options - Company, date range, layers, reporting currency and fact filters
+ * @returns Documents, data points and their overall date range
+ */
+export async function getTimelineData(
+  options: FetchTimelineDataOptions = {}
+): Promise<TimelineData> {
+  const { companyId, startDate, endDate, layers, reportingCurrency, grounding, minConfidence } = options;
+
+  const includeFact = (fact: { review?: FactReview; grounding?: FactGrounding; confidence?: number }) =>
+    isActiveFact(fact) &&
+    (!grounding || (grounding === 'grounded') === Boolean(fact.grounding?.grounded)) &&
+    (minConfidence === undefined || (fact.confidence ?? -1) >= minConfidence);
+
+  // Build where conditions for documents query
+  // Superseded document versions are never shown
+  const documentWhere = [eq(documents.isActive, true)];
+  if (companyId) {
+    documentWhere.push(eq(documents.companyId, companyId));
+  }
+  if (startDate) {
+    documentWhere.push(gte(documents.documentDate, startDate.toISOString().split('T')[0]));
+  }
+  if (endDate) {
+    documentWhere.push(lte(documents.documentDate, endDate.toISOString().split('T')[0]));
+  }
+
+  // Fetch documents with company information
+  const docsQuery = db
+    .select({
+      docId: documents.docId,
+      documentTitle: documents.documentTitle,
+      documentType: documents.documentType,
+      documentDate: documents.documentDate,
+      companyId: companies.companyId,
+      companyName: companies.name,
+      sector: companies.sector,
+      ticker: companies.ticker,
+    })
+    .from(documents)
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(and(...documentWhere))
+    .orderBy(documents.documentDate);
+
+  const docs = await docsQuery;
+
+  // Transform documents
+  const timelineDocuments: TimelineDocument[] = docs.map(doc => ({
+    docId: doc.docId,
+    documentTitle: doc.documentTitle || 'Untitled Document',
+    documentType: doc.documentType,
+    documentDate: doc.documentDate ? new Date(doc.documentDate) : null,
+    companyId: doc.companyId,
+    companyName: doc.companyName,
+    sector: doc.sector,
+    ticker: doc.ticker,
+  }));
+
+  // Fetch document chunks with extracted data
+  const chunksWhere = [eq(documents.isActive, true)];
+  if (companyId) {
+    chunksWhere.push(eq(documents.companyId, companyId));
+  }
+
+  const chunks = await db
+    .select({
+      chunkId: documentChunks.chunkId,
+      docId: documentChunks.docId,
+      sectionTitle: documentChunks.sectionTitle,
+      pageStart: documentChunks.pageStart,
+      timeBasedInfo: documentChunks.timeBasedInfo,
+      qualitativeInfo: documentChunks.qualitativeInfo,
+      quantitativeData: documentChunks.quantitativeData,
+      documentTitle: documents.documentTitle,
+      documentDate: documents.documentDate,
+      companyId: companies.companyId,
+      companyName: companies.name,
+    })
+    .from(documentChunks)
+    .innerJoin(documents, eq(documentChunks.docId, documents.docId))
+    .innerJoin(companies, eq(documents.companyId, companies.companyId))
+    .where(and(...chunksWhere));
+
+  // Extract data points from chunks
+  const dataPoints: TimelineDataPoint[] = [];
+  const includeLayers = layers && layers.length > 0 ? new Set(layers) : new Set(['TB', 'PAQL', 'PAQN', 'DOCUMENT']);
+
+  for (const chunk of chunks) {
+    // Process Time-Based Information
+    if (includeLayers.has('TB') && chunk.timeBasedInfo && Array.isArray(chunk.timeBasedInfo)) {
+      for (const tb of chunk.timeBasedInfo.filter(includeFact)) {
+        const date = parseFlexibleDate(tb.expectedDate);
+        if (date) {
+          dataPoints.push({
+            id: `${chunk.chunkId}-tb-${dataPoints.length}`,
+            date,
+            layer: 'TB',
+            title: tb.eventType.replace(/_/g, ' ').toUpperCase(),
+            description: tb.description,
+            documentId: chunk.docId,
+            documentTitle: chunk.documentTitle || 'Untitled',
+            chunkId: chunk.chunkId,
+            sectionTitle: chunk.sectionTitle || undefined,
+            pageStart: chunk.pageStart ?? undefined,
+            companyId: chunk.companyId,
+            companyName: chunk.companyName,
+            timeBasedData: tb,
+            reviewStatus: tb.review?.status,
+            confidence: tb.confidence,
+            grounding: tb.grounding,
+          });
+        }
+      }
+    }
+
+    // Process Qualitative Information
+    if (includeLayers.has('PAQL') && chunk.qualitativeInfo && Array.isArray(chunk.qualitativeInfo)) {
+      for (const qual of chunk.qualitativeInfo.filter(includeFact)) {
+        // Use document date as fallback for qualitative data
+        const date = chunk.documentDate ? new Date(chunk.documentDate) : null;
+        if (date) {
+          dataPoints.push({
+            id: `${chunk.chunkId}-paql-${dataPoints.length}`,
+            date,
+            layer: 'PAQL',
+            title: qual.topic.replace(/_/g, ' ').toUpperCase(),
+            description: qual.context,
+            documentId: chunk.docId,
+            documentTitle: chunk.documentTitle || 'Untitled',
+            chunkId: chunk.chunkId,
+            sectionTitle: chunk.sectionTitle || undefined,
+            pageStart: chunk.pageStart ?? undefined,
+            companyId: chunk.companyId,
+            companyName: chunk.companyName,
+            qualitativeData: qual,
+            reviewStatus: qual.review?.status,
+            confidence: qual.confidence,
+            grounding: qual.grounding,
+          });
+        }
+      }
+    }
+
+    // Process Quantitative Data
+    if (includeLayers.has('PAQN') && chunk.quantitativeData && Array.isArray(chunk.quantitativeData)) {
+      for (const quant of chunk.quantitativeData.filter(includeFact)) {
+        const date = parseFlexibleDate(quant.period);
+        if (date) {
+          dataPoints.push({
+            id: `${chunk.chunkId}-paqn-${dataPoints.length}`,
+            date,
+            layer: 'PAQN',
+            title: quant.metricName.replace(/_/g, ' ').toUpperCase(),
+            description: `${quant.value} ${quant.unit}${quant.context ? ` - ${quant.context}` : ''}`,
+            documentId: chunk.docId,
+            documentTitle: chunk.documentTitle || 'Untitled',
+            chunkId: chunk.chunkId,
+            sectionTitle: chunk.sectionTitle || undefined,
+            pageStart: chunk.pageStart ?? undefined,
+            companyId: chunk.companyId,
+            companyName: chunk.companyName,
+            quantitativeData: quant,
+            reviewStatus: quant.review?.status,
+            confidence: quant.confidence,
+            grounding: quant.grounding,
+          });
+        }
+      }
+    }
+  }
+
+  // Data points are dated by their own content, so filter them separately
+  const filteredDataPoints = dataPoints.filter(point =>
+    (!startDate || point.date >= startDate) && (!endDate || point.date <= endDate)
+  );
+
+  if (reportingCurrency) {
+    const quantitativePoints = filteredDataPoints.flatMap(point =>
+      point.quantitativeData ? [{ point, quant: point.quantitativeData }] : []
+    );
+    const currencies = quantitativePoints
+      .map(({ quant }) => getFactCurrency(quant))
+      .filter((currency): currency is string => Boolean(currency));
+    const convert = await createCurrencyConverter(reportingCurrency, [...new Set(currencies)]);
+
+    for (const { point, quant } of quantitativePoints) {
+      const conversion = convert(quant, point.date);
+      if (conversion) {
+        point.currencyConversion = conversion;
+        point.description = `${conversion.value} ${conversion.currency} (${conversion.originalValue} ${conversion.originalCurrency})${quant.context ? ` - ${quant.context}` : ''}`;
+      }
+    }
+  }
+
+  // Calculate date range
+  const allDates = [
+    ...timelineDocuments.map(d => d.documentDate),
+    ...filteredDataPoints.map(p => p.date),
+  ];
+  const dateRange = getDateRange(allDates);
+
+  return {
+    documents: timelineDocuments,
+    dataPoints: filteredDataPoints,
+    dateRange,
+  };
+}
@@ -0,0 +1,89 @@
+import { tokenize } from '../utils/tokenize';
+import type { EmbeddingProvider } from './index';
+
+/**
+ * Weights of the hashed features: whole words dominate, character trigrams
+ * let inflections ("revenue" / "revenues") and compounds still overlap
+ */
+const WORD_WEIGHT = 1;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: number[], feature: string, weight: number) {
+  const hash = fnv1a(feature);
+  // Signed hashing keeps unrelated features from only ever adding up
+  const sign = hash & 1 ? 1 : -1;
+  vector[(hash >>> 1) % vector.length] += sign * weight;
+}
+
+function embedText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+
+  tokens.forEach((token, index) => {
+    addFeature(vector, `w:${token}`, WORD_WEIGHT);
+
+    if (index > 0) {
+      addFeature(vector, `b:${tokens[index - 1]} ${token}`, BIGRAM_WEIGHT);
+    }
+
+    const padded = `#${token}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(vector, `t:${padded.slice(i, i + 3)}`, TRIGRAM_WEIGHT);
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+  if (norm === 0) {
+    // Cosine distance is undefined for a zero vector
+    vector[0] = 1;
+    return vector;
+  }
+
+  return vector.map(value => value / norm);
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Deterministic bag-of-features embeddings computed locally with the hashing trick
+ * No network and no model: the same text always gives the same vector, and
+ * texts sharing words and word fragments are similar. Retrieval quality is far
+ * below a real model, but stable enough to compare chunking and ranking changes
+ *
+ * @param dimensions - Vector size, must match the vector columns
+ */
+export function createHashEmbeddingProvider(dimensions: number): EmbeddingProvider {
+  return {
+    name: 'hash',
+    model: 'hash',
+    dimensions,
+
+    async embed(text) {
+      return embedText(text, dimensions);
+    },
+
+    async embedMany(texts) {
+      return texts.map(text => embedText(text, dimensions));
+    },
+  };
+}
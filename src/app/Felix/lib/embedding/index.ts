@@ -0,0 +1,120 @@
+import { db } from '@/db';
+import { embeddingMigrations } from '@/db/schema';
+import { desc, eq } from 'drizzle-orm';
+import { createModelEmbeddingProvider } from './model';
+import { createHashEmbeddingProvider } from './hash';
+import { formatModelSpec, getModelConfig, parseModelSpec, type ModelConfig } from '../ai/models';
+
+/**
+ * Vector size of every stored embedding - matches the vector(1536) columns
+ */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Turns text into embedding vectors for storage and retrieval
+ * Documents and queries must be embedded by the same provider to be comparable
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string; // provider:model, or 'hash'
+  readonly dimensions: number;
+  embed(text: string): Promise<number[]>;
+  embedMany(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'model' | 'hash';
+
+/**
+ * How long the model of the active embedding migration is cached for
+ * Other processes pick up an activation within this window
+ */
+const ACTIVE_MODEL_TTL_MS = 30 * 1000;
+
+const providers = new Map<string, EmbeddingProvider>();
+let override: EmbeddingProvider | null = null;
+let activeModel: { config: ModelConfig | null; expiresAt: number } | null = null;
+
+// ============================================
+// HELPERS
+// ============================================
+
+/**
+ * Model of the most recently activated embedding migration, if any
+ */
+async function getActiveMigrationModel(): Promise<ModelConfig | null> {
+  if (activeModel && activeModel.expiresAt > Date.now()) {
+    return activeModel.config;
+  }
+
+  const [migration] = await db
+    .select({ targetModel: embeddingMigrations.targetModel })
+    .from(embeddingMigrations)
+    .where(eq(embeddingMigrations.status, 'active'))
+    .orderBy(desc(embeddingMigrations.activatedAt))
+    .limit(1);
+
+  const config = migration ? parseModelSpec('embedding', migration.targetModel) : null;
+  activeModel = { config, expiresAt: Date.now() + ACTIVE_MODEL_TTL_MS };
+  return config;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Get the configured embedding provider (EMBEDDING_PROVIDER, defaults to model)
+ * `model` uses the EMBEDDING_MODEL from the model registry, or `config` if given
+ * `hash` is deterministic and local, for offline evaluation and development
+ */
+export function getEmbeddingProvider(config?: ModelConfig): EmbeddingProvider {
+  if (override) {
+    return override;
+  }
+
+  const name = (process.env.EMBEDDING_PROVIDER || 'model') as EmbeddingProviderName;
+
+  if (name !== 'model' && name !== 'hash') {
+    throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Valid providers: model, hash`);
+  }
+
+  const modelConfig = config ?? getModelConfig('embedding');
+  const key = name === 'hash' ? 'hash' : formatModelSpec(modelConfig);
+
+  let provider = providers.get(key);
+  if (!provider) {
+    provider = name === 'hash'
+      ? createHashEmbeddingProvider(EMBEDDING_DIMENSIONS)
+      : createModelEmbeddingProvider(EMBEDDING_DIMENSIONS, modelConfig);
+    providers.set(key, provider);
+  }
+
+  return provider;
+}
+
+/**
+ * Get the provider of the embeddings retrieval currently searches
+ * Once an embedding migration is activated its model replaces EMBEDDING_MODEL,
+ * so new documents and queries match the migrated rows
+ */
+export async function getActiveEmbeddingProvider(): Promise<EmbeddingProvider> {
+  if (override || process.env.EMBEDDING_PROVIDER === 'hash') {
+    return getEmbeddingProvider();
+  }
+
+  return getEmbeddingProvider((await getActiveMigrationModel()) ?? undefined);
+}
+
+/**
+ * Forget the cached active model, e.g. right after activating a migration
+ */
+export function clearActiveEmbeddingModel() {
+  activeModel = null;
+}
+
+/**
+ * Override the embedding provider, e.g. from a script
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null) {
+  override = provider;
+}
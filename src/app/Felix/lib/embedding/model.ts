@@ -0,0 +1,47 @@
+import { embed, embedMany } from 'ai';
+import { formatModelSpec, getEmbeddingModel, type ModelConfig } from '../ai/models';
+import type { EmbeddingProvider } from './index';
+
+/**
+ * Embeddings from a model in the model registry
+ * Every vector is checked against the column size, so a model with a different
+ * dimension fails here instead of when the row is written
+ *
+ * @param dimensions - Vector size the database expects
+ * @param config - Embedding model to use
+ */
+export function createModelEmbeddingProvider(dimensions: number, config: ModelConfig): EmbeddingProvider {
+  const spec = formatModelSpec(config);
+  const model = getEmbeddingModel(config);
+
+  const checkDimensions = (embeddings: number[][]) => {
+    const mismatch = embeddings.find(embedding => embedding.length !== dimensions);
+    if (mismatch) {
+      throw new Error(
+        `Embedding model ${spec} returned ${mismatch.length} dimensions, but the database stores ${dimensions}`
+      );
+    }
+    return embeddings;
+  };
+
+  return {
+    name: 'model',
+    model: spec,
+    dimensions,
+
+    async embed(text) {
+      const { embedding } = await embed({ model, value: text });
+      return checkDimensions([embedding])[0];
+    },
+
+    async embedMany(texts) {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      // The SDK splits this into as many requests as the model requires
+      const { embeddings } = await embedMany({ model, values: texts });
+      return checkDimensions(embeddings);
+    },
+  };
+}
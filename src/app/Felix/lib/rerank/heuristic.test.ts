@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { createHeuristicReranker } from './heuristic';
+import type { RerankCandidate } from './index';
+
+const reranker = createHeuristicReranker();
+
+/**
+ * Candidate ids, best scored first
+ */
+async function ranking(query: string, candidates: RerankCandidate[]): Promise<string[]> {
+  const scores = await reranker.score(query, candidates);
+  return candidates
+    .map((candidate, index) => ({ id: candidate.id, score: scores[index] }))
+    .sort((a, b) => b.score - a.score)
+    .map(candidate => candidate.id);
+}
+
+describe('createHeuristicReranker', () => {
+  it('ranks candidates with more of the query terms first', async () => {
+    expect(await ranking('net income growth', [
+      { id: 'none', title: 'Outlook', text: 'Capacity doubles by 2027.' },
+      { id: 'one', title: 'Results', text: 'Revenue growth slowed.' },
+      { id: 'all', title: 'Results', text: 'Net income growth was strong.' },
+    ])).toEqual(['all', 'one', 'none']);
+  });
+
+  it('ranks a verbatim phrase above the same words apart', async () => {
+    expect(await ranking('net income', [
+      { id: 'apart', title: 'Results', text: 'Income before tax, net of hedging.' },
+      { id: 'phrase', title: 'Results', text: 'Net income rose.' },
+    ])).toEqual(['phrase', 'apart']);
+  });
+
+  it('ranks a match in the title above one in the text only', async () => {
+    expect(await ranking('dividend', [
+      { id: 'text', title: 'Results', text: 'The dividend is unchanged.' },
+      { id: 'title', title: 'Dividend', text: 'The dividend is unchanged.' },
+    ])).toEqual(['title', 'text']);
+  });
+
+  it('weights rare query terms above common ones', async () => {
+    expect(await ranking('revenue hotels', [
+      { id: 'common', title: 'Results', text: 'Revenue rose.' },
+      { id: 'rare', title: 'Results', text: 'Hotels were sold.' },
+      { id: 'other', title: 'Results', text: 'Revenue fell.' },
+    ])).toEqual(['rare', 'common', 'other']);
+  });
+
+  it('scores every candidate 0 for a query of only stopwords', async () => {
+    expect(await reranker.score('what is the', [
+      { id: 'a', title: 'Results', text: 'What is the outlook?' },
+    ])).toEqual([0]);
+  });
+});
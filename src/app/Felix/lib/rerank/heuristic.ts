@@ -0,0 +1,72 @@
+import { tokenize } from '../utils/tokenize';
+import type { Reranker } from './index';
+
+/**
+ * Extra weight of a query term found in the title, and of a query bigram
+ * found verbatim ("net income" rather than "income ... net")
+ */
+const TITLE_WEIGHT = 0.5;
+const BIGRAM_WEIGHT = 0.5;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function toBigrams(tokens: string[]): Set<string> {
+  return new Set(tokens.slice(1).map((token, index) => `${tokens[index]} ${token}`));
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Score candidates by how many query terms they contain, weighting terms that
+ * few candidates share (inverse document frequency) and rewarding exact
+ * phrases and title matches
+ * Deterministic and local: it can't judge meaning, but it is free and makes
+ * reranking testable without a model
+ */
+export function createHeuristicReranker(): Reranker {
+  return {
+    name: 'heuristic',
+
+    async score(query, candidates) {
+      const queryTokens = tokenize(query);
+      const queryTerms = [...new Set(queryTokens)];
+      const queryBigrams = toBigrams(queryTokens);
+
+      if (queryTerms.length === 0) {
+        return candidates.map(() => 0);
+      }
+
+      const documents = candidates.map(candidate => {
+        const tokens = tokenize(candidate.text);
+        return {
+          terms: new Set(tokens),
+          bigrams: toBigrams(tokens),
+          titleTerms: new Set(tokenize(candidate.title)),
+        };
+      });
+
+      const idf = new Map(queryTerms.map(term => {
+        const frequency = documents.filter(document => document.terms.has(term)).length;
+        return [term, Math.log(1 + candidates.length / (1 + frequency))];
+      }));
+      const maxScore = queryTerms.reduce((sum, term) => sum + idf.get(term)! * (1 + TITLE_WEIGHT), 0)
+        + queryBigrams.size * BIGRAM_WEIGHT;
+
+      return documents.map(document => {
+        const termScore = queryTerms.reduce((sum, term) => {
+          const weight = idf.get(term)!;
+          return sum
+            + (document.terms.has(term) ? weight : 0)
+            + (document.titleTerms.has(term) ? weight * TITLE_WEIGHT : 0);
+        }, 0);
+        const bigramScore = [...queryBigrams].filter(bigram => document.bigrams.has(bigram)).length * BIGRAM_WEIGHT;
+
+        return maxScore > 0 ? (termScore + bigramScore) / maxScore : 0;
+      });
+    },
+  };
+}
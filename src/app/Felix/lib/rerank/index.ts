@@ -0,0 +1,68 @@
+import { createHeuristicReranker } from './heuristic';
+import { createLLMReranker } from './llm';
+import type { RerankerName } from '../../types/retrieval';
+
+export type { RerankerName };
+
+/**
+ * A retrieved passage to score against the query
+ */
+export interface RerankCandidate {
+  id: string;
+  title: string;
+  text: string;
+}
+
+/**
+ * Reorders retrieval candidates by how well they answer the query
+ * Vector and keyword search rank by resemblance; a reranker reads the query
+ * and each candidate together, which is slower but more precise
+ */
+export interface Reranker {
+  readonly name: RerankerName;
+  /**
+   * @returns A relevance score per candidate, in candidate order - higher is better
+   */
+  score(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+export const RERANKER_NAMES: RerankerName[] = ['llm', 'heuristic'];
+
+const rerankers = new Map<RerankerName, Reranker>();
+
+/**
+ * Get a reranker by name
+ */
+export function getReranker(name: RerankerName): Reranker {
+  let reranker = rerankers.get(name);
+  if (reranker) {
+    return reranker;
+  }
+
+  if (name === 'llm') {
+    reranker = createLLMReranker();
+  } else if (name === 'heuristic') {
+    reranker = createHeuristicReranker();
+  } else {
+    throw new Error(`Unknown reranker "${name}". Valid rerankers: ${RERANKER_NAMES.join(', ')}`);
+  }
+
+  rerankers.set(name, reranker);
+  return reranker;
+}
+
+/**
+ * Get the reranker named by an environment variable, or null if it is unset or `none`
+ */
+export function getConfiguredReranker(variable: string): RerankerName | null {
+  const name = process.env[variable]?.trim();
+  if (!name || name === 'none') {
+    return null;
+  }
+
+  if (!RERANKER_NAMES.includes(name as RerankerName)) {
+    throw new Error(`Unknown reranker "${name}" in ${variable}. Valid rerankers: none, ${RERANKER_NAMES.join(', ')}`);
+  }
+
+  return name as RerankerName;
+}
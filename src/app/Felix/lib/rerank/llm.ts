@@ -0,0 +1,47 @@
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { getLanguageModel } from '../ai/models';
+import type { Reranker } from './index';
+
+const relevanceSchema = z.object({
+  scores: z.array(z.object({
+    candidate: z.number().int().describe('Candidate number'),
+    score: z.number().min(0).max(10).describe('0 = irrelevant, 10 = directly answers the question'),
+  })),
+});
+
+/**
+ * Score all candidates in one call, so the judge can compare them
+ * Candidates it leaves out score 0
+ */
+export function createLLMReranker(): Reranker {
+  return {
+    name: 'llm',
+
+    async score(query, candidates) {
+      if (candidates.length === 0) {
+        return [];
+      }
+
+      const { object } = await generateObject({
+        model: getLanguageModel('rerank'),
+        schema: relevanceSchema,
+        temperature: 0,
+        system: `You judge how relevant passages from company documents are to a search query.
+
+Score every candidate from 0 to 10:
+- 10: directly answers the query (the figure, event or statement asked for)
+- 5: about the same subject but does not answer it
+- 0: unrelated
+
+Judge only what the passage says, not what the document might contain elsewhere. Return a score for every candidate number.`,
+        prompt: `Query: ${query}
+
+${candidates.map((candidate, index) => `[Candidate ${index + 1}] ${candidate.title}\n${candidate.text}`).join('\n\n---\n\n')}`,
+      });
+
+      const scores = new Map(object.scores.map(entry => [entry.candidate, entry.score / 10]));
+      return candidates.map((_, index) => scores.get(index + 1) ?? 0);
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { createHash } from 'crypto';
+import { createLocalStorage } from './local';
+import { createS3Storage } from './s3';
+
+/**
+ * Minimal object storage interface for original uploaded files
+ * Keys are driver-agnostic, so a document's storagePath works with any backend
+ */
+export interface ObjectStorage {
+  readonly driver: StorageDriver;
+  put(key: string, bytes: Uint8Array, contentType: string): Promise<void>;
+  get(key: string): Promise<Uint8Array | null>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+}
+
+export type StorageDriver = 'local' | 's3';
+
+let storage: ObjectStorage | null = null;
+
+/**
+ * Get the configured storage backend (STORAGE_DRIVER, defaults to local)
+ */
+export function getObjectStorage(): ObjectStorage {
+  if (storage) {
+    return storage;
+  }
+
+  const driver = (process.env.STORAGE_DRIVER || 'local') as StorageDriver;
+
+  if (driver === 's3') {
+    storage = createS3Storage({
+      bucket: process.env.S3_BUCKET!,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    });
+  } else if (driver === 'local') {
+    storage = createLocalStorage(process.env.STORAGE_LOCAL_DIR || 'storage');
+  } else {
+    throw new Error(`Unknown STORAGE_DRIVER "${driver}". Valid drivers: local, s3`);
+  }
+
+  return storage;
+}
+
+/**
+ * SHA-256 hex digest of the file contents
+ */
+export function hashContent(bytes: Uint8Array): string {
+  return createHash('sha256').update(bytes).digest('hex');
+}
+
+/**
+ * Content-addressed key for an uploaded PDF
+ * Identical files always map to the same key, so re-uploads never duplicate storage
+ */
+export function documentStorageKey(contentHash: string): string {
+  return `documents/${contentHash}.pdf`;
+}
+
+/**
+ * Store PDF bytes under their content-addressed key
+ *
+ * @returns The content hash and storage key
+ */
+export async function storePdf(bytes: Uint8Array): Promise<{ contentHash: string; storageKey: string }> {
+  const contentHash = hashContent(bytes);
+  const storageKey = documentStorageKey(contentHash);
+  const objectStorage = getObjectStorage();
+
+  if (!(await objectStorage.exists(storageKey))) {
+    await objectStorage.put(storageKey, bytes, 'application/pdf');
+  }
+
+  return { contentHash, storageKey };
+}
+
+/**
+ * Load PDF bytes previously stored with storePdf
+ */
+export async function loadPdf(storageKey: string): Promise<Uint8Array> {
+  const bytes = await getObjectStorage().get(storageKey);
+
+  if (!bytes) {
+    throw new Error(`Stored file not found: ${storageKey}`);
+  }
+
+  return bytes;
+}
@@ -0,0 +1,55 @@
+import { mkdir, readFile, rm, stat, writeFile } from 'fs/promises';
+import { dirname, resolve, sep } from 'path';
+import type { ObjectStorage } from './index';
+
+/**
+ * Local filesystem backend - stores objects as files under a root directory
+ *
+ * @param rootDir - Directory to store objects in (relative to the working directory)
+ */
+export function createLocalStorage(rootDir: string): ObjectStorage {
+  const root = resolve(rootDir);
+
+  // Resolve a key to a path, refusing anything that escapes the root directory
+  const pathFor = (key: string): string => {
+    const path = resolve(root, key);
+    if (!path.startsWith(root + sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return path;
+  };
+
+  return {
+    driver: 'local',
+
+    async put(key, bytes) {
+      const path = pathFor(key);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, bytes);
+    },
+
+    async get(key) {
+      try {
+        return new Uint8Array(await readFile(pathFor(key)));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async exists(key) {
+      try {
+        await stat(pathFor(key));
+        return true;
+      } catch {
+        return false;
+      }
+    },
+
+    async delete(key) {
+      await rm(pathFor(key), { force: true });
+    },
+  };
+}
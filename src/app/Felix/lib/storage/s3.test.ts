@@ -0,0 +1,93 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  NoSuchKey,
+  NotFound,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { createS3Storage } from './s3';
+
+const config = { bucket: 'felix-test', region: 'us-east-1' };
+
+/**
+ * Replace the client's network call, answering each command with the given handler
+ */
+function mockSend(handler: (command: unknown) => unknown) {
+  return vi.spyOn(S3Client.prototype, 'send').mockImplementation(async command => handler(command) as never);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('createS3Storage', () => {
+  it('requires a bucket', () => {
+    expect(() => createS3Storage({ ...config, bucket: '' })).toThrow('S3_BUCKET must be set');
+  });
+
+  it('puts an object under its key in the bucket', async () => {
+    const send = mockSend(() => ({}));
+    const bytes = new Uint8Array([1, 2, 3]);
+
+    await createS3Storage(config).put('documents/a.pdf', bytes, 'application/pdf');
+
+    const [command] = send.mock.calls[0];
+    expect(command).toBeInstanceOf(PutObjectCommand);
+    expect((command as PutObjectCommand).input).toEqual({
+      Bucket: 'felix-test',
+      Key: 'documents/a.pdf',
+      Body: bytes,
+      ContentType: 'application/pdf',
+    });
+  });
+
+  it('gets the bytes of an object', async () => {
+    const send = mockSend(() => ({ Body: { transformToByteArray: async () => new Uint8Array([4, 5]) } }));
+
+    expect(await createS3Storage(config).get('documents/a.pdf')).toEqual(new Uint8Array([4, 5]));
+    expect(send.mock.calls[0][0]).toBeInstanceOf(GetObjectCommand);
+  });
+
+  it('gets null for a missing object', async () => {
+    mockSend(() => {
+      throw new NoSuchKey({ message: 'The specified key does not exist.', $metadata: {} });
+    });
+
+    expect(await createS3Storage(config).get('documents/missing.pdf')).toBeNull();
+  });
+
+  it('rethrows any other error from a get', async () => {
+    mockSend(() => {
+      throw new Error('Access Denied');
+    });
+
+    await expect(createS3Storage(config).get('documents/a.pdf')).rejects.toThrow('Access Denied');
+  });
+
+  it('checks whether an object exists', async () => {
+    const send = mockSend(command => {
+      if ((command as HeadObjectCommand).input.Key === 'documents/missing.pdf') {
+        throw new NotFound({ message: 'Not Found', $metadata: {} });
+      }
+      return {};
+    });
+    const storage = createS3Storage(config);
+
+    expect(await storage.exists('documents/a.pdf')).toBe(true);
+    expect(await storage.exists('documents/missing.pdf')).toBe(false);
+    expect(send.mock.calls[0][0]).toBeInstanceOf(HeadObjectCommand);
+  });
+
+  it('deletes an object', async () => {
+    const send = mockSend(() => ({}));
+
+    await createS3Storage(config).delete('documents/a.pdf');
+
+    const [command] = send.mock.calls[0];
+    expect(command).toBeInstanceOf(DeleteObjectCommand);
+    expect((command as DeleteObjectCommand).input).toEqual({ Bucket: 'felix-test', Key: 'documents/a.pdf' });
+  });
+});
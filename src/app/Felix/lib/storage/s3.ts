@@ -0,0 +1,90 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  NoSuchKey,
+  NotFound,
+} from '@aws-sdk/client-s3';
+import type { ObjectStorage } from './index';
+
+export interface S3StorageConfig {
+  bucket: string;
+  region: string;
+  /** Custom endpoint for S3-compatible services (e.g. a local MinIO instance) */
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  /** Required by most S3-compatible stand-ins, which don't support virtual-hosted buckets */
+  forcePathStyle?: boolean;
+}
+
+/**
+ * S3-compatible backend
+ * Works with AWS S3 or any compatible service via a custom endpoint
+ */
+export function createS3Storage(config: S3StorageConfig): ObjectStorage {
+  if (!config.bucket) {
+    throw new Error('S3_BUCKET must be set when STORAGE_DRIVER=s3');
+  }
+
+  const client = new S3Client({
+    region: config.region,
+    endpoint: config.endpoint,
+    forcePathStyle: config.forcePathStyle,
+    credentials: config.accessKeyId && config.secretAccessKey
+      ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+      : undefined,
+  });
+
+  return {
+    driver: 's3',
+
+    async put(key, bytes, contentType) {
+      await client.send(new PutObjectCommand({
+        Bucket: config.bucket,
+        Key: key,
+        Body: bytes,
+        ContentType: contentType,
+      }));
+    },
+
+    async get(key) {
+      try {
+        const response = await client.send(new GetObjectCommand({
+          Bucket: config.bucket,
+          Key: key,
+        }));
+        return response.Body ? await response.Body.transformToByteArray() : null;
+      } catch (error) {
+        if (error instanceof NoSuchKey) {
+          return null;
+        }
+        throw error;
+      }
+    },
+
+    async exists(key) {
+      try {
+        await client.send(new HeadObjectCommand({
+          Bucket: config.bucket,
+          Key: key,
+        }));
+        return true;
+      } catch (error) {
+        if (error instanceof NotFound) {
+          return false;
+        }
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({
+        Bucket: config.bucket,
+        Key: key,
+      }));
+    },
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Map over items with at most `limit` calls in flight at once
+ * Results keep the order of the input. A rejection rejects the whole map,
+ * so callers that want partial results should catch inside `fn`
+ *
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async work for one item, given its index
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  // Each worker takes the next unclaimed item until none are left
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, Math.floor(limit)), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
@@ -0,0 +1,191 @@
+import type { FxRateInput } from '../../types/currency';
+
+/**
+ * Rates per currency pair (`BASE/QUOTE`), sorted by date
+ */
+export type FxRateTable = Map<string, Array<{ rateDate: string; rate: number }>>;
+
+/**
+ * CSV header names accepted for each column
+ */
+const CSV_COLUMNS: Record<keyof FxRateInput, string[]> = {
+  rateDate: ['date', 'rate_date'],
+  baseCurrency: ['base', 'base_currency', 'from'],
+  quoteCurrency: ['quote', 'quote_currency', 'to'],
+  rate: ['rate', 'fx_rate'],
+};
+
+// ============================================
+// HELPERS
+// ============================================
+
+function pairKey(baseCurrency: string, quoteCurrency: string): string {
+  return `${baseCurrency}/${quoteCurrency}`;
+}
+
+/**
+ * Latest rate of a pair on or before the date (YYYY-MM-DD)
+ */
+function findRateOnOrBefore(table: FxRateTable, baseCurrency: string, quoteCurrency: string, date: string) {
+  const rates = table.get(pairKey(baseCurrency, quoteCurrency));
+  if (!rates || rates.length === 0 || rates[0].rateDate > date) {
+    return null;
+  }
+
+  // Binary search for the last rate dated on or before the date
+  let low = 0;
+  let high = rates.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (rates[middle].rateDate <= date) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return rates[low];
+}
+
+/**
+ * Rate of a pair stored either way round
+ */
+function findPairRate(table: FxRateTable, from: string, to: string, date: string) {
+  const direct = findRateOnOrBefore(table, from, to, date);
+  if (direct) {
+    return direct;
+  }
+
+  const inverse = findRateOnOrBefore(table, to, from, date);
+  return inverse ? { rateDate: inverse.rateDate, rate: 1 / inverse.rate } : null;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Normalize a currency code ("eur " -> "EUR")
+ *
+ * @returns The ISO 4217-shaped code, or null if it isn't three letters
+ */
+export function normalizeCurrencyCode(code: string): string | null {
+  const normalized = code.trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(normalized) ? normalized : null;
+}
+
+/**
+ * Parse FX rates from CSV with a header row naming the columns
+ * date, base, quote and rate (in any order), e.g.
+ *   date,base,quote,rate
+ *   2024-03-28,EUR,USD,1.0811
+ *
+ * @param csv - CSV text
+ * @returns Parsed rates, and the line numbers and reasons of skipped lines
+ */
+export function parseFxRatesCsv(csv: string): { rates: FxRateInput[]; skipped: string[] } {
+  const lines = csv.split(/\r?\n/);
+  const header = lines[0].split(',').map(column => column.trim().replace(/^"|"$/g, '').toLowerCase());
+
+  const indexes = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, names]) => [field, header.findIndex(column => names.includes(column))])
+  ) as Record<keyof FxRateInput, number>;
+
+  const missing = Object.entries(indexes).filter(([, index]) => index < 0).map(([field]) => field);
+  if (missing.length > 0) {
+    throw new Error(`FX rate CSV header is missing columns for: ${missing.join(', ')}. Expected date, base, quote, rate`);
+  }
+
+  const rates: FxRateInput[] = [];
+  const skipped: string[] = [];
+
+  lines.slice(1).forEach((line, index) => {
+    if (!line.trim()) {
+      return;
+    }
+
+    const cells = line.split(',').map(cell => cell.trim().replace(/^"|"$/g, ''));
+    const baseCurrency = normalizeCurrencyCode(cells[indexes.baseCurrency] ?? '');
+    const quoteCurrency = normalizeCurrencyCode(cells[indexes.quoteCurrency] ?? '');
+    const rateDate = cells[indexes.rateDate] ?? '';
+    const rate = Number(cells[indexes.rate]);
+    const lineNumber = index + 2;
+
+    if (!baseCurrency || !quoteCurrency) {
+      skipped.push(`line ${lineNumber}: invalid currency code`);
+    } else if (!/^\d{4}-\d{2}-\d{2}$/.test(rateDate)) {
+      skipped.push(`line ${lineNumber}: date must be YYYY-MM-DD`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      skipped.push(`line ${lineNumber}: rate must be a positive number`);
+    } else {
+      rates.push({ baseCurrency, quoteCurrency, rateDate, rate });
+    }
+  });
+
+  return { rates, skipped };
+}
+
+/**
+ * Index rates by currency pair for findFxRate
+ */
+export function buildFxRateTable(rates: FxRateInput[]): FxRateTable {
+  const table: FxRateTable = new Map();
+
+  for (const { baseCurrency, quoteCurrency, rateDate, rate } of rates) {
+    const key = pairKey(baseCurrency, quoteCurrency);
+    const pairRates = table.get(key) ?? [];
+    pairRates.push({ rateDate, rate });
+    table.set(key, pairRates);
+  }
+
+  for (const pairRates of table.values()) {
+    pairRates.sort((a, b) => a.rateDate.localeCompare(b.rateDate));
+  }
+
+  return table;
+}
+
+/**
+ * Find the rate converting one currency into another at a date
+ * Uses the latest rate on or before the date, stored either way round, or
+ * crosses through a third currency (GBP -> USD -> EUR) when the pair has no rates
+ *
+ * @param table - From buildFxRateTable
+ * @param from - Currency to convert from
+ * @param to - Currency to convert into
+ * @param date - YYYY-MM-DD
+ * @returns Units of `to` per unit of `from` and the date of the (older) rate used, or null
+ */
+export function findFxRate(
+  table: FxRateTable,
+  from: string,
+  to: string,
+  date: string
+): { rate: number; rateDate: string } | null {
+  if (from === to) {
+    return { rate: 1, rateDate: date };
+  }
+
+  const pair = findPairRate(table, from, to, date);
+  if (pair) {
+    return pair;
+  }
+
+  const currencies = new Set([...table.keys()].flatMap(key => key.split('/')));
+  for (const pivot of currencies) {
+    if (pivot === from || pivot === to) {
+      continue;
+    }
+
+    const first = findPairRate(table, from, pivot, date);
+    const second = first && findPairRate(table, pivot, to, date);
+    if (first && second) {
+      return {
+        rate: first.rate * second.rate,
+        rateDate: first.rateDate < second.rateDate ? first.rateDate : second.rateDate,
+      };
+    }
+  }
+
+  return null;
+}
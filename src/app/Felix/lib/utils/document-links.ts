@@ -0,0 +1,23 @@
+import { z } from 'zod';
+
+/**
+ * Document IDs are stored in a uuid column
+ */
+const documentIdSchema = z.string().uuid();
+
+/**
+ * Whether a client-supplied document ID is a valid document ID
+ * Anything else would fail the uuid cast in Postgres, so check before querying
+ */
+export function isDocumentId(value: unknown): value is string {
+  return documentIdSchema.safeParse(value).success;
+}
+
+/**
+ * URL of a document's original PDF, optionally opened at a specific page
+ * Uses the #page=N fragment understood by browser PDF viewers
+ */
+export function getDocumentFileUrl(docId: string, page?: number | null): string {
+  const url = `/Felix/api/documents/${docId}/file`;
+  return page ? `${url}#page=${page}` : url;
+}
@@ -0,0 +1,51 @@
+import type { IngestionProgressEvent, IngestionResult } from '../../types/ingestion';
+
+/**
+ * Post to /Felix/api/ingest and dispatch each streamed progress event
+ *
+ * @param formData - Either a `pdf` file to ingest or a `jobId` to resume
+ * @param onEvent - Called for every progress event as it arrives
+ * @returns The final result event's payload
+ */
+export async function streamIngestion(
+  formData: FormData,
+  onEvent: (event: IngestionProgressEvent) => void
+): Promise<IngestionResult> {
+  const response = await fetch('/Felix/api/ingest', {
+    method: 'POST',
+    body: formData,
+  });
+
+  if (!response.ok || !response.body) {
+    const message = await response.text();
+    return { success: false, error: message || `Upload failed (${response.status})` };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: IngestionResult | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    const event = JSON.parse(line) as IngestionProgressEvent;
+    if (event.type === 'result') {
+      result = event.result;
+    }
+    onEvent(event);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+
+  handleLine(buffer);
+
+  return result ?? { success: false, error: 'Connection closed before processing finished' };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { formatUnit, parseUnit } from './metric-units';
+
+describe('parseUnit', () => {
+  it.each([
+    ['EUR m', 'EUR', 1e6],
+    ['EURm', 'EUR', 1e6],
+    ['EUR mn', 'EUR', 1e6],
+    ['$m', 'USD', 1e6],
+    ['USDbn', 'USD', 1e9],
+    ["GBP '000", 'GBP', 1e3],
+    ['thousands of USD', 'USD', 1e3],
+    ['EUR', 'EUR', 1],
+  ])('reads the scale of %s', (unit, currency, scale) => {
+    expect(parseUnit(unit)).toEqual({ family: 'currency', unit: currency, scale });
+  });
+
+  it('reads a scale split between the unit and the metric name', () => {
+    expect(parseUnit('m', 'Revenue (EUR)')).toEqual({ family: 'currency', unit: 'EUR', scale: 1e6 });
+    expect(parseUnit('', 'Revenue (EUR m)')).toEqual({ family: 'currency', unit: 'EUR', scale: 1e6 });
+  });
+
+  it.each([
+    ['EUR/m²', 'm²'],
+    ['EUR per m²', 'm²'],
+    ['EUR per sq m', 'sq m'],
+    ['USD/b', 'b'],
+    ['USD per share', 'share'],
+  ])('keeps the denominator of %s instead of reading it as a scale', (unit, per) => {
+    expect(parseUnit(unit)).toEqual({ family: 'currency', unit: unit.slice(0, 3), scale: 1, per });
+  });
+
+  it('scales only the amount of a price', () => {
+    expect(parseUnit('EUR k/m²')).toEqual({ family: 'currency', unit: 'EUR', scale: 1e3, per: 'm²' });
+    expect(parseUnit('', 'Rent (EUR per sq m)')).toEqual({ family: 'currency', unit: 'EUR', scale: 1, per: 'sq m' });
+  });
+
+  it('still reads percent and non-currency units', () => {
+    expect(parseUnit('per cent')).toEqual({ family: 'percent', unit: 'percent', scale: 1 });
+    expect(parseUnit('bps')).toEqual({ family: 'percent', unit: 'percent', scale: 0.01 });
+    expect(parseUnit('m')).toEqual({ family: 'other', unit: 'm', scale: 1 });
+  });
+});
+
+describe('formatUnit', () => {
+  it('keeps a price per unit when stored, and parses back the same', () => {
+    const stored = formatUnit(parseUnit('EUR per m²'));
+
+    expect(stored).toBe('EUR/m²');
+    expect(parseUnit(stored)).toEqual({ family: 'currency', unit: 'EUR', scale: 1, per: 'm²' });
+  });
+});
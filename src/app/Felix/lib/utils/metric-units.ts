@@ -0,0 +1,192 @@
+import type { MetricUnitFamily } from '../../types/metrics';
+
+/**
+ * ISO 4217 codes recognized in extracted units
+ */
+const CURRENCY_CODES = new Set([
+  'AUD', 'BRL', 'CAD', 'CHF', 'CNY', 'CZK', 'DKK', 'EUR', 'GBP', 'HKD', 'INR', 'JPY',
+  'KRW', 'MXN', 'NOK', 'NZD', 'PLN', 'SEK', 'SGD', 'USD', 'ZAR',
+]);
+
+const CURRENCY_WORDS: Array<[RegExp, string]> = [
+  [/\$|\bdollars?\b/, 'USD'],
+  [/€|\beuros?\b/, 'EUR'],
+  [/£|\bpounds?\b|\bsterling\b/, 'GBP'],
+  [/¥|\byen\b/, 'JPY'],
+];
+
+/**
+ * Scale words, and the abbreviations that only mean a scale on a currency
+ * amount ("EUR m" and "EURm" are millions, but the m in "EUR/m" is metres)
+ */
+const SCALE_WORDS: Array<[RegExp, number]> = [
+  [/\bbillions?\b/, 1e9],
+  [/\bmillions?\b/, 1e6],
+  [/\bthousands?\b/, 1e3],
+];
+const CURRENCY_SCALE_ABBREVIATIONS: Array<[RegExp, number]> = [
+  [/^(bn|bln|b)$/, 1e9],
+  [/^(mn|mln|mm|m)$/, 1e6],
+  [/^(k|'?000s?)$/, 1e3],
+];
+
+/**
+ * A currency code with a scale abbreviation run on ("EURm", "USDbn")
+ */
+const CODE_WITH_SCALE = /\b([a-z]{3})(bn|bln|mn|mln|mm|m|k|b)\b/g;
+
+/**
+ * Start of a per-unit denominator: "EUR/m²", "EUR per sq m", "USD per share"
+ */
+const DENOMINATOR = /\s*(?:\/|\bper\b(?!\s?cent))\s*/;
+
+const BASIS_POINTS = /\b(bps|bp|basis points?)\b/;
+const PERCENT = /%|\bper ?cent(age)?\b|\bpct\b|\bpp\b|\bpercentage points?\b/;
+const RATIO = /^x$|\btimes\b|\bratio\b|\bmultiple\b/;
+const COUNT = /\b(count|number|units?|employees|people|persons|ftes?|headcount|properties|assets|sites|stores|beds|customers|users|shares)\b/;
+
+export interface ParsedUnit {
+  family: MetricUnitFamily;
+  unit: string; // Currency code, 'percent', 'x', or the cleaned unit text
+  scale: number; // Multiply extracted values by this to unscale them
+  per?: string; // Denominator of a currency price ("m²" for EUR/m²), which the scale never applies to
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function findCurrency(text: string): string | null {
+  const code = text.toUpperCase().match(/\b[A-Z]{3}(?=(BN|BLN|MN|MLN|MM|M|K|B)?\b)/g)?.find(candidate => CURRENCY_CODES.has(candidate));
+  if (code) {
+    return code;
+  }
+
+  return CURRENCY_WORDS.find(([pattern]) => pattern.test(text))?.[1] ?? null;
+}
+
+function findScale(text: string, scales: Array<[RegExp, number]>): number {
+  return scales.find(([pattern]) => pattern.test(text))?.[1] ?? 1;
+}
+
+/**
+ * Split unit text into the amount and, for a price, what it is per
+ * ("EUR m per m²" -> "EUR m" and "m²")
+ */
+function splitDenominator(text: string): { amount: string; per: string | null } {
+  const [amount, ...denominator] = text.split(DENOMINATOR);
+  const per = denominator.join(' ').replace(/\s+/g, ' ').trim();
+  return { amount, per: per || null };
+}
+
+/**
+ * Scale of a currency amount, read from the words and abbreviations left
+ * once the currency itself is taken out
+ */
+function findCurrencyScale(amount: string): number {
+  const lower = amount.toLowerCase();
+  const wordScale = findScale(lower, SCALE_WORDS);
+  if (wordScale !== 1) {
+    return wordScale;
+  }
+
+  const tokens: string[] = [];
+  const remainder = lower.replace(CODE_WITH_SCALE, (match, code: string, suffix: string) => {
+    if (!CURRENCY_CODES.has(code.toUpperCase())) {
+      return match;
+    }
+    tokens.push(suffix);
+    return ' ';
+  });
+  tokens.push(...remainder.replace(/[()[\],.:]/g, ' ').split(/\s+/).map(token => token.replace(/^[$€£¥]+/, '')));
+
+  for (const [pattern, scale] of CURRENCY_SCALE_ABBREVIATIONS) {
+    if (tokens.some(token => pattern.test(token))) {
+      return scale;
+    }
+  }
+
+  return 1;
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Normalize a metric name into a lookup key: lower snake_case, without any
+ * parenthesized unit ("Revenue (EUR m)" -> "revenue")
+ */
+export function normalizeMetricKey(metricName: string): string {
+  return metricName
+    .replace(/\([^)]*\)/g, ' ')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+}
+
+/**
+ * Work out a fact's unit family, canonical unit and scale
+ * Units are often split between the unit and the metric name ("Revenue (EUR m)"),
+ * so both are read. A currency price keeps what it is per ("EUR/m²",
+ * "USD per share"), and only the amount before the "/" or "per" is scaled
+ *
+ * @param unit - Extracted unit, e.g. "EUR m", "thousands of USD", "bps"
+ * @param metricName - Extracted metric name, for a parenthesized unit
+ */
+export function parseUnit(unit: string, metricName = ''): ParsedUnit {
+  const parenthesized = metricName.match(/\(([^)]*)\)/g)?.map(part => part.slice(1, -1)) ?? [];
+  const text = [unit, ...parenthesized].join(' ').trim();
+  const lower = text.toLowerCase();
+
+  const parts = [unit, ...parenthesized].map(splitDenominator);
+  const amount = parts.map(part => part.amount).join(' ');
+  const per = parts.find(part => part.per)?.per;
+
+  const currency = findCurrency(amount);
+  if (currency) {
+    return {
+      family: 'currency',
+      unit: currency,
+      scale: findCurrencyScale(amount),
+      ...(per ? { per } : {}),
+    };
+  }
+
+  if (BASIS_POINTS.test(lower)) {
+    return { family: 'percent', unit: 'percent', scale: 0.01 };
+  }
+  if (PERCENT.test(lower)) {
+    return { family: 'percent', unit: 'percent', scale: 1 };
+  }
+  if (RATIO.test(lower)) {
+    return { family: 'ratio', unit: 'x', scale: 1 };
+  }
+
+  const scale = findScale(lower, SCALE_WORDS);
+  const cleaned = SCALE_WORDS.reduce((result, [pattern]) => result.replace(pattern, ''), lower)
+    .replace(/\bof\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    family: COUNT.test(lower) ? 'count' : 'other',
+    unit: cleaned || unit,
+    scale,
+  };
+}
+
+/**
+ * A parsed unit as stored on a normalized fact ("EUR", "EUR/m²", "percent")
+ */
+export function formatUnit(parsed: ParsedUnit): string {
+  return parsed.per ? `${parsed.unit}/${parsed.per}` : parsed.unit;
+}
+
+/**
+ * Multiply without floating point noise (12.3 * 1e6 = 12300000.000000002)
+ */
+export function applyScale(value: number, scale: number): number {
+  return scale === 1 ? value : Number((value * scale).toPrecision(15));
+}
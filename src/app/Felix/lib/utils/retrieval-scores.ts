@@ -0,0 +1,16 @@
+import type { RetrievalScores } from '../../types/retrieval';
+
+/**
+ * Describe a chunk's retrieval scores in one line
+ * e.g. "vector 82.1% (#1), keyword 0.120 (#3), fused 0.0323, rerank 0.90 (#1, was #4)"
+ */
+export function formatRetrievalScores(scores: RetrievalScores): string {
+  return [
+    scores.vector ? `vector ${(scores.vector.similarity * 100).toFixed(1)}% (#${scores.vector.rank})` : null,
+    scores.keyword ? `keyword ${scores.keyword.score.toFixed(3)} (#${scores.keyword.rank})` : null,
+    scores.fused !== undefined ? `fused ${scores.fused.toFixed(4)}` : null,
+    scores.rerank ? `rerank ${scores.rerank.score.toFixed(2)} (#${scores.rerank.rank}, was #${scores.rerank.previousRank})` : null,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,17 @@
+/**
+ * Words too common to tell passages apart
+ */
+export const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'did', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was',
+  'were', 'what', 'when', 'which', 'who', 'why', 'with',
+]);
+
+/**
+ * Lowercase words and numbers of a text, without stopwords
+ * Decimal and thousands separators stay inside numbers ("1,200.5")
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+(?:[.,][0-9]+)*/g) ?? [])
+    .filter(token => !STOPWORDS.has(token));
+}
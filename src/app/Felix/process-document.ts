@@ -1,14 +1,11 @@
 'use server';
 
 import {
-  fileToBase64DataUrl,
-  extractDocumentStructure,
-  extractAllSectionsContent,
   validatePdfSize,
   validatePdfType,
 } from '@/app/Felix/lib/ai/pdf-processor';
-import { generateSectionEmbeddings } from '@/app/Felix/lib/ai/embeddings';
-import { saveDocumentToDatabase } from '@/app/Felix/lib/ai/database';
+import { createIngestionJob, duplicateResult, runIngestionJob } from '@/app/Felix/lib/ai/ingestion';
+import { DUPLICATE_ACTIONS, type DuplicateAction } from './types/ingestion';
 import { checkAuth as checkFelixAuth } from './actions';
 
 /**
@@ -20,8 +17,9 @@ import { checkAuth as checkFelixAuth } from './actions';
  * Server action to process a PDF document upload
  * Called from Felix route pages
  * Requires authentication via Felix auth cookie
+ * The upload is stored as an ingestion job, see actions/ingestion-jobs.ts for resuming
  *
- * @param formData - Form data containing the PDF file
+ * @param formData - Form data containing the PDF file and an optional duplicateAction
  * @returns Processing result
  */
 export async function processDocument(formData: FormData) {
@@ -56,56 +54,22 @@ export async function processDocument(formData: FormData) {
       };
     }
 
-    // Convert to base64 for Phase 1
-    const pdfDataUrl = await fileToBase64DataUrl(file);
-
-    // Get original bytes for Phase 2
-    const arrayBuffer = await file.arrayBuffer();
-    const pdfBytes = new Uint8Array(arrayBuffer);
-
-    // TODO: Upload to S3 or file storage and get path
-    // For now, use a placeholder
-    const storagePath = `temp/${file.name}`;
-
-    // PHASE 1: Extract document structure (1 API call)
-    console.log('Phase 1: Extracting document structure...');
-    const structure = await extractDocumentStructure(pdfDataUrl);
-
-    console.log(`Found ${structure.sections.length} sections`);
-    console.log(`Company: ${structure.company}`);
-    console.log(`Sector: ${structure.sector}`);
-    console.log(`Date: ${structure.documentDate}`);
-
-    // PHASE 2: Extract section content in parallel (N API calls)
-    console.log('Phase 2: Extracting section content with sector-specific patterns...');
-    const contents = await extractAllSectionsContent(pdfBytes, structure.sections, structure.sector);
-
-    // PHASE 3: Generate embeddings (1 API call)
-    console.log('Phase 3: Generating embeddings...');
-    const embeddings = await generateSectionEmbeddings(structure.sections, contents);
+    // Persist the upload as an ingestion job so a failed run can be resumed
+    const duplicateAction = (formData.get('duplicateAction') as DuplicateAction | null) ?? undefined;
+    if (duplicateAction !== undefined && !DUPLICATE_ACTIONS.includes(duplicateAction)) {
+      return {
+        success: false,
+        error: `Invalid duplicate action. Valid actions: ${DUPLICATE_ACTIONS.join(', ')}`,
+      };
+    }
 
-    // PHASE 4: Save to database
-    console.log('Phase 4: Saving to database...');
-    const result = await saveDocumentToDatabase(
-      structure,
-      structure.sections,
-      contents,
-      embeddings,
-      storagePath
-    );
+    const job = await createIngestionJob(file, duplicateAction);
 
-    console.log('Processing complete!');
+    if (job.status === 'duplicate') {
+      return duplicateResult(job.duplicate, duplicateAction === 'skip');
+    }
 
-    return {
-      success: true,
-      companyId: result.companyId,
-      documentId: result.documentId,
-      totalChunks: result.totalChunks,
-      documentTitle: structure.documentTitle,
-      company: structure.company,
-      documentDate: structure.documentDate,
-      sections: structure.sections.length,
-    };
+    return await runIngestionJob(job.jobId);
   } catch (error) {
     console.error('Error processing document:', error);
     return {
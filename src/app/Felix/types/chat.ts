@@ -0,0 +1,46 @@
+import type { UIMessage } from 'ai';
+import type { RetrievalScores } from './retrieval';
+import type { QualitativeInfo, QuantitativeData, StoredFact, TimeBasedInfo } from '../lib/ai/schemas';
+import type { CondensedQuery } from '../lib/ai/query-rewriter';
+
+/**
+ * A retrieved document chunk the assistant's answer was grounded on
+ * Streamed to the client as a `data-source` part as soon as it is retrieved
+ */
+export interface ChatSource {
+  sourceNumber: number; // 1-based, matches the [N] citations in the answer
+  chunkId: string;
+  docId: string;
+  documentTitle: string | null;
+  sectionTitle: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  similarity: number; // 0 if only keyword search found it
+  companyName?: string;
+  scores?: RetrievalScores;
+}
+
+/**
+ * Custom data parts streamed alongside the assistant's text
+ */
+export type FelixDataParts = {
+  source: ChatSource;
+};
+
+export interface ChatMessageMetadata {
+  retrievalQuery?: CondensedQuery; // What the context was retrieved with, for debugging follow-ups
+}
+
+export type FelixUIMessage = UIMessage<ChatMessageMetadata, FelixDataParts>;
+
+/**
+ * Full text and extracted facts of a cited chunk, shown in the source panel
+ */
+export interface ChatSourceDetails {
+  chunkId: string;
+  chunkText: string;
+  summary: string | null;
+  timeBasedInfo: StoredFact<TimeBasedInfo>[] | null;
+  qualitativeInfo: StoredFact<QualitativeInfo>[] | null;
+  quantitativeData: StoredFact<QuantitativeData>[] | null;
+}
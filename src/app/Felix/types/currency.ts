@@ -0,0 +1,22 @@
+/**
+ * One exchange rate: `rate` units of quoteCurrency buy one unit of baseCurrency
+ */
+export interface FxRateInput {
+  baseCurrency: string;
+  quoteCurrency: string;
+  rateDate: string; // YYYY-MM-DD
+  rate: number;
+}
+
+/**
+ * A currency amount converted into the reporting currency, with the value it
+ * was converted from
+ */
+export interface CurrencyConversion {
+  value: number;
+  currency: string; // Reporting currency, per the same unit as the original for a price ("USD/m²")
+  originalValue: number;
+  originalCurrency: string;
+  rate: number; // Reporting currency per unit of the original currency
+  rateDate: string; // Date of the rate used, the closest on or before the period
+}
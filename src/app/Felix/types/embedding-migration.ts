@@ -0,0 +1,30 @@
+/**
+ * Lifecycle of an embedding model migration:
+ * running - re-embedding into the new column (resumable)
+ * ready - every row re-embedded and indexed, waiting to be activated
+ * active - retrieval searches the new embeddings
+ * superseded - a later migration has been activated
+ */
+export type EmbeddingMigrationStatus = 'running' | 'ready' | 'active' | 'superseded';
+
+export type EmbeddingMigrationDocumentStatus = 'pending' | 'completed' | 'failed';
+
+export interface EmbeddingMigrationDocumentProgress {
+  docId: string;
+  documentTitle: string | null;
+  companyName: string;
+  status: EmbeddingMigrationDocumentStatus;
+  chunksEmbedded: number;
+  subChunksEmbedded: number;
+  error: string | null;
+}
+
+export interface EmbeddingMigrationReport {
+  migrationId: string;
+  targetModel: string;
+  status: EmbeddingMigrationStatus;
+  completed: number;
+  failed: number;
+  pending: number;
+  documents: EmbeddingMigrationDocumentProgress[];
+}
@@ -0,0 +1,87 @@
+import type {
+  NormalizedQuantitativeData,
+  QualitativeInfo,
+  StoredFact,
+  TimeBasedInfo,
+} from '../lib/ai/schemas';
+
+/**
+ * Extracted fact layers a reviewer can correct
+ */
+export type FactLayer = 'TB' | 'PAQL' | 'PAQN';
+
+export const FACT_LAYERS: FactLayer[] = ['TB', 'PAQL', 'PAQN'];
+
+/**
+ * What a reviewer did to a fact
+ * - approve / edit / reject: set the fact's review status
+ * - restore: clear a rejection, returning the fact to unreviewed
+ * - add: append a fact extraction missed
+ */
+export type FactEditAction = 'approve' | 'edit' | 'reject' | 'restore' | 'add';
+
+// Reviewer-entered facts are taken as certain, and grounded against the page text when saved
+export type TimeBasedFactInput = Omit<TimeBasedInfo, 'category' | 'confidence'>;
+export type QualitativeFactInput = Omit<QualitativeInfo, 'category' | 'confidence'>;
+export type QuantitativeFactInput = Omit<NormalizedQuantitativeData, 'category' | 'confidence' | 'original' | 'canonical'>;
+
+export type FactEditInput =
+  | { action: 'approve' | 'reject' | 'restore'; chunkId: string; layer: FactLayer; factIndex: number; note?: string }
+  | { action: 'edit'; chunkId: string; layer: FactLayer; factIndex: number; fact: FactInput; note?: string }
+  | { action: 'add'; chunkId: string; layer: FactLayer; fact: FactInput; note?: string };
+
+export type FactInput = TimeBasedFactInput | QualitativeFactInput | QuantitativeFactInput;
+
+/**
+ * A section of a document under review: its source text next to its facts,
+ * indexed by their position in the stored arrays
+ */
+export interface FactReviewSection {
+  chunkId: string;
+  chunkIndex: number;
+  sectionTitle: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  chunkText: string;
+  timeBasedInfo: StoredFact<TimeBasedInfo>[];
+  qualitativeInfo: StoredFact<QualitativeInfo>[];
+  quantitativeData: StoredFact<NormalizedQuantitativeData>[];
+}
+
+/**
+ * One recorded change to a fact
+ */
+export interface FactEditEntry {
+  editId: string;
+  chunkId: string;
+  sectionTitle: string | null;
+  layer: FactLayer;
+  factIndex: number;
+  action: FactEditAction;
+  before: unknown;
+  after: unknown;
+  editedBy: string;
+  note: string | null;
+  createdAt: Date;
+}
+
+export interface DocumentFactReview {
+  docId: string;
+  documentTitle: string | null;
+  documentDate: string | null;
+  companyName: string;
+  sections: FactReviewSection[];
+  edits: FactEditEntry[];
+}
+
+/**
+ * A document with how far its review has got
+ */
+export interface FactReviewDocument {
+  docId: string;
+  documentTitle: string | null;
+  documentDate: string | null;
+  companyName: string;
+  factCount: number;
+  reviewedCount: number;
+}
@@ -0,0 +1,67 @@
+import type { RerankerName, RetrievalLevel, RetrievalMode, RetrievalScope } from './retrieval';
+
+export type FeedbackRating = 'up' | 'down';
+
+/**
+ * A user's verdict on one assistant answer
+ */
+export interface ChatFeedbackInput {
+  sessionId: string;
+  messageId: string; // The assistant message rated
+  rating: FeedbackRating | null;
+  correction: string | null; // What the answer should have said
+}
+
+/**
+ * Feedback already given on a message, as shown in the chat
+ */
+export interface MessageFeedback {
+  rating: FeedbackRating | null;
+  correction: string | null;
+}
+
+/**
+ * One replayable retrieval case, exported from answer feedback
+ * Relevant chunks are the sources a positively rated answer cited; other
+ * records are exported unlabelled so they can be labelled by hand
+ */
+export interface EvaluationExample {
+  feedbackId: string;
+  question: string; // As the user typed it
+  query: string; // What retrieval searched for (the condensed question)
+  scope: RetrievalScope;
+  rating: FeedbackRating | null;
+  correction: string | null;
+  answer: string;
+  retrievedChunkIds: string[]; // In source number order
+  relevantChunkIds: string[];
+}
+
+export interface RetrievalEvaluationOptions {
+  k: number;
+  similarityThreshold: number;
+  level: RetrievalLevel;
+  mode: RetrievalMode;
+  reranker: RerankerName | null;
+}
+
+/**
+ * Retrieval quality for one example; null where it has no relevant chunks
+ */
+export interface ExampleEvaluation {
+  feedbackId: string;
+  query: string;
+  recall: number | null; // Share of relevant chunks in the top k
+  reciprocalRank: number | null; // 1 / rank of the first relevant chunk, 0 if none in the top k
+  retrievedChunkIds: string[];
+}
+
+export interface RetrievalEvaluation {
+  options: RetrievalEvaluationOptions;
+  evaluated: number;
+  skipped: number; // Examples without relevant chunks
+  hitRate: number; // Share of examples with a relevant chunk in the top k
+  recallAtK: number;
+  mrr: number;
+  examples: ExampleEvaluation[];
+}
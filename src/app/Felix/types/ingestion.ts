@@ -0,0 +1,99 @@
+/**
+ * Phases of the document ingestion pipeline, in execution order.
+ * A job's `currentPhase` is the next phase that still has to run.
+ */
+export type IngestionPhase = 'structure' | 'extraction' | 'embeddings' | 'save';
+
+export const INGESTION_PHASES: IngestionPhase[] = ['structure', 'extraction', 'embeddings', 'save'];
+
+export type IngestionJobStatus = 'pending' | 'running' | 'failed' | 'completed';
+
+export type IngestionSectionStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface IngestionSectionSummary {
+  sectionIndex: number;
+  sectionTitle: string;
+  pageStart: number;
+  pageEnd: number;
+  status: IngestionSectionStatus;
+  error: string | null;
+  attempts: number;
+}
+
+export interface IngestionJobSummary {
+  jobId: string;
+  filename: string;
+  status: IngestionJobStatus;
+  currentPhase: IngestionPhase;
+  error: string | null;
+  attempts: number;
+  company: string | null;
+  documentTitle: string | null;
+  documentId: string | null;
+  companyId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+  sections: IngestionSectionSummary[];
+}
+
+/**
+ * What to do when an upload has the same content hash as an existing document
+ * - skip: keep the existing document, don't process the upload
+ * - replace: process the upload, then delete the existing document (versioned
+ *   instead if a reviewer has edited its facts)
+ * - version: process the upload as a new version, keeping the existing one inactive
+ */
+export type DuplicateAction = 'skip' | 'replace' | 'version';
+
+export const DUPLICATE_ACTIONS: DuplicateAction[] = ['skip', 'replace', 'version'];
+
+export interface DuplicateDocument {
+  docId: string;
+  documentTitle: string | null;
+  companyId: string;
+  companyName: string;
+  version: number;
+  uploadedAt: Date;
+}
+
+export interface IngestionResult {
+  success: boolean;
+  jobId?: string;
+  companyId?: string;
+  documentId?: string;
+  totalChunks?: number;
+  documentTitle?: string;
+  company?: string;
+  documentDate?: string;
+  sections?: number;
+  error?: string;
+  duplicate?: DuplicateDocument;
+  skipped?: boolean;
+}
+
+export type IngestionSectionProgress = Omit<IngestionSectionSummary, 'attempts'>;
+
+/**
+ * Structured progress events emitted while a job runs
+ * Streamed to the client as newline-delimited JSON by /Felix/api/ingest
+ */
+export type IngestionProgressEvent =
+  | { type: 'duplicate-found'; duplicate: DuplicateDocument }
+  | { type: 'job-created'; jobId: string }
+  | { type: 'phase-started'; phase: IngestionPhase }
+  | {
+      type: 'structure-found';
+      company: string;
+      documentTitle: string;
+      totalSections: number;
+      sections: IngestionSectionProgress[];
+    }
+  | { type: 'section-started'; sectionIndex: number; totalSections: number }
+  | { type: 'section-completed'; sectionIndex: number; completedSections: number; totalSections: number }
+  | { type: 'section-failed'; sectionIndex: number; error: string }
+  | { type: 'embeddings-completed'; totalEmbeddings: number }
+  | { type: 'saved'; documentId: string; totalChunks: number }
+  | { type: 'result'; result: IngestionResult };
+
+export type IngestionProgressListener = (event: IngestionProgressEvent) => void;
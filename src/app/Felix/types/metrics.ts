@@ -0,0 +1,43 @@
+/**
+ * Kind of quantity a metric measures - values are only comparable within one
+ * - currency: monetary amounts, stored unscaled in the currency's units
+ * - percent: percentages, with basis points converted to percent
+ * - ratio: multiples such as net debt / EBITDA
+ * - count: people, properties, units...
+ * - other: anything else (areas, volumes...)
+ */
+export type MetricUnitFamily = 'currency' | 'percent' | 'ratio' | 'count' | 'other';
+
+export const METRIC_UNIT_FAMILIES: MetricUnitFamily[] = ['currency', 'percent', 'ratio', 'count', 'other'];
+
+/**
+ * Why a fact needs a human to look at it
+ * - unmapped_metric: its name matches no metric in the dictionary
+ * - unit_mismatch: it maps to a metric, but its unit is of another family
+ */
+export type MetricReviewReason = 'unmapped_metric' | 'unit_mismatch';
+
+export type MetricReviewStatus = 'open' | 'resolved' | 'dismissed';
+
+export interface MetricDefinitionInput {
+  canonicalName: string;
+  displayName: string;
+  unitFamily: MetricUnitFamily;
+  aliases?: string[];
+  description?: string | null;
+}
+
+export interface MetricReviewItem {
+  reviewId: string;
+  reason: MetricReviewReason;
+  metricKey: string;
+  metricName: string; // As extracted
+  value: number;
+  unit: string;
+  period: string | null;
+  suggestedMetric: string | null;
+  companyName: string;
+  documentTitle: string | null;
+  sectionTitle: string | null;
+  createdAt: Date;
+}
@@ -0,0 +1,49 @@
+/**
+ * What the query embedding is compared against
+ * - section: one embedding per section, built from its LLM summary
+ * - subChunk: overlapping passages of the verbatim text; each match
+ *   returns its parent section, with the matching passages attached
+ */
+export type RetrievalLevel = 'section' | 'subChunk';
+
+/**
+ * How chunks are ranked
+ * - vector: cosine similarity of embeddings
+ * - keyword: Postgres full-text search over section titles and text
+ * - hybrid: both, fused with reciprocal rank fusion
+ */
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+/**
+ * How retrieved candidates are reordered before the best are kept
+ * - llm: an LLM judge scores every candidate (RERANK_MODEL)
+ * - heuristic: local query-term overlap, for tests and offline evaluation
+ */
+export type RerankerName = 'llm' | 'heuristic';
+
+/**
+ * Why a chunk was retrieved - one entry per ranking it appeared in
+ * Ranks are 1-based positions within that ranking
+ */
+export interface RetrievalScores {
+  vector?: { rank: number; similarity: number };
+  keyword?: { rank: number; score: number };
+  fused?: number; // Reciprocal rank fusion score, hybrid mode only
+  rerank?: { rank: number; score: number; previousRank: number }; // Only when a reranker reordered the candidates
+}
+
+/**
+ * Which companies' documents to retrieve from
+ * - companies: an explicit list, e.g. to compare two companies
+ * - sector: every company in the sector
+ */
+export type RetrievalScope =
+  | { type: 'companies'; companyIds: string[] }
+  | { type: 'sector'; sector: string };
+
+/**
+ * Whether a scope selects nothing to retrieve from
+ */
+export function isEmptyScope(scope: RetrievalScope): boolean {
+  return scope.type === 'companies' ? scope.companyIds.length === 0 : !scope.sector;
+}
@@ -1,4 +1,5 @@
-import type { TimeBasedInfo, QualitativeInfo, QuantitativeData } from '../lib/ai/schemas';
+import type { TimeBasedInfo, QualitativeInfo, QuantitativeData, FactReviewStatus, FactGrounding, StoredFact } from '../lib/ai/schemas';
+import type { CurrencyConversion } from './currency';
 
 export type DataLayer = 'TB' | 'PAQL' | 'PAQN' | 'DOCUMENT';
 
@@ -25,15 +26,20 @@ export interface TimelineDataPoint {
   documentTitle: string;
   chunkId?: string;
   sectionTitle?: string;
+  pageStart?: number;
 
   // Company information
   companyId: string;
   companyName: string;
 
   // Layer-specific data
-  timeBasedData?: TimeBasedInfo;
-  qualitativeData?: QualitativeInfo;
-  quantitativeData?: QuantitativeData;
+  timeBasedData?: StoredFact<TimeBasedInfo>;
+  qualitativeData?: StoredFact<QualitativeInfo>;
+  quantitativeData?: StoredFact<QuantitativeData>;
+  currencyConversion?: CurrencyConversion; // PAQN amount in the requested reporting currency
+  reviewStatus?: FactReviewStatus; // Set once a reviewer has approved, edited or added the fact
+  confidence?: number; // Extraction confidence, 0-1; unset for facts extracted before it was recorded
+  grounding?: FactGrounding; // Where the fact's source text was found; unset if never checked
 }
 
 export interface TimelineChartData {
@@ -70,6 +76,9 @@ export interface FetchTimelineDataOptions {
   startDate?: Date;
   endDate?: Date;
   layers?: DataLayer[];
+  reportingCurrency?: string; // ISO 4217 code to convert PAQN currency amounts into
+  grounding?: 'grounded' | 'ungrounded'; // Only facts whose source text was (or wasn't) found in the document
+  minConfidence?: number; // Only facts extracted with at least this confidence (0-1)
 }
 
 export interface FetchTimelineDataResult {
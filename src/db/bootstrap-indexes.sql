@@ -16,6 +16,21 @@ CREATE INDEX IF NOT EXISTS idx_chunks_embedding_hnsw
   ON document_chunks
   USING hnsw (embedding vector_cosine_ops);
 
+-- Same for the fine-grained sub-chunks of each section's verbatim text
+CREATE INDEX IF NOT EXISTS idx_sub_chunks_embedding_hnsw
+  ON document_sub_chunks
+  USING hnsw (embedding vector_cosine_ops);
+
+-- ============================================
+-- FULL-TEXT SEARCH INDEX
+-- ============================================
+-- GIN index on the generated tsvector for keyword retrieval
+-- (exact terms like tickers, metric names and project codes)
+
+CREATE INDEX IF NOT EXISTS idx_chunks_search_gin
+  ON document_chunks
+  USING gin (search_vector);
+
 -- ============================================
 -- JSONB INDEXES FOR CATEGORIZED INFORMATION
 -- ============================================
@@ -42,5 +57,7 @@ CREATE INDEX IF NOT EXISTS idx_chunks_quantitative_gin
 -- - idx_documents_date (on documents.document_date)
 -- - idx_chunks_doc (on document_chunks.doc_id)
 -- - idx_chunks_doc_index (on document_chunks.doc_id, chunk_index)
+-- - idx_sub_chunks_chunk (on document_sub_chunks.chunk_id)
+-- - idx_sub_chunks_doc (on document_sub_chunks.doc_id)
 --
 -- Do not recreate these here.
@@ -1,13 +1,38 @@
 import { drizzle } from 'drizzle-orm/neon-http';
+import { drizzle as drizzleNodePostgres } from 'drizzle-orm/node-postgres';
 import { neon } from '@neondatabase/serverless';
+import { Pool } from 'pg';
 import * as schema from './schema';
 
-// Create the Neon HTTP client
-// This is optimized for serverless/edge environments and Next.js
-const sql = neon(process.env.DATABASE_URL!);
+type DatabaseDriver = 'neon' | 'pg';
 
-// Initialize Drizzle with the schema for type-safe queries
-export const db = drizzle({ client: sql, schema });
+function createDatabase() {
+  const driver = (process.env.DATABASE_DRIVER || 'neon') as DatabaseDriver;
+
+  if (driver === 'pg') {
+    // node-postgres for a plain Postgres server (e.g. local, offline evaluation)
+    // Both drivers share the pg-core query builder, so callers see one API
+    const pool = new Pool({ connectionString: process.env.DATABASE_URL });
+    return drizzleNodePostgres({ client: pool, schema }) as unknown as ReturnType<typeof createNeonDatabase>;
+  }
+
+  if (driver !== 'neon') {
+    throw new Error(`Unknown DATABASE_DRIVER "${driver}". Valid drivers: neon, pg`);
+  }
+
+  return createNeonDatabase();
+}
+
+function createNeonDatabase() {
+  // Create the Neon HTTP client
+  // This is optimized for serverless/edge environments and Next.js
+  const sql = neon(process.env.DATABASE_URL!);
+
+  // Initialize Drizzle with the schema for type-safe queries
+  return drizzle({ client: sql, schema });
+}
+
+export const db = createDatabase();
 
 // Export schema for convenience
 export * from './schema';
@@ -12,12 +12,35 @@
 
 import { config } from 'dotenv';
 import { neon } from '@neondatabase/serverless';
+import { Pool } from 'pg';
 import { readFileSync } from 'fs';
 import { join } from 'path';
 
 // Load environment variables from .env.local
 config({ path: join(__dirname, '../../.env') });
 
+/**
+ * Run raw SQL statements with the configured DATABASE_DRIVER
+ */
+async function runStatements(databaseUrl: string, statements: string[]) {
+  if (process.env.DATABASE_DRIVER === 'pg') {
+    const pool = new Pool({ connectionString: databaseUrl });
+    try {
+      for (const statement of statements) {
+        await pool.query(statement);
+      }
+    } finally {
+      await pool.end();
+    }
+    return;
+  }
+
+  const sql = neon(databaseUrl);
+  for (const statement of statements) {
+    await sql`${sql.unsafe(statement)}`;
+  }
+}
+
 async function runBootstrap() {
   const mode = process.argv[2] || 'bootstrap';
   const databaseUrl = process.env.DATABASE_URL;
@@ -37,18 +60,12 @@ async function runBootstrap() {
         'utf-8'
       );
 
-      const sql = neon(databaseUrl);
-
       const statements = bootstrapSql
         .split(';')
         .map(s => s.trim())
         .filter(s => s.length > 0 && !s.startsWith('--'));
 
-      for (const statement of statements) {
-        if (statement) {
-          await sql`${sql.unsafe(statement)}`;
-        }
-      }
+      await runStatements(databaseUrl, statements);
 
       console.log('✅ Pre-migration bootstrap completed successfully');
       console.log('   - pgvector extension enabled');
@@ -65,18 +82,12 @@ async function runBootstrap() {
         'utf-8'
       );
 
-      const sql = neon(databaseUrl);
-
       const statements = bootstrapSql
         .split(';')
         .map(s => s.trim())
         .filter(s => s.length > 0 && !s.startsWith('--'));
 
-      for (const statement of statements) {
-        if (statement) {
-          await sql`${sql.unsafe(statement)}`;
-        }
-      }
+      await runStatements(databaseUrl, statements);
 
       console.log('✅ Post-migration bootstrap completed successfully');
       console.log('   - HNSW index created on document_chunks.embedding');
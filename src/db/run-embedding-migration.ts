@@ -0,0 +1,141 @@
+/**
+ * Embedding Model Migration Runner
+ *
+ * Moves every stored embedding to another model without downtime. Sections and
+ * sub-chunks are re-embedded from their stored text into an `embedding_next`
+ * column in resumable batches, the HNSW indexes are built, and only then are
+ * the columns swapped so retrieval and new uploads use the new model.
+ * Re-running the same command resumes an interrupted or partly failed run.
+ *
+ * The target model must return 1536-dimension vectors. The embedding_next and
+ * embedding_previous columns are declared in the Drizzle schema, so db:push
+ * keeps them. Their HNSW indexes are not (like the live ones, they come from
+ * bootstrap-indexes.sql), so db:push during a migration may drop the index
+ * on embedding_next - activation rebuilds it before swapping, which can take
+ * a while on a large table.
+ *
+ * Usage:
+ *   npm run db:migrate:embeddings -- --model openai:text-embedding-3-large   (start or resume, activate when complete)
+ *   npm run db:migrate:embeddings -- --model ... --no-activate               (stop once re-embedded and indexed)
+ *   npm run db:migrate:embeddings -- --model ... --batch-size 50             (texts per embedding request, default 100)
+ *   npm run db:migrate:embeddings -- --activate                              (activate the finished migration)
+ *   npm run db:migrate:embeddings -- --status                                (per-document progress)
+ *   npm run db:migrate:embeddings -- --drop-previous                         (drop the embeddings the last activation replaced)
+ */
+
+import { config } from 'dotenv';
+import { join } from 'path';
+import type { EmbeddingMigrationDocumentProgress } from '../app/Felix/types/embedding-migration';
+
+// Load environment variables before the database client is created
+config({ path: join(__dirname, '../../.env') });
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  return {
+    model: valueOf('--model'),
+    batchSize: valueOf('--batch-size') ? Number(valueOf('--batch-size')) : undefined,
+    activate: args.includes('--activate'),
+    noActivate: args.includes('--no-activate'),
+    status: args.includes('--status'),
+    dropPrevious: args.includes('--drop-previous'),
+  };
+}
+
+function printDocument(doc: EmbeddingMigrationDocumentProgress) {
+  const counts = `${doc.chunksEmbedded} section(s), ${doc.subChunksEmbedded} sub-chunk(s)`;
+
+  if (doc.status === 'completed') {
+    console.log(`   ✅ ${doc.companyName}: ${doc.documentTitle} - ${counts}`);
+  } else if (doc.status === 'failed') {
+    console.log(`   ❌ ${doc.companyName}: ${doc.documentTitle} - ${counts} - ${doc.error}`);
+  } else {
+    console.log(`   ⏳ ${doc.companyName}: ${doc.documentTitle} - ${counts}`);
+  }
+}
+
+async function runEmbeddingMigration() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const migrations = await import('../app/Felix/lib/ai/embedding-migration');
+  const args = parseArgs();
+
+  if (args.batchSize !== undefined && (!Number.isInteger(args.batchSize) || args.batchSize < 1)) {
+    console.error('❌ --batch-size must be a positive integer');
+    process.exit(1);
+  }
+
+  if (args.dropPrevious) {
+    await migrations.dropPreviousEmbeddings();
+    console.log('✅ Cleared embedding_previous in document_chunks and document_sub_chunks');
+    return;
+  }
+
+  const unfinished = await migrations.findUnfinishedEmbeddingMigration();
+
+  if (args.status) {
+    if (!unfinished) {
+      console.log('No embedding migration in progress');
+      return;
+    }
+
+    const report = await migrations.getEmbeddingMigrationReport(unfinished.migrationId);
+    console.log(`🔧 Migration to ${report.targetModel}: ${report.status}`);
+    report.documents.forEach(printDocument);
+    console.log(`\n✅ ${report.completed} completed, ${report.failed} failed, ${report.pending} pending`);
+    return;
+  }
+
+  if (args.activate) {
+    if (unfinished?.status !== 'ready') {
+      console.error('❌ No finished migration to activate - run one with --model first');
+      process.exit(1);
+    }
+
+    await migrations.activateEmbeddingMigration(unfinished.migrationId);
+    console.log(`✅ Retrieval now uses ${unfinished.targetModel}`);
+    return;
+  }
+
+  if (!args.model) {
+    console.error('❌ Pass --model provider:model (or --activate, --status, --drop-previous)');
+    process.exit(1);
+  }
+
+  const migration = await migrations.startEmbeddingMigration(args.model);
+  console.log(`🔧 Migrating embeddings from ${migration.previousModel} to ${migration.targetModel} (${migration.migrationId})`);
+
+  const report = await migrations.runEmbeddingMigration(migration.migrationId, {
+    batchSize: args.batchSize,
+    onDocument: printDocument,
+  });
+
+  console.log(`\n✅ ${report.completed} completed, ${report.failed} failed, ${report.pending} pending`);
+
+  if (report.status !== 'ready') {
+    console.error('❌ Some documents were not re-embedded - run the same command again to retry them');
+    process.exit(1);
+  }
+
+  if (args.noActivate) {
+    console.log('⏸️  Re-embedded and indexed. Activate with: npm run db:migrate:embeddings -- --activate');
+    return;
+  }
+
+  await migrations.activateEmbeddingMigration(migration.migrationId);
+  console.log(`✅ Retrieval now uses ${migration.targetModel}`);
+  console.log('   Set EMBEDDING_MODEL to match, and drop the old embeddings with --drop-previous once satisfied');
+}
+
+runEmbeddingMigration().catch(error => {
+  console.error('❌ Error running embedding migration:', error);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+/**
+ * Retrieval Evaluation Runner
+ *
+ * Replays questions from answer feedback against retrieveContext and reports
+ * recall@k and MRR, to compare retrieval settings before changing them.
+ * Examples come from the chat_feedback table, or from a JSONL file exported
+ * at /Felix/api/feedback/export (which can be labelled by hand first).
+ *
+ * Usage:
+ *   npm run eval:retrieval                                  (feedback in the database, default settings)
+ *   npm run eval:retrieval -- --file eval.jsonl             (exported examples)
+ *   npm run eval:retrieval -- --k 10 --mode vector          (other settings)
+ *   npm run eval:retrieval -- --level section --threshold 0.5
+ *   npm run eval:retrieval -- --rerank heuristic            (rerank over-fetched candidates: llm or heuristic)
+ *   npm run eval:retrieval -- --verbose                     (per-example scores)
+ */
+
+import { config } from 'dotenv';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { EvaluationExample, RetrievalEvaluationOptions } from '../app/Felix/types/feedback';
+import type { RerankerName, RetrievalLevel, RetrievalMode } from '../app/Felix/types/retrieval';
+
+// Load environment variables before the database client is created
+config({ path: join(__dirname, '../../.env') });
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const options: Partial<RetrievalEvaluationOptions> = {};
+  const k = valueOf('--k');
+  const threshold = valueOf('--threshold');
+  if (k !== undefined) options.k = Number(k);
+  if (threshold !== undefined) options.similarityThreshold = Number(threshold);
+  if (valueOf('--level')) options.level = valueOf('--level') as RetrievalLevel;
+  if (valueOf('--mode')) options.mode = valueOf('--mode') as RetrievalMode;
+  if (valueOf('--rerank')) options.reranker = valueOf('--rerank') as RerankerName;
+
+  return {
+    file: valueOf('--file'),
+    verbose: args.includes('--verbose'),
+    options,
+  };
+}
+
+async function loadExamples(file?: string): Promise<EvaluationExample[]> {
+  if (file) {
+    const content = await readFile(file, 'utf-8');
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line) as EvaluationExample);
+  }
+
+  const { exportEvaluationSet } = await import('../app/Felix/lib/ai/evaluation');
+  return exportEvaluationSet();
+}
+
+async function runEval() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const { evaluateRetrieval } = await import('../app/Felix/lib/ai/evaluation');
+
+  const args = parseArgs();
+
+  if (args.options.k !== undefined && (!Number.isInteger(args.options.k) || args.options.k < 1)) {
+    console.error('❌ --k must be a positive integer');
+    process.exit(1);
+  }
+  if (args.options.level && !['section', 'subChunk'].includes(args.options.level)) {
+    console.error('❌ --level must be section or subChunk');
+    process.exit(1);
+  }
+  if (args.options.mode && !['vector', 'keyword', 'hybrid'].includes(args.options.mode)) {
+    console.error('❌ --mode must be vector, keyword or hybrid');
+    process.exit(1);
+  }
+  if (args.options.reranker && !['llm', 'heuristic'].includes(args.options.reranker)) {
+    console.error('❌ --rerank must be llm or heuristic');
+    process.exit(1);
+  }
+
+  const examples = await loadExamples(args.file);
+  console.log(`📋 ${examples.length} example(s) from ${args.file ?? 'chat_feedback'}`);
+
+  const result = await evaluateRetrieval(examples, args.options);
+  const { k, similarityThreshold, level, mode, reranker } = result.options;
+
+  if (args.verbose) {
+    result.examples
+      .filter(example => example.recall !== null)
+      .forEach(example => {
+        console.log(`   recall ${example.recall!.toFixed(2)}  RR ${example.reciprocalRank!.toFixed(2)}  ${example.query}`);
+      });
+  }
+
+  console.log(`\n⚙️  k=${k} threshold=${similarityThreshold} level=${level} mode=${mode} rerank=${reranker ?? 'none'}`);
+  console.log(`✅ ${result.evaluated} evaluated, ${result.skipped} skipped (no relevant chunks)`);
+  console.log(`📈 hit rate@${k}: ${result.hitRate.toFixed(3)}`);
+  console.log(`📈 recall@${k}: ${result.recallAtK.toFixed(3)}`);
+  console.log(`📈 MRR: ${result.mrr.toFixed(3)}`);
+}
+
+runEval().catch(error => {
+  console.error('❌ Error running evaluation:', error);
+  process.exit(1);
+});
@@ -0,0 +1,99 @@
+/**
+ * Golden Question Runner
+ *
+ * Runs a fixed set of questions against retrieveContext and reports how often
+ * the expected sections are retrieved. Use it with the retrieval fixture to
+ * check chunking and ranking changes without network access:
+ *   DATABASE_DRIVER=pg EMBEDDING_PROVIDER=hash npm run db:seed:fixtures
+ *   DATABASE_DRIVER=pg EMBEDDING_PROVIDER=hash npm run eval:golden
+ *
+ * The hash provider's similarities are much lower than a real model's, so the
+ * similarity threshold defaults to 0 here; pass --threshold to test one.
+ *
+ * Usage:
+ *   npm run eval:golden                                  (src/db/fixtures/golden-questions.json)
+ *   npm run eval:golden -- --file questions.json
+ *   npm run eval:golden -- --k 3 --mode vector --level section --threshold 0.2
+ *   npm run eval:golden -- --rerank heuristic            (rerank over-fetched candidates locally)
+ *   npm run eval:golden -- --verbose                     (every question, not just misses)
+ */
+
+import { config } from 'dotenv';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { GoldenQuestion } from '../app/Felix/lib/ai/fixtures';
+import type { RetrievalEvaluationOptions } from '../app/Felix/types/feedback';
+import type { RerankerName, RetrievalLevel, RetrievalMode } from '../app/Felix/types/retrieval';
+
+// Load environment variables before the database client is created
+config({ path: join(__dirname, '../../.env') });
+
+const DEFAULT_QUESTIONS = join(__dirname, 'fixtures/golden-questions.json');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const valueOf = (flag: string) => {
+    const index = args.indexOf(flag);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+
+  const options: Partial<RetrievalEvaluationOptions> = {
+    similarityThreshold: Number(valueOf('--threshold') ?? 0),
+  };
+  if (valueOf('--k')) options.k = Number(valueOf('--k'));
+  if (valueOf('--level')) options.level = valueOf('--level') as RetrievalLevel;
+  if (valueOf('--mode')) options.mode = valueOf('--mode') as RetrievalMode;
+  if (valueOf('--rerank')) options.reranker = valueOf('--rerank') as RerankerName;
+
+  return {
+    file: valueOf('--file') ?? DEFAULT_QUESTIONS,
+    verbose: args.includes('--verbose'),
+    options,
+  };
+}
+
+async function runGolden() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const { resolveGoldenQuestions } = await import('../app/Felix/lib/ai/fixtures');
+  const { evaluateRetrieval } = await import('../app/Felix/lib/ai/evaluation');
+  const { getActiveEmbeddingProvider } = await import('../app/Felix/lib/embedding');
+
+  const args = parseArgs();
+  const questions = JSON.parse(await readFile(args.file, 'utf-8')) as GoldenQuestion[];
+  const examples = await resolveGoldenQuestions(questions);
+
+  console.log(`📋 ${questions.length} golden question(s) from ${args.file}`);
+  console.log(`   Embedding model: ${(await getActiveEmbeddingProvider()).model}`);
+
+  const result = await evaluateRetrieval(examples, args.options);
+  const { k, similarityThreshold, level, mode, reranker } = result.options;
+
+  result.examples.forEach(example => {
+    if (example.reciprocalRank === null) {
+      console.log(`   ⏭️  not loaded: ${example.query}`);
+    } else if (example.reciprocalRank === 0) {
+      console.log(`   ❌ miss: ${example.query}`);
+    } else if (args.verbose) {
+      console.log(`   ✅ rank ${Math.round(1 / example.reciprocalRank)}: ${example.query}`);
+    }
+  });
+
+  const evaluated = result.examples.filter(example => example.reciprocalRank !== null);
+  const hitsAt1 = evaluated.filter(example => example.reciprocalRank === 1).length;
+
+  console.log(`\n⚙️  k=${k} threshold=${similarityThreshold} level=${level} mode=${mode} rerank=${reranker ?? 'none'}`);
+  console.log(`✅ ${result.evaluated} evaluated, ${result.skipped} skipped (expected sections not loaded)`);
+  console.log(`📈 hit rate@1: ${(evaluated.length > 0 ? hitsAt1 / evaluated.length : 0).toFixed(3)}`);
+  console.log(`📈 hit rate@${k}: ${result.hitRate.toFixed(3)}`);
+  console.log(`📈 recall@${k}: ${result.recallAtK.toFixed(3)}`);
+  console.log(`📈 MRR: ${result.mrr.toFixed(3)}`);
+}
+
+runGolden().catch(error => {
+  console.error('❌ Error running golden questions:', error);
+  process.exit(1);
+});
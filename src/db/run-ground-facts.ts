@@ -0,0 +1,42 @@
+/**
+ * Fact Grounding Backfill
+ *
+ * Re-checks every stored TB, PAQL and PAQN fact of active documents against
+ * the document's page text, recording the page its source text was found on
+ * and flagging facts whose text isn't in the document. Documents saved
+ * before grounding existed get their grounding this way, without being
+ * re-extracted; reviews are kept. Safe to re-run.
+ *
+ * Facts of documents without a stored text layer (scanned PDFs) can't be
+ * checked and are left without a grounding.
+ *
+ * Usage:
+ *   npm run db:ground
+ */
+
+import { config } from 'dotenv';
+import { join } from 'path';
+
+// Load environment variables before the database client is created
+config({ path: join(__dirname, '../../.env') });
+
+async function runGroundFacts() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const { groundStoredFacts } = await import('../app/Felix/lib/ai/grounding');
+
+  console.log('🔎 Grounding stored facts against their page text');
+  const { checked, grounded } = await groundStoredFacts(({ docId, checked, grounded }) => {
+    console.log(`   ${docId}: ${grounded}/${checked} fact(s) grounded`);
+  });
+
+  console.log(`✅ ${grounded}/${checked} fact(s) grounded, ${checked - grounded} flagged as unverified`);
+}
+
+runGroundFacts().catch(error => {
+  console.error('❌ Error grounding facts:', error);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * FX Rate Importer
+ *
+ * Loads exchange rates from a CSV file into fx_rates, for converting PAQN
+ * currency amounts into a reporting currency. The header row names the
+ * columns date, base, quote and rate, in any order:
+ *
+ *   date,base,quote,rate
+ *   2024-03-28,EUR,USD,1.0811
+ *
+ * A rate is the number of quote currency units per base currency unit.
+ * Rates already stored for the same pair and date are replaced, so it is
+ * safe to re-run; within the file, the last row for a pair and date wins.
+ * Pairs only need to be stored one way round, and missing pairs are
+ * crossed through a shared currency (GBP -> USD -> EUR).
+ *
+ * Usage:
+ *   npm run db:import:fx -- --file rates.csv
+ */
+
+import { config } from 'dotenv';
+import { readFile } from 'fs/promises';
+import { basename, join } from 'path';
+
+// Load environment variables before the database client is created
+config({ path: join(__dirname, '../../.env') });
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const fileIndex = args.indexOf('--file');
+
+  return {
+    file: fileIndex >= 0 ? args[fileIndex + 1] : undefined,
+  };
+}
+
+async function runImportFxRates() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const { file } = parseArgs();
+  if (!file) {
+    console.error('❌ Pass the CSV to import with --file <path>');
+    process.exit(1);
+  }
+
+  const { parseFxRatesCsv } = await import('../app/Felix/lib/utils/currency');
+  const { importFxRates } = await import('../app/Felix/lib/ai/fx-rates');
+
+  const { rates, skipped } = parseFxRatesCsv(await readFile(file, 'utf-8'));
+
+  if (skipped.length > 0) {
+    console.warn(`⚠️ Skipped ${skipped.length} invalid line(s):`);
+    skipped.slice(0, 20).forEach(reason => console.warn(`   ${reason}`));
+  }
+
+  console.log(`💱 Importing ${rates.length} rate(s) from ${file}`);
+  const { imported, duplicates } = await importFxRates(rates, basename(file));
+
+  if (duplicates > 0) {
+    console.warn(`⚠️ Dropped ${duplicates} duplicate row(s) for a pair and date already in the file - the last one was kept`);
+  }
+  console.log(`✅ ${imported} rate(s) imported`);
+}
+
+runImportFxRates().catch(error => {
+  console.error('❌ Error importing FX rates:', error);
+  process.exit(1);
+});
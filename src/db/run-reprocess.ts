@@ -0,0 +1,92 @@
+/**
+ * Document Reprocessing Runner
+ *
+ * Re-runs the extraction pipeline for every active document produced by an
+ * older EXTRACTION_PIPELINE_VERSION. Each document keeps serving retrieval
+ * until its replacement has been fully saved. Documents with reviewed facts
+ * are kept, inactive, as the previous version of their replacement, so no
+ * review or fact edit history is lost.
+ *
+ * Usage:
+ *   npm run db:reprocess                      (documents below the current version)
+ *   npm run db:reprocess -- --below 3         (documents below version 3)
+ *   npm run db:reprocess -- --dry-run         (list documents without reprocessing)
+ */
+
+import { config } from 'dotenv';
+import { join } from 'path';
+
+// Load environment variables before the database client is created
+config({ path: join(__dirname, '../../.env') });
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const belowIndex = args.indexOf('--below');
+
+  return {
+    below: belowIndex >= 0 ? Number(args[belowIndex + 1]) : undefined,
+    dryRun: args.includes('--dry-run'),
+  };
+}
+
+async function runReprocess() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const { EXTRACTION_PIPELINE_VERSION } = await import('../app/Felix/lib/ai/pdf-processor');
+  const { findDocumentsBelowPipelineVersion } = await import('../app/Felix/lib/ai/database');
+  const { createReprocessingJob, runIngestionJob } = await import('../app/Felix/lib/ai/ingestion');
+
+  const args = parseArgs();
+  const below = args.below ?? EXTRACTION_PIPELINE_VERSION;
+
+  if (!Number.isInteger(below) || below < 1) {
+    console.error('❌ --below must be a positive integer');
+    process.exit(1);
+  }
+
+  const docs = await findDocumentsBelowPipelineVersion(below);
+  console.log(`🔧 ${docs.length} document(s) below pipeline version ${below} (current: ${EXTRACTION_PIPELINE_VERSION})`);
+
+  if (args.dryRun) {
+    docs.forEach(doc => {
+      console.log(`   - v${doc.pipelineVersion} ${doc.companyName}: ${doc.documentTitle} (${doc.docId})`);
+    });
+    return;
+  }
+
+  let succeeded = 0;
+  const failures: { docId: string; error: string }[] = [];
+
+  for (const doc of docs) {
+    console.log(`\n📄 Reprocessing ${doc.companyName}: ${doc.documentTitle} (${doc.docId})`);
+
+    try {
+      const jobId = await createReprocessingJob(doc.docId);
+      const result = await runIngestionJob(jobId);
+
+      if (!result.success) {
+        throw new Error(`${result.error} (resume job ${jobId} from the Ingestion Jobs panel)`);
+      }
+
+      succeeded++;
+      console.log(`✅ Superseded by ${result.documentId} (${result.totalChunks} chunks)`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      failures.push({ docId: doc.docId, error: message });
+      console.error(`❌ ${message}`);
+    }
+  }
+
+  console.log(`\n✅ ${succeeded} reprocessed, ${failures.length} failed`);
+  if (failures.length > 0) {
+    process.exit(1);
+  }
+}
+
+runReprocess().catch(error => {
+  console.error('❌ Error running reprocess:', error);
+  process.exit(1);
+});
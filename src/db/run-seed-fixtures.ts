@@ -0,0 +1,59 @@
+/**
+ * Retrieval Fixture Loader
+ *
+ * Seeds companies, documents, pages, chunks and sub-chunks from a JSON fixture
+ * through the same embedding and save path as uploaded PDFs. Documents already
+ * loaded are skipped, so it is safe to re-run.
+ *
+ * For a fully offline setup, point it at a local Postgres with pgvector and
+ * use the deterministic embedding provider:
+ *   DATABASE_DRIVER=pg EMBEDDING_PROVIDER=hash npm run db:seed:fixtures
+ *
+ * Usage:
+ *   npm run db:seed:fixtures                           (src/db/fixtures/retrieval-fixture.json)
+ *   npm run db:seed:fixtures -- --file my-fixture.json
+ */
+
+import { config } from 'dotenv';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import type { RetrievalFixture } from '../app/Felix/lib/ai/fixtures';
+
+// Load environment variables before the database client is created
+config({ path: join(__dirname, '../../.env') });
+
+const DEFAULT_FIXTURE = join(__dirname, 'fixtures/retrieval-fixture.json');
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const fileIndex = args.indexOf('--file');
+
+  return {
+    file: fileIndex >= 0 ? args[fileIndex + 1] : DEFAULT_FIXTURE,
+  };
+}
+
+async function runSeedFixtures() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const { loadRetrievalFixture } = await import('../app/Felix/lib/ai/fixtures');
+  const { getActiveEmbeddingProvider } = await import('../app/Felix/lib/embedding');
+
+  const { file } = parseArgs();
+  const fixture = JSON.parse(await readFile(file, 'utf-8')) as RetrievalFixture;
+
+  console.log(`🌱 Loading ${fixture.documents.length} fixture document(s) from ${file}`);
+  console.log(`   Embedding model: ${(await getActiveEmbeddingProvider()).model}`);
+
+  const { loaded, skipped } = await loadRetrievalFixture(fixture);
+
+  console.log(`✅ ${loaded} loaded, ${skipped} already present`);
+}
+
+runSeedFixtures().catch(error => {
+  console.error('❌ Error loading fixtures:', error);
+  process.exit(1);
+});
@@ -0,0 +1,46 @@
+/**
+ * Metric Dictionary Seeder
+ *
+ * Adds the default canonical PAQN metrics (revenue, net_income, occupancy_rate...)
+ * with their aliases to metric_definitions. Existing metrics keep their
+ * settings and only gain new default aliases, so it is safe to re-run.
+ *
+ * New documents are normalized against the dictionary when they are saved;
+ * --backfill re-normalizes the facts of documents saved before, queueing the
+ * ones that can't be mapped for review.
+ *
+ * Usage:
+ *   npm run db:seed:metrics                 (seed the dictionary)
+ *   npm run db:seed:metrics -- --backfill   (seed, then re-normalize every stored fact)
+ */
+
+import { config } from 'dotenv';
+import { join } from 'path';
+
+// Load environment variables before the database client is created
+config({ path: join(__dirname, '../../.env') });
+
+async function runSeedMetrics() {
+  if (!process.env.DATABASE_URL) {
+    console.error('❌ DATABASE_URL environment variable is not set');
+    process.exit(1);
+  }
+
+  const { DEFAULT_METRIC_DEFINITIONS, seedMetricDefinitions, normalizeStoredFacts } = await import(
+    '../app/Felix/lib/ai/metric-dictionary'
+  );
+
+  const created = await seedMetricDefinitions();
+  console.log(`✅ ${created} metric(s) created, ${DEFAULT_METRIC_DEFINITIONS.length - created} already present`);
+
+  if (process.argv.includes('--backfill')) {
+    console.log('🔧 Re-normalizing stored PAQN facts...');
+    const { chunks, queued } = await normalizeStoredFacts();
+    console.log(`✅ ${chunks} chunk(s) normalized, ${queued} fact(s) queued for review`);
+  }
+}
+
+runSeedMetrics().catch(error => {
+  console.error('❌ Error seeding metrics:', error);
+  process.exit(1);
+});
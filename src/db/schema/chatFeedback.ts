@@ -0,0 +1,38 @@
+import { pgTable, uuid, varchar, text, jsonb, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { chatSessions } from './chats';
+import type { RetrievalScope } from '@/app/Felix/types/retrieval';
+import type { FeedbackRating } from '@/app/Felix/types/feedback';
+
+// ============================================
+// CHAT FEEDBACK
+// ============================================
+// Self-contained copy of the rated turn, so it stays usable as an
+// evaluation case after its chat session is deleted
+export const chatFeedback = pgTable('chat_feedback', {
+  feedbackId: uuid('feedback_id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').references(() => chatSessions.sessionId, { onDelete: 'set null' }),
+  messageId: varchar('message_id', { length: 100 }).notNull(), // The rated assistant message
+  userId: varchar('user_id', { length: 64 }).notNull(),
+
+  rating: varchar('rating', { length: 10 }).$type<FeedbackRating>(),
+  correction: text('correction'),
+
+  question: text('question').notNull(), // As typed
+  retrievalQuery: text('retrieval_query').notNull(), // After follow-up condensation
+  scope: jsonb('scope').$type<RetrievalScope>().notNull(),
+  answer: text('answer').notNull(),
+  retrievedChunkIds: jsonb('retrieved_chunk_ids').$type<string[]>().notNull().default([]), // In source number order
+  citedChunkIds: jsonb('cited_chunk_ids').$type<string[]>().notNull().default([]), // Sources cited as [N] in the answer
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  userMessageIdx: uniqueIndex('idx_chat_feedback_user_message').on(table.userId, table.messageId),
+  ratingIdx: index('idx_chat_feedback_rating').on(table.rating),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type ChatFeedback = typeof chatFeedback.$inferSelect;
+export type NewChatFeedback = typeof chatFeedback.$inferInsert;
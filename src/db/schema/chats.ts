@@ -0,0 +1,49 @@
+import { pgTable, uuid, integer, varchar, jsonb, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import type { RetrievalScope } from '@/app/Felix/types/retrieval';
+import type { ChatMessageMetadata, ChatSource, FelixUIMessage } from '@/app/Felix/types/chat';
+
+// ============================================
+// CHAT SESSIONS
+// ============================================
+export const chatSessions = pgTable('chat_sessions', {
+  sessionId: uuid('session_id').primaryKey(), // Generated by the client and used as the useChat id
+  userId: varchar('user_id', { length: 64 }).notNull(), // Per-browser ID from the felix-user cookie
+
+  title: varchar('title', { length: 255 }).notNull(), // First question until renamed
+  scope: jsonb('scope').$type<RetrievalScope>().notNull(), // Companies or sector the chat retrieves from
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  userUpdatedIdx: index('idx_chat_sessions_user_updated').on(table.userId, table.updatedAt),
+}));
+
+// ============================================
+// CHAT MESSAGES
+// ============================================
+export const chatMessages = pgTable('chat_messages', {
+  chatMessageId: uuid('chat_message_id').primaryKey().defaultRandom(),
+  sessionId: uuid('session_id').notNull().references(() => chatSessions.sessionId, { onDelete: 'cascade' }),
+
+  messageId: varchar('message_id', { length: 100 }).notNull(), // UIMessage id
+  role: varchar('role', { length: 20 }).$type<FelixUIMessage['role']>().notNull(),
+  position: integer('position').notNull(), // 0-based order within the session
+
+  parts: jsonb('parts').$type<FelixUIMessage['parts']>().notNull(), // Text, tool calls and data parts as streamed
+  metadata: jsonb('metadata').$type<ChatMessageMetadata>(),
+  sources: jsonb('sources').$type<ChatSource[]>().notNull().default([]), // Sources retrieved for the answer, kept for auditing
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  sessionPositionIdx: index('idx_chat_messages_session_position').on(table.sessionId, table.position),
+  sessionMessageIdx: uniqueIndex('idx_chat_messages_session_message').on(table.sessionId, table.messageId),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type ChatSession = typeof chatSessions.$inferSelect;
+export type NewChatSession = typeof chatSessions.$inferInsert;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type NewChatMessage = typeof chatMessages.$inferInsert;
@@ -1,6 +1,13 @@
-import { pgTable, uuid, integer, text, varchar, jsonb, timestamp, index, vector } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, integer, text, varchar, jsonb, timestamp, index, vector, customType } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
 import { documents } from './documents';
-import type { TimeBasedInfo, QualitativeInfo, QuantitativeData } from '@/app/Felix/lib/ai/schemas';
+import type { TimeBasedInfo, QualitativeInfo, NormalizedQuantitativeData, StoredFact } from '@/app/Felix/lib/ai/schemas';
+
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
 
 // ============================================
 // DOCUMENT CHUNKS
@@ -10,7 +17,8 @@ export const documentChunks = pgTable('document_chunks', {
   docId: uuid('doc_id').notNull().references(() => documents.docId, { onDelete: 'cascade' }),
 
   chunkIndex: integer('chunk_index').notNull(), // 1, 2, 3...
-  chunkText: text('chunk_text').notNull(),
+  chunkText: text('chunk_text').notNull(), // Verbatim text layer of the section's pages
+  summary: text('summary'), // LLM summary of the section
 
   // Section info
   pageStart: integer('page_start'),
@@ -20,9 +28,18 @@ export const documentChunks = pgTable('document_chunks', {
 
   // Vector embedding (1536 dimensions for OpenAI text-embedding-3-small)
   embedding: vector('embedding', { dimensions: 1536 }),
+  // Written only by an embedding model migration (see embedding-migration.ts):
+  // the embeddings being built, and the ones the last activation replaced
+  embeddingNext: vector('embedding_next', { dimensions: 1536 }),
+  embeddingPrevious: vector('embedding_previous', { dimensions: 1536 }),
+
+  // Full-text search vector, section title weighted above the text (GIN index in bootstrap-indexes.sql)
+  searchVector: tsvector('search_vector').generatedAlwaysAs(
+    sql`setweight(to_tsvector('english', coalesce(section_title, '')), 'A') || setweight(to_tsvector('english', chunk_text), 'B')`
+  ),
 
   // Time-Based (TB) Information - future events, timelines, expected dates
-  timeBasedInfo: jsonb('time_based_info').$type<TimeBasedInfo[]>().default([]),
+  timeBasedInfo: jsonb('time_based_info').$type<StoredFact<TimeBasedInfo>[]>().default([]),
   /* Example:
   [
     {
@@ -36,7 +53,7 @@ export const documentChunks = pgTable('document_chunks', {
   */
 
   // Primary Asset Qualitative (PAQL) Information - business operations, expansions, engagements
-  qualitativeInfo: jsonb('qualitative_info').$type<QualitativeInfo[]>().default([]),
+  qualitativeInfo: jsonb('qualitative_info').$type<StoredFact<QualitativeInfo>[]>().default([]),
   /* Example:
   [
     {
@@ -50,7 +67,7 @@ export const documentChunks = pgTable('document_chunks', {
   */
 
   // Primary Asset Quantitative (PAQN) Information - financial metrics, revenue, KPIs
-  quantitativeData: jsonb('quantitative_data').$type<QuantitativeData[]>().default([]),
+  quantitativeData: jsonb('quantitative_data').$type<StoredFact<NormalizedQuantitativeData>[]>().default([]),
   /* Example:
   [
     {
@@ -0,0 +1,25 @@
+import { pgTable, uuid, integer, text, boolean, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { documents } from './documents';
+
+// ============================================
+// DOCUMENT PAGES
+// ============================================
+export const documentPages = pgTable('document_pages', {
+  pageId: uuid('page_id').primaryKey().defaultRandom(),
+  docId: uuid('doc_id').notNull().references(() => documents.docId, { onDelete: 'cascade' }),
+
+  pageNumber: integer('page_number').notNull(), // 1-indexed
+  text: text('text').notNull(), // Text layer extracted locally (empty for scanned pages)
+  needsVisualParsing: boolean('needs_visual_parsing').notNull().default(false), // Sent to the LLM as a rendered page
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  docIdx: index('idx_pages_doc').on(table.docId),
+  docPageIdx: uniqueIndex('idx_pages_doc_page').on(table.docId, table.pageNumber),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type DocumentPage = typeof documentPages.$inferSelect;
+export type NewDocumentPage = typeof documentPages.$inferInsert;
@@ -0,0 +1,37 @@
+import { pgTable, uuid, integer, text, timestamp, index, vector } from 'drizzle-orm/pg-core';
+import { documents } from './documents';
+import { documentChunks } from './documentChunks';
+
+// ============================================
+// DOCUMENT SUB-CHUNKS
+// ============================================
+// Overlapping, token-bounded slices of a section's verbatim text
+// Retrieval can match on these and return the parent section as context
+export const documentSubChunks = pgTable('document_sub_chunks', {
+  subChunkId: uuid('sub_chunk_id').primaryKey().defaultRandom(),
+  chunkId: uuid('chunk_id').notNull().references(() => documentChunks.chunkId, { onDelete: 'cascade' }), // Parent section
+  docId: uuid('doc_id').notNull().references(() => documents.docId, { onDelete: 'cascade' }),
+
+  subChunkIndex: integer('sub_chunk_index').notNull(), // 0, 1, 2... within the parent section
+  text: text('text').notNull(),
+  pageNumber: integer('page_number').notNull(), // Page the sub-chunk starts on
+  tokenCount: integer('token_count'),
+
+  // Vector embedding (1536 dimensions for OpenAI text-embedding-3-small)
+  embedding: vector('embedding', { dimensions: 1536 }),
+  // Written only by an embedding model migration (see embedding-migration.ts):
+  // the embeddings being built, and the ones the last activation replaced
+  embeddingNext: vector('embedding_next', { dimensions: 1536 }),
+  embeddingPrevious: vector('embedding_previous', { dimensions: 1536 }),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  chunkIdx: index('idx_sub_chunks_chunk').on(table.chunkId),
+  docIdx: index('idx_sub_chunks_doc').on(table.docId),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type DocumentSubChunk = typeof documentSubChunks.$inferSelect;
+export type NewDocumentSubChunk = typeof documentSubChunks.$inferInsert;
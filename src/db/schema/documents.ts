@@ -1,4 +1,4 @@
-import { pgTable, uuid, varchar, text, timestamp, integer, date, index } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, text, timestamp, integer, date, boolean, index, type AnyPgColumn } from 'drizzle-orm/pg-core';
 import { companies } from './companies';
 
 // ============================================
@@ -12,7 +12,8 @@ export const documents = pgTable('documents', {
   documentTitle: varchar('document_title', { length: 500 }),
   documentType: varchar('document_type', { length: 100 }), // Annual Report, Quarterly Report, etc.
   fileType: varchar('file_type', { length: 50 }).notNull(), // pdf, xlsx
-  storagePath: text('storage_path').notNull(), // S3 path
+  storagePath: text('storage_path').notNull(), // Object storage key of the original file
+  contentHash: varchar('content_hash', { length: 64 }), // SHA-256 of the original file, used for duplicate detection
 
   documentDate: date('document_date'), // Date this document refers to (e.g., Q2 2023)
   reportingPeriod: varchar('reporting_period', { length: 50 }), // Q4 2023, FY 2023, etc.
@@ -20,10 +21,20 @@ export const documents = pgTable('documents', {
   totalPages: integer('total_pages'),
   totalChunks: integer('total_chunks'),
 
+  // Versioning - only active documents are used for retrieval and the timeline
+  version: integer('version').notNull().default(1),
+  previousVersionId: uuid('previous_version_id').references((): AnyPgColumn => documents.docId, { onDelete: 'set null' }),
+  isActive: boolean('is_active').notNull().default(true),
+
+  // EXTRACTION_PIPELINE_VERSION that produced this document's chunks
+  pipelineVersion: integer('pipeline_version').notNull().default(1),
+
   uploadedAt: timestamp('uploaded_at').defaultNow().notNull(),
 }, (table) => ({
   companyIdx: index('idx_documents_company').on(table.companyId),
   dateIdx: index('idx_documents_date').on(table.documentDate),
+  contentHashIdx: index('idx_documents_content_hash').on(table.contentHash),
+  pipelineVersionIdx: index('idx_documents_pipeline_version').on(table.pipelineVersion),
 }));
 
 // ============================================
@@ -0,0 +1,53 @@
+import { pgTable, uuid, integer, text, varchar, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { documents } from './documents';
+import type { EmbeddingMigrationDocumentStatus, EmbeddingMigrationStatus } from '@/app/Felix/types/embedding-migration';
+
+// ============================================
+// EMBEDDING MIGRATIONS
+// ============================================
+// A move of every stored embedding to another model. New vectors are written
+// to an `embedding_next` column next to the live one, which is only swapped
+// in once every row has been re-embedded and indexed
+export const embeddingMigrations = pgTable('embedding_migrations', {
+  migrationId: uuid('migration_id').primaryKey().defaultRandom(),
+
+  targetModel: varchar('target_model', { length: 200 }).notNull(), // provider:model
+  previousModel: varchar('previous_model', { length: 200 }).notNull(), // Model of the live embeddings at the start
+
+  status: varchar('status', { length: 20 }).$type<EmbeddingMigrationStatus>().notNull().default('running'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'), // Every row re-embedded and indexed
+  activatedAt: timestamp('activated_at'),
+}, (table) => ({
+  statusIdx: index('idx_embedding_migrations_status').on(table.status),
+}));
+
+// ============================================
+// EMBEDDING MIGRATION DOCUMENTS
+// ============================================
+// Per-document progress, so an interrupted migration resumes where it stopped
+export const embeddingMigrationDocuments = pgTable('embedding_migration_documents', {
+  migrationDocumentId: uuid('migration_document_id').primaryKey().defaultRandom(),
+  migrationId: uuid('migration_id').notNull().references(() => embeddingMigrations.migrationId, { onDelete: 'cascade' }),
+  docId: uuid('doc_id').notNull().references(() => documents.docId, { onDelete: 'cascade' }),
+
+  status: varchar('status', { length: 20 }).$type<EmbeddingMigrationDocumentStatus>().notNull().default('pending'),
+  chunksEmbedded: integer('chunks_embedded').notNull().default(0),
+  subChunksEmbedded: integer('sub_chunks_embedded').notNull().default(0),
+  error: text('error'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  migrationDocIdx: uniqueIndex('idx_embedding_migration_documents_doc').on(table.migrationId, table.docId),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type EmbeddingMigration = typeof embeddingMigrations.$inferSelect;
+export type NewEmbeddingMigration = typeof embeddingMigrations.$inferInsert;
+export type EmbeddingMigrationDocument = typeof embeddingMigrationDocuments.$inferSelect;
+export type NewEmbeddingMigrationDocument = typeof embeddingMigrationDocuments.$inferInsert;
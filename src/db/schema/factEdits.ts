@@ -0,0 +1,34 @@
+import { pgTable, uuid, integer, varchar, text, jsonb, timestamp, index } from 'drizzle-orm/pg-core';
+import { documents } from './documents';
+import { documentChunks } from './documentChunks';
+import type { FactEditAction, FactLayer } from '@/app/Felix/types/fact-review';
+
+// ============================================
+// FACT EDITS
+// ============================================
+// Audit log of reviewer changes to extracted TB/PAQL/PAQN facts, one row per
+// change, with the fact as it was before and after
+export const factEdits = pgTable('fact_edits', {
+  editId: uuid('edit_id').primaryKey().defaultRandom(),
+  docId: uuid('doc_id').notNull().references(() => documents.docId, { onDelete: 'cascade' }),
+  chunkId: uuid('chunk_id').notNull().references(() => documentChunks.chunkId, { onDelete: 'cascade' }),
+  layer: varchar('layer', { length: 4 }).$type<FactLayer>().notNull(),
+  factIndex: integer('fact_index').notNull(), // Position in the chunk's array for the layer
+
+  action: varchar('action', { length: 20 }).$type<FactEditAction>().notNull(),
+  before: jsonb('before'), // Null for added facts
+  after: jsonb('after'),
+  editedBy: varchar('edited_by', { length: 64 }).notNull(),
+  note: text('note'),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  docIdx: index('idx_fact_edits_doc').on(table.docId, table.createdAt),
+  chunkFactIdx: index('idx_fact_edits_chunk_fact').on(table.chunkId, table.layer, table.factIndex),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type FactEdit = typeof factEdits.$inferSelect;
+export type NewFactEdit = typeof factEdits.$inferInsert;
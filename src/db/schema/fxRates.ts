@@ -0,0 +1,27 @@
+import { pgTable, uuid, varchar, date, doublePrecision, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+
+// ============================================
+// FX RATES
+// ============================================
+// Exchange rates imported from CSV, used to convert PAQN currency amounts
+// into a common reporting currency
+export const fxRates = pgTable('fx_rates', {
+  rateId: uuid('rate_id').primaryKey().defaultRandom(),
+  baseCurrency: varchar('base_currency', { length: 3 }).notNull(), // ISO 4217, e.g. EUR
+  quoteCurrency: varchar('quote_currency', { length: 3 }).notNull(), // ISO 4217, e.g. USD
+  rateDate: date('rate_date').notNull(),
+  rate: doublePrecision('rate').notNull(), // Units of quote currency per unit of base currency
+  source: varchar('source', { length: 100 }), // Where the rate came from, e.g. the CSV file name
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  pairDateIdx: uniqueIndex('idx_fx_rates_pair_date').on(table.baseCurrency, table.quoteCurrency, table.rateDate),
+  rateDateIdx: index('idx_fx_rates_date').on(table.rateDate),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type FxRate = typeof fxRates.$inferSelect;
+export type NewFxRate = typeof fxRates.$inferInsert;
@@ -2,3 +2,12 @@
 export * from './companies';
 export * from './documents';
 export * from './documentChunks';
+export * from './documentPages';
+export * from './documentSubChunks';
+export * from './ingestionJobs';
+export * from './chats';
+export * from './chatFeedback';
+export * from './embeddingMigrations';
+export * from './metrics';
+export * from './fxRates';
+export * from './factEdits';
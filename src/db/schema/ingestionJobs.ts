@@ -0,0 +1,78 @@
+import { pgTable, uuid, integer, text, varchar, jsonb, timestamp, index, uniqueIndex, vector } from 'drizzle-orm/pg-core';
+import { companies } from './companies';
+import { documents } from './documents';
+import type { DocumentStructure, SectionContent } from '@/app/Felix/lib/ai/schemas';
+import type { PageText } from '@/app/Felix/lib/ai/text-extraction';
+import type { EmbeddedSubChunk } from '@/app/Felix/lib/ai/chunking';
+import type { DuplicateAction, IngestionJobStatus, IngestionPhase, IngestionSectionStatus } from '@/app/Felix/types/ingestion';
+
+// ============================================
+// INGESTION JOBS
+// ============================================
+export const ingestionJobs = pgTable('ingestion_jobs', {
+  jobId: uuid('job_id').primaryKey().defaultRandom(),
+
+  filename: varchar('filename', { length: 255 }).notNull(),
+  fileSize: integer('file_size').notNull(),
+  contentHash: varchar('content_hash', { length: 64 }).notNull(), // SHA-256 of the PDF bytes
+  storageKey: text('storage_key').notNull(), // Object storage key of the original PDF
+
+  status: varchar('status', { length: 20 }).$type<IngestionJobStatus>().notNull().default('pending'),
+  currentPhase: varchar('current_phase', { length: 20 }).$type<IngestionPhase>().notNull().default('structure'),
+  attempts: integer('attempts').notNull().default(0), // Number of times the job has been run or resumed
+  error: text('error'),
+
+  // Phase 1 output, kept so later phases never need to re-run it
+  structure: jsonb('structure').$type<DocumentStructure>(),
+  pageTexts: jsonb('page_texts').$type<PageText[]>(), // Local text layer, empty if it could not be read
+
+  // Existing document this upload replaces or adds a new version of (see DuplicateAction)
+  supersedesDocId: uuid('supersedes_doc_id').references(() => documents.docId, { onDelete: 'set null' }),
+  duplicateAction: varchar('duplicate_action', { length: 20 }).$type<Exclude<DuplicateAction, 'skip'>>(),
+
+  // Set once Phase 4 has saved the document
+  companyId: uuid('company_id').references(() => companies.companyId, { onDelete: 'set null' }),
+  documentId: uuid('document_id').references(() => documents.docId, { onDelete: 'set null' }),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  completedAt: timestamp('completed_at'),
+}, (table) => ({
+  statusIdx: index('idx_ingestion_jobs_status').on(table.status),
+  createdIdx: index('idx_ingestion_jobs_created').on(table.createdAt),
+}));
+
+// ============================================
+// INGESTION JOB SECTIONS
+// ============================================
+export const ingestionJobSections = pgTable('ingestion_job_sections', {
+  sectionId: uuid('section_id').primaryKey().defaultRandom(),
+  jobId: uuid('job_id').notNull().references(() => ingestionJobs.jobId, { onDelete: 'cascade' }),
+
+  sectionIndex: integer('section_index').notNull(), // 0-based position in structure.sections
+  sectionTitle: varchar('section_title', { length: 500 }).notNull(),
+  pageStart: integer('page_start').notNull(),
+  pageEnd: integer('page_end').notNull(),
+
+  status: varchar('status', { length: 20 }).$type<IngestionSectionStatus>().notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  error: text('error'),
+
+  // Phase 2 and Phase 3 outputs for this section
+  content: jsonb('content').$type<SectionContent>(),
+  embedding: vector('embedding', { dimensions: 1536 }),
+  subChunks: jsonb('sub_chunks').$type<EmbeddedSubChunk[]>(),
+
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  jobIdx: index('idx_ingestion_sections_job').on(table.jobId),
+  jobSectionIdx: uniqueIndex('idx_ingestion_sections_job_index').on(table.jobId, table.sectionIndex),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type IngestionJob = typeof ingestionJobs.$inferSelect;
+export type NewIngestionJob = typeof ingestionJobs.$inferInsert;
+export type IngestionJobSection = typeof ingestionJobSections.$inferSelect;
+export type NewIngestionJobSection = typeof ingestionJobSections.$inferInsert;
@@ -0,0 +1,58 @@
+import { pgTable, uuid, integer, text, varchar, jsonb, timestamp, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import { documents } from './documents';
+import { documentChunks } from './documentChunks';
+import type { NormalizedQuantitativeData, StoredFact } from '@/app/Felix/lib/ai/schemas';
+import type { MetricReviewReason, MetricReviewStatus, MetricUnitFamily } from '@/app/Felix/types/metrics';
+
+// ============================================
+// METRIC DEFINITIONS
+// ============================================
+// The metric dictionary: extracted PAQN metric names are mapped onto these
+// canonical names through their aliases
+export const metricDefinitions = pgTable('metric_definitions', {
+  metricId: uuid('metric_id').primaryKey().defaultRandom(),
+  canonicalName: varchar('canonical_name', { length: 100 }).notNull(), // snake_case, e.g. rental_revenue
+  displayName: varchar('display_name', { length: 200 }).notNull(),
+  description: text('description'),
+  aliases: jsonb('aliases').$type<string[]>().notNull().default([]), // Normalized metric keys, e.g. rental_income
+  unitFamily: varchar('unit_family', { length: 20 }).$type<MetricUnitFamily>().notNull(),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  canonicalNameIdx: uniqueIndex('idx_metric_definitions_name').on(table.canonicalName),
+}));
+
+// ============================================
+// METRIC REVIEW QUEUE
+// ============================================
+// Facts the normalizer couldn't place, one row per fact
+export const metricReviewQueue = pgTable('metric_review_queue', {
+  reviewId: uuid('review_id').primaryKey().defaultRandom(),
+  docId: uuid('doc_id').notNull().references(() => documents.docId, { onDelete: 'cascade' }),
+  chunkId: uuid('chunk_id').notNull().references(() => documentChunks.chunkId, { onDelete: 'cascade' }),
+  factIndex: integer('fact_index').notNull(), // Position in the chunk's quantitative_data
+
+  reason: varchar('reason', { length: 30 }).$type<MetricReviewReason>().notNull(),
+  status: varchar('status', { length: 20 }).$type<MetricReviewStatus>().notNull().default('open'),
+
+  metricKey: varchar('metric_key', { length: 200 }).notNull(), // Normalized extracted name, groups identical facts
+  fact: jsonb('fact').$type<StoredFact<NormalizedQuantitativeData>>().notNull(), // As stored when queued
+  suggestedMetric: varchar('suggested_metric', { length: 100 }), // Closest canonical name, if any
+  resolvedMetricId: uuid('resolved_metric_id').references(() => metricDefinitions.metricId, { onDelete: 'set null' }),
+
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  resolvedAt: timestamp('resolved_at'),
+}, (table) => ({
+  chunkFactIdx: uniqueIndex('idx_metric_review_chunk_fact').on(table.chunkId, table.factIndex),
+  statusIdx: index('idx_metric_review_status').on(table.status),
+  metricKeyIdx: index('idx_metric_review_metric_key').on(table.metricKey),
+}));
+
+// ============================================
+// TYPES
+// ============================================
+export type MetricDefinition = typeof metricDefinitions.$inferSelect;
+export type NewMetricDefinition = typeof metricDefinitions.$inferInsert;
+export type MetricReview = typeof metricReviewQueue.$inferSelect;
+export type NewMetricReview = typeof metricReviewQueue.$inferInsert;
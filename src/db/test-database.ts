@@ -0,0 +1,22 @@
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite/vector';
+import { drizzle } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
+import { join } from 'path';
+import type { db as database } from './index';
+import * as schema from './schema';
+
+/**
+ * Create an in-memory Postgres (PGlite, with pgvector) migrated to the
+ * current schema, for tests that need real queries against fixture rows
+ * Typed as the app's database, as both share the pg-core query builder
+ */
+export async function createTestDatabase(): Promise<typeof database> {
+  const client = new PGlite({ extensions: { vector } });
+  await client.exec('CREATE EXTENSION IF NOT EXISTS vector;');
+
+  const testDb = drizzle({ client, schema });
+  await migrate(testDb, { migrationsFolder: join(__dirname, '../../drizzle/migrations') });
+
+  return testDb as unknown as typeof database;
+}